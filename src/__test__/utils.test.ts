@@ -9,6 +9,10 @@ import {
   isTwitchLivestreamLink,
   isRedditLink,
   isTwitterLink,
+  isSoundCloudLink,
+  isSoundCloudSetLink,
+  isBandcampLink,
+  isBandcampAlbumLink,
   getClockString,
   getSecondsFromClockString,
   getSecondsFromUrlTimestamp,
@@ -16,6 +20,8 @@ import {
   camelCaseToSnakeCase,
   isUuid,
   notUuidValidator,
+  getCsv,
+  parseCsv,
 } from '../utils';
 
 describe('utils', () => {
@@ -112,6 +118,28 @@ describe('utils', () => {
       expect(parseDelay('10 d')).toEqual(expected);
       expect(parseDelay('10d')).toEqual(expected);
     });
+    test('weeks', () => {
+      const expected = 10 * 7 * 24 * 60 * 60 * 1000;
+      expect(parseDelay('10 weeks')).toEqual(expected);
+      expect(parseDelay('10 week')).toEqual(expected);
+      expect(parseDelay('10 wks')).toEqual(expected);
+      expect(parseDelay('10 w')).toEqual(expected);
+      expect(parseDelay('10w')).toEqual(expected);
+    });
+    test('months', () => {
+      const expected = 10 * 30 * 24 * 60 * 60 * 1000;
+      expect(parseDelay('10 months')).toEqual(expected);
+      expect(parseDelay('10 month')).toEqual(expected);
+      expect(parseDelay('10 mos')).toEqual(expected);
+      expect(parseDelay('10mo')).toEqual(expected);
+    });
+    test('years', () => {
+      const expected = 10 * 365 * 24 * 60 * 60 * 1000;
+      expect(parseDelay('10 years')).toEqual(expected);
+      expect(parseDelay('10 year')).toEqual(expected);
+      expect(parseDelay('10 yrs')).toEqual(expected);
+      expect(parseDelay('10y')).toEqual(expected);
+    });
     test('throws for invalid input', () => {
       expect(() => parseDelay('random')).toThrowError();
     });
@@ -195,6 +223,64 @@ describe('utils', () => {
     });
   });
 
+  describe('isSoundCloudLink', () => {
+    test('proper link', () => {
+      expect(isSoundCloudLink('https://soundcloud.com/artist/track-name')).toBe(true);
+    });
+    test('www and mobile', () => {
+      expect(isSoundCloudLink('https://www.soundcloud.com/artist/track-name')).toBe(true);
+      expect(isSoundCloudLink('https://m.soundcloud.com/artist/track-name')).toBe(true);
+    });
+    test('private link', () => {
+      expect(isSoundCloudLink('https://soundcloud.com/artist/track-name/s-AbC123')).toBe(true);
+    });
+    test('query parameters', () => {
+      expect(isSoundCloudLink('https://soundcloud.com/artist/track-name?in=artist/sets/foo')).toBe(true);
+    });
+    test('invalid link', () => {
+      expect(isSoundCloudLink('https://soundcloud.com/artist')).toBe(false);
+      expect(isSoundCloudLink('https://soundcloud.com/artist/sets')).toBe(false);
+      expect(isSoundCloudLink('https://soundcloud.com/artist/likes')).toBe(false);
+      expect(isSoundCloudLink('https://soundcloud.com/artist/sets/playlist-name')).toBe(false);
+      expect(isSoundCloudLink('https://foo.bandcamp.com/track/track-name')).toBe(false);
+    });
+  });
+
+  describe('isSoundCloudSetLink', () => {
+    test('proper link', () => {
+      expect(isSoundCloudSetLink('https://soundcloud.com/artist/sets/playlist-name')).toBe(true);
+    });
+    test('private link', () => {
+      expect(isSoundCloudSetLink('https://soundcloud.com/artist/sets/playlist-name/s-AbC123')).toBe(true);
+    });
+    test('invalid link', () => {
+      expect(isSoundCloudSetLink('https://soundcloud.com/artist/track-name')).toBe(false);
+      expect(isSoundCloudSetLink('https://soundcloud.com/artist/sets')).toBe(false);
+    });
+  });
+
+  describe('isBandcampLink', () => {
+    test('proper link', () => {
+      expect(isBandcampLink('https://artist.bandcamp.com/track/track-name')).toBe(true);
+      expect(isBandcampLink('https://some-artist2.bandcamp.com/track/track-name')).toBe(true);
+    });
+    test('invalid link', () => {
+      expect(isBandcampLink('https://bandcamp.com/track/track-name')).toBe(false);
+      expect(isBandcampLink('https://artist.bandcamp.com/album/album-name')).toBe(false);
+      expect(isBandcampLink('https://artist.bandcamp.com.evil.com/track/track-name')).toBe(false);
+    });
+  });
+
+  describe('isBandcampAlbumLink', () => {
+    test('proper link', () => {
+      expect(isBandcampAlbumLink('https://artist.bandcamp.com/album/album-name')).toBe(true);
+    });
+    test('invalid link', () => {
+      expect(isBandcampAlbumLink('https://artist.bandcamp.com/track/track-name')).toBe(false);
+      expect(isBandcampAlbumLink('https://artist.bandcamp.com')).toBe(false);
+    });
+  });
+
   describe('getClockString', () => {
     test('0', () => {
       expect(getClockString(0)).toBe('0');
@@ -346,4 +432,29 @@ describe('utils', () => {
       expect(() => notUuidValidator('foo')).not.toThrow();
     });
   });
+
+  describe('getCsv', () => {
+    test('joins values', () => {
+      expect(getCsv([['a', 1, true], ['b', null, undefined]])).toBe('a,1,true\r\nb,,');
+    });
+    test('quotes values with special characters', () => {
+      expect(getCsv([['a,b', 'say "hi"', 'line\nbreak']])).toBe('"a,b","say ""hi""","line\nbreak"');
+    });
+  });
+
+  describe('parseCsv', () => {
+    test('splits rows and values', () => {
+      expect(parseCsv('a,b\r\nc,d\ne,')).toEqual([['a', 'b'], ['c', 'd'], ['e', '']]);
+    });
+    test('quoted values', () => {
+      expect(parseCsv('"a,b","say ""hi""","line\nbreak"')).toEqual([['a,b', 'say "hi"', 'line\nbreak']]);
+    });
+    test('leaves out empty lines and the byte order mark', () => {
+      expect(parseCsv('\uFEFFa,b\n\nc,d\n')).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+    test('parses what getCsv creates', () => {
+      const rows = [['Title', 'Notes'], ['Movie, The', 'A "great"\r\nmovie'], ['', 'x']];
+      expect(parseCsv(getCsv(rows))).toEqual(rows);
+    });
+  });
 });
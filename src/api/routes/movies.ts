@@ -9,6 +9,39 @@ import { Movie, Movies } from 'src/models/movies';
 import { MovieNotes } from 'src/models/movie-notes';
 import { MovieLists, MovieList } from 'src/models/movie-lists';
 import { createMovie, startMovie } from 'src/commands/movies';
+import {
+  castBallot,
+  checkCanClosePoll,
+  closePoll,
+  createPoll,
+  getPollCandidates,
+  pickCandidates,
+  removeBallot,
+} from 'src/commands/movies/movie-night-polls';
+import { MovieNightPolls, MovieNightPoll, VotingMethod } from 'src/models/movie-night-polls';
+import { MovieNightBallots } from 'src/models/movie-night-ballots';
+import {
+  getGuildRating,
+  includeRatings,
+  rateMovie,
+  removeRating,
+  sortByGuildRating,
+} from 'src/commands/movies/ratings';
+import { getLastWatchedAt, includeWatches, setWatched } from 'src/commands/movies/watches';
+import {
+  exportMovies,
+  getMoviesCsv,
+  importMovies,
+  MovieFileFormat,
+  parseMovieFile,
+} from 'src/commands/movies/movie-files';
+import {
+  DEFAULT_MOVIE_NIGHT_POLL_CANDIDATES,
+  DEFAULT_MOVIE_NIGHT_POLL_DURATION,
+  MAX_MOVIE_NIGHT_POLL_DURATION,
+  MAX_MOVIE_RATING,
+  MIN_MOVIE_RATING,
+} from 'src/constants';
 import { error } from 'src/logging';
 import { camelCaseToSnakeCase, isValidKey } from 'src/utils';
 import { getErrorMsg } from 'src/discord-utils';
@@ -21,6 +54,8 @@ const router = express.Router();
  *
  * GET /movies/:guildId
  * POST /movies/:guildId
+ * GET /movies/:guildId/export
+ * POST /movies/:guildId/import
  * PATCH /movies/:guildId/:movieId
  * DELETE /movies/:guildId/:movieId
  * PUT /movies/:guildId/:movieId/lists
@@ -34,6 +69,16 @@ const router = express.Router();
  *
  * PUT /movies/:guildId/:movieId/notes
  * DELETE /movies/:guildId/:movieId/notes
+ *
+ * PUT /movies/:guildId/:movieId/rating
+ * DELETE /movies/:guildId/:movieId/rating
+ *
+ * GET /movies/:guildId/polls
+ * POST /movies/:guildId/polls
+ * GET /movies/:guildId/polls/:pollId
+ * PUT /movies/:guildId/polls/:pollId/ballot
+ * DELETE /movies/:guildId/polls/:pollId/ballot
+ * POST /movies/:guildId/polls/:pollId/close
  */
 
 const includeOrderedMovies: Sequelize.Includeable = {
@@ -104,9 +149,41 @@ const listMiddleware = (options?: MovieListOptions) => async (req: Optional<List
   }
 };
 
+interface PollRequest extends AuthRequest<GuildRequest> {
+  poll: MovieNightPoll,
+}
+
+const includeBallots: Sequelize.Includeable = {
+  model: MovieNightBallots,
+  as: 'ballots',
+  attributes: ['user_id', 'choices'],
+};
+
+async function pollMiddleware(req: Optional<PollRequest, 'poll'>, res: Response, next: NextFunction): Promise<void> {
+  const poll = await MovieNightPolls.findOne({
+    where: {
+      id: req.params.pollId,
+      guild_id: req.params.guildId,
+    },
+  // pollId may not conform to UUID syntax and therefore this may throw an error
+  }).catch(() => null);
+  if (poll) {
+    req.poll = poll;
+    next();
+  } else {
+    res.status(404).end();
+  }
+}
+
 // @ts-expect-error
 router.get('/:guildId', authMiddleware, guildMiddleware, async (req: AuthRequest<GuildRequest>, res) => {
-  const data = await Movies.findAll({
+  const { sort } = req.query;
+  const minGuildRating = req.query.minGuildRating != null ? Number(req.query.minGuildRating) : null;
+  if (sort != null && sort !== 'guildRating') return res.status(400).send('sort must be one of: guildRating');
+  if (minGuildRating != null && (Number.isNaN(minGuildRating) || minGuildRating < MIN_MOVIE_RATING || minGuildRating > MAX_MOVIE_RATING)) {
+    return res.status(400).send(`minGuildRating must be between ${MIN_MOVIE_RATING} and ${MAX_MOVIE_RATING}.`);
+  }
+  let movies = await Movies.findAll({
     where: {
       guild_id: req.guild.id,
     },
@@ -127,9 +204,23 @@ router.get('/:guildId', authMiddleware, guildMiddleware, async (req: AuthRequest
           attributes: [],
         },
       },
+      includeRatings,
+      includeWatches,
     ],
   });
-  res.status(200).json(data);
+  if (minGuildRating != null) {
+    movies = movies.filter(movie => {
+      const { average } = getGuildRating(movie);
+      return average != null && average >= minGuildRating;
+    });
+  }
+  if (sort === 'guildRating') sortByGuildRating(movies);
+  const data = movies.map(movie => ({
+    ...movie.toJSON(),
+    guild_rating: getGuildRating(movie),
+    last_watched_at: getLastWatchedAt(movie),
+  }));
+  return res.status(200).json(data);
 });
 
 // @ts-expect-error
@@ -171,18 +262,67 @@ router.post('/:guildId', authMiddleware, guildMiddleware, async (req: AuthReques
   }
 });
 
+// @ts-expect-error
+router.get('/:guildId/export', authMiddleware, guildMiddleware, async (req: AuthRequest<GuildRequest>, res) => {
+  const format = req.query.format ?? MovieFileFormat.JSON;
+  if (format !== MovieFileFormat.JSON && format !== MovieFileFormat.CSV) {
+    return res.status(400).send(`format must be one of: ${Object.values(MovieFileFormat).join(', ')}`);
+  }
+  const movies = await exportMovies(req.guild.id);
+  if (format === MovieFileFormat.CSV) {
+    return res.status(200).type('text/csv').send(getMoviesCsv(movies));
+  }
+  return res.status(200).json(movies);
+});
+
+/**
+ * Responds with the result of each row once every movie has been looked up, which can take a while with the rate limits.
+ */
+// @ts-expect-error
+router.post('/:guildId/import', authMiddleware, guildMiddleware, async (req: AuthRequest<GuildRequest>, res) => {
+  // The JSON format can be sent directly, or either format can be sent as a string
+  const content = typeof req.body.content === 'string' ? req.body.content : JSON.stringify(req.body.movies);
+  if (!content) {
+    return res.status(400).send('content or movies is required.');
+  }
+  const { wasWatched } = req.body;
+  if (wasWatched != null && typeof wasWatched !== 'boolean') return res.status(400).end();
+  let rows: ReturnType<typeof parseMovieFile>;
+  try {
+    rows = parseMovieFile(content);
+  } catch (err) {
+    return res.status(400).send(getErrorMsg(err));
+  }
+  try {
+    const results = await importMovies({
+      guildId: req.guild.id,
+      userId: req.user.id,
+      rows,
+      markWatched: wasWatched,
+    });
+    return res.status(200).json(results);
+  } catch (err) {
+    error(err);
+    return res.status(400).send(getErrorMsg(err));
+  }
+});
+
 // @ts-expect-error
 router.patch('/:guildId/:movieId', authMiddleware, guildMiddleware, movieMiddleware, async (req: MovieRequest, res) => {
   const { movie } = req;
   try {
-    Object.entries(req.body).forEach(([key, value]) => {
+    const { wasWatched, ...attributes } = req.body;
+    if (wasWatched != null && typeof wasWatched !== 'boolean') return res.status(400).end();
+    Object.entries(attributes).forEach(([key, value]) => {
       key = camelCaseToSnakeCase(key);
-      if (isValidKey(movie.dataValues, key)) {
+      // Whether the movie was watched is derived from its watches
+      if (isValidKey(movie.dataValues, key) && key !== 'was_watched') {
         // @ts-expect-error
         movie[key] = value;
       }
     });
     await movie.save();
+    if (wasWatched != null) await setWatched(movie, wasWatched);
     return res.status(200).json(movie);
   } catch (err) {
     error(err);
@@ -235,7 +375,7 @@ router.put('/:guildId/:movieId/lists', authMiddleware, guildMiddleware, movieMid
 // @ts-expect-error
 router.post('/:guildId/:movieId/start', authMiddleware, guildMiddleware, movieMiddleware, async (req: MovieRequest, res) => {
   const { movie } = req;
-  await startMovie(movie);
+  await startMovie(movie, { hostId: req.user.id });
   res.status(204).end();
 });
 
@@ -392,4 +532,142 @@ router.delete('/:guildId/:movieId/notes', authMiddleware, guildMiddleware, movie
   res.status(204).end();
 });
 
+// @ts-expect-error
+router.put('/:guildId/:movieId/rating', authMiddleware, guildMiddleware, movieMiddleware, async (req: MovieRequest, res) => {
+  const { movie } = req;
+  const { rating } = req.body;
+  if (typeof rating !== 'number') return res.status(400).end();
+  try {
+    await rateMovie(movie, req.user.id, rating);
+    await movie.reload({ include: [includeRatings] });
+    return res.status(200).json(getGuildRating(movie));
+  } catch (err) {
+    error(err);
+    return res.status(400).send(getErrorMsg(err));
+  }
+});
+
+// @ts-expect-error
+router.delete('/:guildId/:movieId/rating', authMiddleware, guildMiddleware, movieMiddleware, async (req: MovieRequest, res) => {
+  await removeRating(req.movie, req.user.id);
+  res.status(204).end();
+});
+
+// @ts-expect-error
+router.get('/:guildId/polls', authMiddleware, guildMiddleware, async (req: AuthRequest<GuildRequest>, res) => {
+  const data = await MovieNightPolls.findAll({
+    where: {
+      guild_id: req.guild.id,
+    },
+    order: [
+      ['createdAt', 'DESC'],
+    ],
+    include: includeBallots,
+  });
+  res.status(200).json(data);
+});
+
+// @ts-expect-error
+router.post('/:guildId/polls', authMiddleware, guildMiddleware, async (req: AuthRequest<GuildRequest>, res) => {
+  const {
+    method = VotingMethod.APPROVAL,
+    durationMs = DEFAULT_MOVIE_NIGHT_POLL_DURATION,
+    candidateIds,
+    listId,
+    numCandidates = DEFAULT_MOVIE_NIGHT_POLL_CANDIDATES,
+    ignoreListOrder,
+  } = req.body;
+  if (!Object.values(VotingMethod).includes(method)) return res.status(400).end();
+  if (typeof durationMs !== 'number' || durationMs <= 0 || durationMs > MAX_MOVIE_NIGHT_POLL_DURATION) return res.status(400).end();
+  if (candidateIds != null && (!Array.isArray(candidateIds) || candidateIds.some(id => typeof id !== 'string'))) {
+    return res.status(400).end();
+  }
+  if (listId != null && typeof listId !== 'string') return res.status(400).end();
+  if (typeof numCandidates !== 'number') return res.status(400).end();
+  if (ignoreListOrder != null && typeof ignoreListOrder !== 'boolean') return res.status(400).end();
+
+  try {
+    let candidates: Movie[];
+    if (candidateIds) {
+      const movies = await Movies.findAll({
+        where: {
+          id: candidateIds,
+          guild_id: req.guild.id,
+        },
+      });
+      if (movies.length !== new Set(candidateIds).size) return res.status(400).send('Some of the movies could not be found.');
+      // Keep the order that the candidates were given in
+      candidates = movies.sort((a, b) => candidateIds.indexOf(a.id) - candidateIds.indexOf(b.id));
+    } else {
+      candidates = await pickCandidates({
+        guildId: req.guild.id,
+        filters: { list: listId },
+        numCandidates,
+        ignoreListOrder,
+      });
+    }
+    const poll = await createPoll({
+      guildId: req.guild.id,
+      creatorId: req.user.id,
+      method,
+      candidates,
+      durationMs,
+    });
+    await poll.reload({ include: includeBallots });
+    return res.status(200).json(poll);
+  } catch (err) {
+    error(err);
+    return res.status(400).send(getErrorMsg(err));
+  }
+});
+
+// @ts-expect-error
+router.get('/:guildId/polls/:pollId', authMiddleware, guildMiddleware, pollMiddleware, async (req: PollRequest, res) => {
+  const { poll } = req;
+  await poll.reload({ include: includeBallots });
+  res.status(200).json({
+    ...poll.toJSON(),
+    candidates: await getPollCandidates(poll),
+  });
+});
+
+// @ts-expect-error
+router.put('/:guildId/polls/:pollId/ballot', authMiddleware, guildMiddleware, pollMiddleware, async (req: PollRequest, res) => {
+  const { poll } = req;
+  const isInvalid = !Array.isArray(req.body) || req.body.some(item => typeof item !== 'string');
+  if (isInvalid) return res.status(400).end();
+  try {
+    const ballot = await castBallot(poll, req.user.id, req.body);
+    return res.status(200).json(ballot);
+  } catch (err) {
+    error(err);
+    return res.status(400).send(getErrorMsg(err));
+  }
+});
+
+// @ts-expect-error
+router.delete('/:guildId/polls/:pollId/ballot', authMiddleware, guildMiddleware, pollMiddleware, async (req: PollRequest, res) => {
+  try {
+    await removeBallot(req.poll, req.user.id);
+    return res.status(204).end();
+  } catch (err) {
+    error(err);
+    return res.status(400).send(getErrorMsg(err));
+  }
+});
+
+// @ts-expect-error
+router.post('/:guildId/polls/:pollId/close', authMiddleware, guildMiddleware, pollMiddleware, async (req: PollRequest, res) => {
+  const { poll } = req;
+  try {
+    await checkCanClosePoll(poll, req.user.id);
+  } catch (err) {
+    return res.status(403).send(getErrorMsg(err));
+  }
+  if (poll.closed_at != null) return res.status(400).send('This vote has already ended.');
+  await closePoll(poll);
+  await poll.reload({ include: includeBallots });
+  return res.status(200).json(poll);
+});
+
 export default router;
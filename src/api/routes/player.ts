@@ -1,11 +1,40 @@
+import type { Optional } from 'src/types';
+
 import express, { Response, NextFunction } from 'express';
-import authMiddleware, { AuthRequest } from 'src/api/middlewares/auth';
+import authMiddleware, { AuthRequest, GuildRequest } from 'src/api/middlewares/auth';
+import { client } from 'src/client';
 import Session from 'src/commands/player/session';
 import sessions from 'src/commands/player/sessions';
 import { checkVoiceErrors, getErrorMsg, getRateLimiterFromEnv } from 'src/discord-utils';
 import { getRateLimiterMiddleware } from 'src/api/middlewares/rate-limiter';
 import { PlayerFavorites } from 'src/models/player-favorites';
+import { PlayerSettings } from 'src/models/player-settings';
+import { PlayerPlaylists, PlayerPlaylist } from 'src/models/player-playlists';
+import { PlayerPlaylistTracks } from 'src/models/player-playlist-tracks';
 import { play } from 'src/commands/player/play';
+import {
+  addTracksToPlaylist,
+  checkCanEditPlaylist,
+  checkCanManagePlaylist,
+  getPlaylist,
+  includeOrderedTracks,
+  movePlaylistTrack,
+  removePlaylistTrack,
+} from 'src/commands/player/playlists';
+import { getHistory } from 'src/commands/player/history';
+import { getPlayerStats, StatsPeriod } from 'src/commands/player/stats';
+import { getRemainingQueueDuration } from 'src/commands/player/queue';
+import { exportQueue, getM3u, importQueue, QueueFileFormat } from 'src/commands/player/queue-files';
+import { checkCanManageTrack, checkIsDj, skipOrVote } from 'src/commands/player/dj';
+import { AudioFilters, parseAudioFilters } from 'src/commands/player/audio-filters';
+import {
+  MAX_CROSSFADE_SECONDS,
+  MAX_PLAYER_HISTORY_FETCH,
+  MAX_QUEUE_FETCH,
+  PLAYER_HISTORY_PAGE_SIZE,
+  QUEUE_PAGE_SIZE,
+} from 'src/constants';
+import { error } from 'src/logging';
 import { guildMiddleware } from '../middlewares/guild';
 
 const rateLimiter = getRateLimiterFromEnv('PLAYER_USER_LIMIT', 'PLAYER_GUILD_LIMIT');
@@ -32,6 +61,35 @@ async function sessionPermissionMiddleware(req: AuthRequest, res: Response, next
   return next();
 }
 
+/**
+ * The player settings apply to the whole guild, so they require the Manage Server permission like /player-settings.
+ */
+async function manageGuildMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+  const guild = await client.guilds.fetch(req.params.guildId).catch(() => null);
+  const member = await guild?.members.fetch(req.user.id).catch(() => null);
+  if (!member?.permissions.has('ManageGuild')) {
+    return res.status(403).send('You must have the Manage Server permission to change this setting.');
+  }
+  return next();
+}
+
+interface PlaylistRequest extends AuthRequest<GuildRequest> {
+  playlist: PlayerPlaylist,
+}
+
+async function playlistMiddleware(req: Optional<PlaylistRequest, 'playlist'>, res: Response, next: NextFunction) {
+  const playlist = await getPlaylist({
+    playlistId: req.params.playlistId,
+    guildId: req.params.guildId,
+    options: includeOrderedTracks,
+  }).catch(() => null);
+  if (!playlist) {
+    return res.status(404).end();
+  }
+  req.playlist = playlist;
+  return next();
+}
+
 async function sessionMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   const session = sessions.get(req.params.guildId);
   if (!session) {
@@ -48,6 +106,80 @@ router.get('/:guildId', authMiddleware, sessionPermissionMiddleware, sessionMidd
   res.status(200).json(data);
 });
 
+router.get(
+  '/:guildId/queue',
+  authMiddleware,
+  // @ts-expect-error
+  sessionPermissionMiddleware,
+  sessionMiddleware,
+  async (req: SessionRequest, res) => {
+    const offset = req.query.offset != null ? Number(req.query.offset) : 0;
+    const limit = req.query.limit != null ? Number(req.query.limit) : QUEUE_PAGE_SIZE;
+    if (!Number.isInteger(offset) || offset < 0) return res.status(400).send('offset must be a non-negative integer.');
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUEUE_FETCH) {
+      return res.status(400).send(`limit must be an integer between 1 and ${MAX_QUEUE_FETCH}.`);
+    }
+    const session = req.playerSession;
+    const queue = session.getCombinedQueue();
+    const [tracks, remainingDuration] = await Promise.all([
+      Promise.all(queue.slice(offset, offset + limit).map(track => session.getTrackData(track))),
+      getRemainingQueueDuration(session),
+    ]);
+    return res.status(200).json({
+      queue: tracks,
+      totalQueueSize: queue.length,
+      // Tracks at or after this index are from the next iteration of the queue loop
+      loopStartIdx: session.isLooped() ? session.queue.length : null,
+      remainingDurationMs: remainingDuration.durationMs,
+      numUnknownDurations: remainingDuration.numUnknown,
+    });
+  },
+);
+
+router.get(
+  '/:guildId/queue/export',
+  authMiddleware,
+  // @ts-expect-error
+  sessionPermissionMiddleware,
+  sessionMiddleware,
+  async (req: SessionRequest, res) => {
+    const format = req.query.format ?? QueueFileFormat.JSON;
+    if (format !== QueueFileFormat.JSON && format !== QueueFileFormat.M3U) {
+      return res.status(400).send(`format must be one of: ${Object.values(QueueFileFormat).join(', ')}`);
+    }
+    const tracks = await exportQueue(req.playerSession);
+    if (format === QueueFileFormat.M3U) {
+      return res.status(200).type('audio/x-mpegurl').send(getM3u(tracks));
+    }
+    return res.status(200).json(tracks);
+  },
+);
+
+router.post(
+  '/:guildId/queue/import',
+  authMiddleware,
+  // @ts-expect-error
+  rateLimiterMiddleware,
+  sessionPermissionMiddleware,
+  async (req: AuthRequest, res) => {
+    // The JSON format can be sent directly, or either format can be sent as a string
+    const content = typeof req.body.content === 'string' ? req.body.content : JSON.stringify(req.body.tracks);
+    if (!content) {
+      return res.status(400).send('content or tracks is required.');
+    }
+    try {
+      const result = await importQueue({
+        guildId: req.params.guildId,
+        userId: req.user.id,
+        content,
+      });
+      return res.status(200).json(result);
+    } catch (err) {
+      return res.status(400).send(getErrorMsg(err));
+    }
+  },
+);
+
 router.post(
   '/:guildId/resume',
   authMiddleware,
@@ -88,8 +220,17 @@ router.post(
   sessionPermissionMiddleware,
   sessionMiddleware,
   async (req: SessionRequest, res) => {
-    await req.playerSession.skip();
-    res.status(204).end();
+    const { skipped, votes, required } = await skipOrVote({
+      session: req.playerSession,
+      guildId: req.params.guildId,
+      userId: req.user.id,
+    });
+    if (skipped) {
+      res.status(204).end();
+    } else {
+      // The skip vote was counted, but more votes are needed
+      res.status(202).json({ votes, required });
+    }
   },
 );
 
@@ -101,8 +242,13 @@ router.post(
   sessionPermissionMiddleware,
   sessionMiddleware,
   async (req: SessionRequest, res) => {
+    try {
+      await checkIsDj(req.params.guildId, req.user.id, 'shuffle the queue');
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
     req.playerSession.shuffle();
-    res.status(204).end();
+    return res.status(204).end();
   },
 );
 
@@ -154,11 +300,15 @@ router.post(
   sessionMiddleware,
   async (req: SessionRequest, res) => {
     if (req.body.from == null || req.body.to == null) {
-      res.status(400).send('to and from indices are required.');
-    } else {
-      req.playerSession.move(req.body.from, req.body.to);
-      res.status(204).end();
+      return res.status(400).send('to and from indices are required.');
     }
+    try {
+      await checkCanManageTrack(req.params.guildId, req.user.id, req.playerSession.queue[req.body.from]);
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
+    req.playerSession.move(req.body.from, req.body.to);
+    return res.status(204).end();
   },
 );
 
@@ -170,8 +320,13 @@ router.post(
   sessionPermissionMiddleware,
   sessionMiddleware,
   async (req: SessionRequest, res) => {
+    try {
+      await checkIsDj(req.params.guildId, req.user.id, 'clear the queue');
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
     req.playerSession.clear();
-    res.status(204).end();
+    return res.status(204).end();
   },
 );
 
@@ -183,8 +338,17 @@ router.post(
   sessionPermissionMiddleware,
   sessionMiddleware,
   async (req: SessionRequest, res) => {
+    const track = req.playerSession.queue.find(t => t.id === req.params.trackId);
+    if (!track) {
+      return res.status(404).end();
+    }
+    try {
+      await checkCanManageTrack(req.params.guildId, req.user.id, track);
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
     req.playerSession.remove(req.params.trackId);
-    res.status(204).end();
+    return res.status(204).end();
   },
 );
 
@@ -200,8 +364,98 @@ router.post(
     if (idx < 0) {
       return res.status(404).end();
     }
-    req.playerSession.move(idx, 0);
-    await req.playerSession.skip();
+    try {
+      // This skips the current track, so it is treated the same as a DJ skipping
+      await checkIsDj(req.params.guildId, req.user.id, 'play a track immediately');
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
+    await req.playerSession.jumpTo(idx);
+    return res.status(204).end();
+  },
+);
+
+router.get(
+  '/:guildId/filters',
+  authMiddleware,
+  // @ts-expect-error
+  sessionPermissionMiddleware,
+  sessionMiddleware,
+  async (req: SessionRequest, res) => {
+    res.status(200).json(req.playerSession.getFilters());
+  },
+);
+
+router.put(
+  '/:guildId/filters',
+  authMiddleware,
+  // @ts-expect-error
+  rateLimiterMiddleware,
+  sessionPermissionMiddleware,
+  sessionMiddleware,
+  async (req: SessionRequest, res) => {
+    let filters: AudioFilters;
+    try {
+      filters = parseAudioFilters(req.body);
+    } catch (err) {
+      return res.status(400).send(getErrorMsg(err));
+    }
+    await req.playerSession.setFilters(filters);
+    return res.status(200).json(req.playerSession.getFilters());
+  },
+);
+
+router.delete(
+  '/:guildId/filters',
+  authMiddleware,
+  // @ts-expect-error
+  rateLimiterMiddleware,
+  sessionPermissionMiddleware,
+  sessionMiddleware,
+  async (req: SessionRequest, res) => {
+    await req.playerSession.setFilters({});
+    res.status(204).end();
+  },
+);
+
+router.post(
+  '/:guildId/autoplay',
+  authMiddleware,
+  // @ts-expect-error
+  rateLimiterMiddleware,
+  guildMiddleware,
+  manageGuildMiddleware,
+  sessionPermissionMiddleware,
+  async (req: AuthRequest, res) => {
+    if (typeof req.body.enabled !== 'boolean') {
+      return res.status(400).send('enabled is required.');
+    }
+    await PlayerSettings.upsert({
+      guild_id: req.params.guildId,
+      autoplay: req.body.enabled,
+    });
+    return res.status(204).end();
+  },
+);
+
+router.post(
+  '/:guildId/crossfade',
+  authMiddleware,
+  // @ts-expect-error
+  rateLimiterMiddleware,
+  guildMiddleware,
+  manageGuildMiddleware,
+  sessionPermissionMiddleware,
+  async (req: AuthRequest, res) => {
+    const { seconds } = req.body;
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_CROSSFADE_SECONDS) {
+      return res.status(400).send(`seconds must be an integer between 0 and ${MAX_CROSSFADE_SECONDS}.`);
+    }
+    await PlayerSettings.upsert({
+      guild_id: req.params.guildId,
+      crossfade_seconds: seconds,
+    });
+    sessions.get(req.params.guildId)?.setCrossfadeSeconds(seconds);
     return res.status(204).end();
   },
 );
@@ -237,8 +491,283 @@ router.post(
         inputs: {
           vodLink: req.body.vodLink,
           favoriteId: req.body.favoriteId,
+          playlistId: req.body.playlistId,
           streamLink: req.body.streamLink,
           queryStr: req.body.queryStr,
+          localFile: req.body.localFile,
+          pushToFront: req.body.pushToFront,
+          shuffle: req.body.shuffle,
+        },
+      });
+      res.status(204).end();
+    } catch (err) {
+      res.status(400).send(getErrorMsg(err));
+    }
+  },
+);
+
+router.get(
+  '/:guildId/history',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  async (req: AuthRequest, res) => {
+    const offset = req.query.offset != null ? Number(req.query.offset) : 0;
+    const limit = req.query.limit != null ? Number(req.query.limit) : PLAYER_HISTORY_PAGE_SIZE;
+    if (!Number.isInteger(offset) || offset < 0) return res.status(400).send('offset must be a non-negative integer.');
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PLAYER_HISTORY_FETCH) {
+      return res.status(400).send(`limit must be an integer between 1 and ${MAX_PLAYER_HISTORY_FETCH}.`);
+    }
+    const data = await getHistory({
+      guildId: req.params.guildId,
+      offset,
+      limit,
+    });
+    return res.status(200).json(data);
+  },
+);
+
+router.get(
+  '/:guildId/stats',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  async (req: AuthRequest, res) => {
+    const period = req.query.period != null ? req.query.period : StatsPeriod.ALL_TIME;
+    // @ts-expect-error This is useless TS
+    if (!Object.values(StatsPeriod).includes(period)) {
+      return res.status(400).send(`period must be one of: ${Object.values(StatsPeriod).join(', ')}.`);
+    }
+    const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+    const stats = await getPlayerStats({
+      guildId: req.params.guildId,
+      period: period as StatsPeriod,
+      userId,
+    });
+    return res.status(200).json(stats);
+  },
+);
+
+router.get(
+  '/:guildId/playlists',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  async (req: AuthRequest, res) => {
+    const playlists = await PlayerPlaylists.findAll({
+      where: {
+        guild_id: req.params.guildId,
+      },
+      include: includeOrderedTracks.include,
+      order: [
+        ['createdAt', 'ASC'],
+        [{ model: PlayerPlaylistTracks, as: 'tracks' }, 'order', 'ASC'],
+      ],
+    });
+    res.status(200).json(playlists);
+  },
+);
+
+router.get(
+  '/:guildId/playlists/:playlistId',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  playlistMiddleware,
+  (req: PlaylistRequest, res) => {
+    res.status(200).json(req.playlist);
+  },
+);
+
+router.post(
+  '/:guildId/playlists',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  async (req: AuthRequest<GuildRequest>, res) => {
+    const { name, customId } = req.body;
+    if (!name || typeof name !== 'string') return res.status(400).end();
+    if (customId && typeof customId !== 'string') return res.status(400).end();
+    try {
+      const playlist = await PlayerPlaylists.create({
+        guild_id: req.guild.id,
+        owner_id: req.user.id,
+        name: name.trim(),
+        custom_id: customId?.trim() || null,
+      });
+      // This will be empty, but the frontend expects the "tracks" association to always be populated
+      await playlist.reload(includeOrderedTracks);
+      return res.status(200).json(playlist);
+    } catch (err) {
+      error(err);
+      return res.status(400).send(getErrorMsg(err));
+    }
+  },
+);
+
+router.patch(
+  '/:guildId/playlists/:playlistId',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  playlistMiddleware,
+  async (req: PlaylistRequest, res) => {
+    const { playlist } = req;
+    const { name, customId, collaboratorIds } = req.body;
+    if (name != null && (!name || typeof name !== 'string')) return res.status(400).end();
+    if (customId && typeof customId !== 'string') return res.status(400).end();
+    if (collaboratorIds != null && (!Array.isArray(collaboratorIds) || collaboratorIds.some(id => typeof id !== 'string'))) {
+      return res.status(400).end();
+    }
+    try {
+      await checkCanManagePlaylist(playlist, req.user.id);
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
+    try {
+      await playlist.update({
+        name: name?.trim() ?? playlist.name,
+        custom_id: customId === undefined ? playlist.custom_id : customId?.trim() || null,
+        collaborator_ids: collaboratorIds ?? playlist.collaborator_ids,
+      });
+      return res.status(200).json(playlist);
+    } catch (err) {
+      error(err);
+      return res.status(400).send(getErrorMsg(err));
+    }
+  },
+);
+
+router.delete(
+  '/:guildId/playlists/:playlistId',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  playlistMiddleware,
+  async (req: PlaylistRequest, res) => {
+    try {
+      await checkCanManagePlaylist(req.playlist, req.user.id, true);
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
+    await req.playlist.destroy();
+    return res.status(204).end();
+  },
+);
+
+router.post(
+  '/:guildId/playlists/:playlistId/tracks',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  playlistMiddleware,
+  sessionMiddleware,
+  async (req: PlaylistRequest & SessionRequest, res) => {
+    const { playlist, playerSession } = req;
+    const { source } = req.body;
+    if (source !== 'current' && source !== 'queue') {
+      return res.status(400).send('source must be either "current" or "queue".');
+    }
+    try {
+      checkCanEditPlaylist(playlist, req.user.id);
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
+    const currentTrack = playerSession.getCurrentTrack();
+    const tracks = source === 'current'
+      ? (currentTrack ? [currentTrack] : [])
+      : playerSession.queue.slice();
+    if (!tracks.length) return res.status(400).send('There are no tracks to add.');
+    try {
+      await addTracksToPlaylist({
+        playlist,
+        tracks,
+        userId: req.user.id,
+      });
+      await playlist.reload(includeOrderedTracks);
+      return res.status(200).json(playlist);
+    } catch (err) {
+      return res.status(400).send(getErrorMsg(err));
+    }
+  },
+);
+
+router.post(
+  '/:guildId/playlists/:playlistId/tracks/move',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  playlistMiddleware,
+  async (req: PlaylistRequest, res) => {
+    const { playlist } = req;
+    const { from, to } = req.body;
+    if (typeof from !== 'number' || typeof to !== 'number') {
+      return res.status(400).send('to and from indices are required.');
+    }
+    try {
+      checkCanEditPlaylist(playlist, req.user.id);
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
+    try {
+      await movePlaylistTrack({
+        playlist,
+        from,
+        to,
+        userId: req.user.id,
+      });
+      await playlist.reload(includeOrderedTracks);
+      return res.status(200).json(playlist);
+    } catch (err) {
+      return res.status(400).send(getErrorMsg(err));
+    }
+  },
+);
+
+router.delete(
+  '/:guildId/playlists/:playlistId/tracks/:trackId',
+  authMiddleware,
+  // @ts-expect-error
+  guildMiddleware,
+  playlistMiddleware,
+  async (req: PlaylistRequest, res) => {
+    const { playlist } = req;
+    try {
+      checkCanEditPlaylist(playlist, req.user.id);
+    } catch (err) {
+      return res.status(403).send(getErrorMsg(err));
+    }
+    const idx = (playlist.tracks || []).findIndex(track => track.id === req.params.trackId);
+    if (idx < 0) {
+      return res.status(404).end();
+    }
+    await removePlaylistTrack({
+      playlist,
+      idx,
+      userId: req.user.id,
+    });
+    await playlist.reload(includeOrderedTracks);
+    return res.status(200).json(playlist);
+  },
+);
+
+router.post(
+  '/:guildId/playlists/:playlistId/play',
+  authMiddleware,
+  // @ts-expect-error
+  rateLimiterMiddleware,
+  guildMiddleware,
+  playlistMiddleware,
+  sessionPermissionMiddleware,
+  async (req: PlaylistRequest, res) => {
+    try {
+      await play({
+        invoker: {
+          userId: req.user.id,
+          guildId: req.params.guildId,
+        },
+        inputs: {
+          playlistId: req.playlist.id,
           pushToFront: req.body.pushToFront,
           shuffle: req.body.shuffle,
         },
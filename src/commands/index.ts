@@ -7,7 +7,16 @@ import {
 
 import { client } from 'src/client';
 import { array } from 'src/utils';
-import { handleError, getCommandInfoFromInteraction, isModalSubmit, isCommand, isContextMenu, isButton } from 'src/discord-utils';
+import { error } from 'src/logging';
+import {
+  handleError,
+  getCommandInfoFromInteraction,
+  isModalSubmit,
+  isCommand,
+  isContextMenu,
+  isButton,
+  isAutocomplete,
+} from 'src/discord-utils';
 
 import Poll from './utilities/poll';
 import Move from './utilities/move';
@@ -26,6 +35,7 @@ import Movies from './movies';
 import MovieNightConfig from './movies/movie-night-config';
 import MovieNotes from './movies/movie-notes';
 import MovieLists from './movies/movie-lists';
+import MovieNight from './movies/movie-night';
 
 import Play from './player/play';
 import Connect from './player/connect';
@@ -40,6 +50,13 @@ import Queue from './player/queue';
 import Loop from './player/loop';
 import PlayerSettings from './player/player-settings';
 import PlayerFavorites from './player/player-favorites';
+import Playlists from './player/playlists';
+import Filters from './player/filters';
+import Lyrics from './player/lyrics';
+import Broadcast from './player/broadcast';
+import Tts from './player/tts';
+import PlayerStats from './player/player-stats';
+import Player from './player/player';
 
 const commands = [
   // Utilities
@@ -59,6 +76,7 @@ const commands = [
   MovieNightConfig,
   MovieNotes,
   MovieLists,
+  MovieNight,
 
   // Player
   Play,
@@ -74,6 +92,13 @@ const commands = [
   Loop,
   PlayerSettings,
   PlayerFavorites,
+  Playlists,
+  Filters,
+  Lyrics,
+  Broadcast,
+  Tts,
+  PlayerStats,
+  Player,
 
   // Chess
   Chess,
@@ -88,7 +113,7 @@ export function listenToCommands(): void {
         const { commandName } = getCommandInfoFromInteraction(interaction);
         return commandName === c.slashCommandData?.name;
       }
-      if (isCommand(interaction)) {
+      if (isCommand(interaction) || isAutocomplete(interaction)) {
         return interaction.commandName === c.slashCommandData?.name;
       }
       if (isContextMenu(interaction)) {
@@ -222,6 +247,13 @@ export function listenToCommands(): void {
       } catch (err) {
         handleError(err, interaction);
       }
+    } else if (isAutocomplete(interaction)) {
+      try {
+        if (command.runAutocomplete) await command.runAutocomplete(interaction);
+      } catch (err) {
+        // Autocomplete interactions cannot be replied to with an error message
+        error(err);
+      }
     }
   });
 }
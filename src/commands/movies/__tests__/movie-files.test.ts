@@ -0,0 +1,105 @@
+import { MAX_MOVIE_IMPORT_LENGTH } from 'src/constants';
+import type { ExportedMovie } from '../movie-files';
+import { getMoviesCsv, parseMovieFile } from '../movie-files';
+
+// Mock this so the DB doesn't get initialized from importing the client
+jest.mock('src/client', () => ({}));
+// The movie lookups aren't tested, and the command would be loaded before the module it imports from
+jest.mock('../index', () => ({}));
+
+function createExportedMovie(title: string, overrides: Partial<ExportedMovie> = {}): ExportedMovie {
+  return {
+    title,
+    year: null,
+    imdbId: null,
+    isFavorite: false,
+    wasWatched: false,
+    length: null,
+    genre: null,
+    director: null,
+    actors: null,
+    language: null,
+    maturityRating: null,
+    imdbRating: null,
+    metacriticRating: null,
+    rottenTomatoesRating: null,
+    notes: [],
+    lists: [],
+    ...overrides,
+  };
+}
+
+describe('movie files', () => {
+  describe('parseMovieFile', () => {
+    test('Parses Letterboxd exports', () => {
+      const content = [
+        'Date,Name,Year,Letterboxd URI',
+        '2023-01-02,"Crouching Tiger, Hidden Dragon",2000,https://boxd.it/abc',
+        '2023-01-03,Arrival,2016,https://boxd.it/def',
+      ].join('\n');
+      expect(parseMovieFile(content)).toEqual([
+        { row: 1, title: 'Crouching Tiger, Hidden Dragon', year: 2000, imdbId: null, wasWatched: false, skipReason: undefined },
+        { row: 2, title: 'Arrival', year: 2016, imdbId: null, wasWatched: false, skipReason: undefined },
+      ]);
+    });
+
+    test('Parses IMDb list exports and skips titles that are not movies', () => {
+      const content = [
+        'Position,Const,Created,Modified,Description,Title,URL,Title Type,IMDb Rating,Runtime (mins),Year',
+        '1,tt2543164,2023-01-01,2023-01-01,,Arrival,https://www.imdb.com/title/tt2543164/,Movie,7.9,116,2016',
+        '2,tt0903747,2023-01-01,2023-01-01,,Breaking Bad,https://www.imdb.com/title/tt0903747/,TV Series,9.5,49,2008',
+      ].join('\r\n');
+      expect(parseMovieFile(content)).toEqual([
+        { row: 1, title: 'Arrival', year: 2016, imdbId: 'tt2543164', wasWatched: false, skipReason: undefined },
+        { row: 2, title: 'Breaking Bad', year: 2008, imdbId: 'tt0903747', wasWatched: false, skipReason: 'Not a movie (tv series)' },
+      ]);
+    });
+
+    test('Parses our own exports', () => {
+      const movies = [createExportedMovie('Arrival', { year: 2016, imdbId: 'tt2543164', wasWatched: true })];
+      const expected = [{ row: 1, title: 'Arrival', year: 2016, imdbId: 'tt2543164', wasWatched: true }];
+      expect(parseMovieFile(JSON.stringify(movies))).toEqual(expected);
+      expect(parseMovieFile(getMoviesCsv(movies))).toMatchObject(expected);
+    });
+
+    test('Marks movies with a watched date as watched', () => {
+      const content = [
+        'Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date',
+        '2023-01-02,Arrival,2016,https://boxd.it/abc,4,,,2023-01-01',
+        '2023-01-03,Alien,1979,https://boxd.it/def,4,,,',
+      ].join('\n');
+      expect(parseMovieFile(content).map(row => row.wasWatched)).toEqual([true, false]);
+    });
+
+    test('Ignores invalid IMDb IDs', () => {
+      expect(parseMovieFile('Title,IMDb ID\nArrival,not-an-id')[0].imdbId).toBeNull();
+    });
+
+    test('Requires a title or IMDb ID column', () => {
+      expect(() => parseMovieFile('Date,Year\n2023-01-01,2016')).toThrow();
+    });
+
+    test('Limits the number of rows', () => {
+      const rows = [...Array(MAX_MOVIE_IMPORT_LENGTH + 1).keys()].map(idx => `Movie ${idx}`);
+      expect(() => parseMovieFile(['Title', ...rows].join('\n'))).toThrow();
+      expect(parseMovieFile(['Title', ...rows.slice(1)].join('\n'))).toHaveLength(MAX_MOVIE_IMPORT_LENGTH);
+    });
+
+    test('Rejects invalid JSON', () => {
+      expect(() => parseMovieFile('[')).toThrow('The file is not valid JSON.');
+    });
+  });
+
+  describe('getMoviesCsv', () => {
+    test('Includes notes and list membership', () => {
+      const csv = getMoviesCsv([createExportedMovie('Arrival', {
+        notes: [{ authorId: '123', note: 'Great, loved it' }, { authorId: '456', note: 'Sad' }],
+        lists: [{ id: 'a', customId: null, name: 'Sci-Fi' }, { id: 'b', customId: 'fav', name: 'Favorites' }],
+      })]);
+      const [header, row] = csv.split('\r\n');
+      expect(header.split(',')).toEqual(expect.arrayContaining(['Title', 'Lists', 'Notes']));
+      expect(row).toContain('Sci-Fi; Favorites');
+      expect(row).toContain('"123: Great, loved it\n456: Sad"');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import type { Movie } from 'src/models/movies';
+import { getGuildRating, getGuildRatingLabel, sortByGuildRating } from '../ratings';
+
+// Mock this so the DB doesn't get initialized from importing the client
+jest.mock('src/client', () => ({}));
+
+function createMovie(title: string, ratings?: number[]): Movie {
+  return {
+    title,
+    ratings: ratings?.map((rating, idx) => ({ user_id: `user-${idx}`, rating })),
+  } as unknown as Movie;
+}
+
+describe('ratings', () => {
+  describe('getGuildRating', () => {
+    test('Averages the ratings to one decimal place', () => {
+      expect(getGuildRating(createMovie('a', [7, 8, 8]))).toEqual({ average: 7.7, count: 3 });
+    });
+    test('No average without ratings', () => {
+      expect(getGuildRating(createMovie('a', []))).toEqual({ average: null, count: 0 });
+      expect(getGuildRating(createMovie('a'))).toEqual({ average: null, count: 0 });
+    });
+  });
+
+  describe('getGuildRatingLabel', () => {
+    test('Includes the number of votes', () => {
+      expect(getGuildRatingLabel(createMovie('a', [6]))).toBe('6/10 (1 vote)');
+      expect(getGuildRatingLabel(createMovie('a', [6, 9]))).toBe('7.5/10 (2 votes)');
+      expect(getGuildRatingLabel(createMovie('a', []))).toBe('-');
+    });
+  });
+
+  describe('sortByGuildRating', () => {
+    test('Sorts by the highest average with unrated movies last', () => {
+      const movies = [
+        createMovie('unrated', []),
+        createMovie('low', [2, 3]),
+        createMovie('high', [9]),
+        createMovie('middle', [5, 6]),
+      ];
+      expect(sortByGuildRating(movies).map(movie => movie.title)).toEqual(['high', 'middle', 'low', 'unrated']);
+    });
+  });
+});
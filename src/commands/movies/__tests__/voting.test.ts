@@ -0,0 +1,107 @@
+import { VotingMethod } from 'src/models/movie-night-polls';
+import { tallyApprovalVotes, tallyRankedVotes, tallyVotes } from '../voting';
+
+const candidateIds = ['a', 'b', 'c', 'd'];
+
+describe('voting', () => {
+  describe('tallyApprovalVotes', () => {
+    test('Candidate with the most approvals wins', () => {
+      const results = tallyApprovalVotes(candidateIds, [['a', 'b'], ['b'], ['b', 'c'], ['a']]);
+      expect(results).toEqual({
+        winnerId: 'b',
+        rounds: [{ a: 2, b: 3, c: 1, d: 0 }],
+        tiedIds: [],
+      });
+    });
+    test('Duplicate and unknown choices are ignored', () => {
+      const results = tallyApprovalVotes(candidateIds, [['a', 'a', 'a'], ['c', 'z']]);
+      expect(results.rounds).toEqual([{ a: 1, b: 0, c: 1, d: 0 }]);
+    });
+    test('Ties are broken randomly', () => {
+      const results = tallyApprovalVotes(candidateIds, [['a', 'c'], ['c', 'a']]);
+      expect(results.tiedIds).toEqual(['a', 'c']);
+      expect(['a', 'c']).toContain(results.winnerId);
+    });
+    test('No winner without votes', () => {
+      expect(tallyApprovalVotes(candidateIds, [[]]).winnerId).toBeNull();
+    });
+  });
+
+  describe('tallyRankedVotes', () => {
+    test('Majority of first choices wins in the first round', () => {
+      const results = tallyRankedVotes(candidateIds, [['a', 'b'], ['a'], ['b', 'a']]);
+      expect(results).toEqual({
+        winnerId: 'a',
+        rounds: [{ a: 2, b: 1, c: 0, d: 0 }],
+        tiedIds: [],
+      });
+    });
+    test('Votes are transferred from eliminated candidates', () => {
+      const ballots = [
+        ['a'],
+        ['a'],
+        ['b', 'a'],
+        ['c', 'b'],
+        ['c', 'b'],
+        ['b'],
+        ['d', 'b'],
+      ];
+      const results = tallyRankedVotes(candidateIds, ballots);
+      expect(results.winnerId).toBe('b');
+      expect(results.rounds.slice(0, 2)).toEqual([
+        { a: 2, b: 2, c: 2, d: 1 },
+        { a: 2, b: 3, c: 2 },
+      ]);
+      // a and c are tied for last place, so either one is eliminated
+      expect([{ b: 3, c: 2 }, { a: 2, b: 5 }]).toContainEqual(results.rounds[2]);
+      expect(results.tiedIds).toEqual([]);
+    });
+    test('Candidates tied for last place are eliminated one at a time', () => {
+      const ballots = [
+        ...Array(3).fill(['a', 'b']),
+        ...Array(3).fill(['b', 'a']),
+        ...Array(4).fill(['c']),
+      ];
+      const results = tallyRankedVotes(['a', 'b', 'c'], ballots);
+      // Eliminating a and b together would let c win with a minority of the votes
+      expect(['a', 'b']).toContain(results.winnerId);
+      expect(results.rounds).toHaveLength(2);
+      expect(results.rounds[0]).toEqual({ a: 3, b: 3, c: 4 });
+      expect([{ a: 6, c: 4 }, { b: 6, c: 4 }]).toContainEqual(results.rounds[1]);
+    });
+    test('Candidates that cannot catch up together are eliminated together', () => {
+      const ballots = [
+        ...Array(4).fill(['a']),
+        ...Array(4).fill(['b']),
+        ['c', 'a'],
+        ['d', 'a'],
+      ];
+      const results = tallyRankedVotes(candidateIds, ballots);
+      expect(results.winnerId).toBe('a');
+      expect(results.rounds).toEqual([
+        { a: 4, b: 4, c: 1, d: 1 },
+        { a: 6, b: 4 },
+      ]);
+    });
+    test('Ties between every remaining candidate are broken randomly', () => {
+      const results = tallyRankedVotes(candidateIds, [['a'], ['b']]);
+      expect(results.rounds).toEqual([
+        { a: 1, b: 1, c: 0, d: 0 },
+        { a: 1, b: 1 },
+      ]);
+      expect(results.tiedIds).toEqual(['a', 'b']);
+      expect(['a', 'b']).toContain(results.winnerId);
+    });
+    test('No winner without votes', () => {
+      expect(tallyRankedVotes(candidateIds, []).winnerId).toBeNull();
+    });
+  });
+
+  describe('tallyVotes', () => {
+    test('Uses the voting method', () => {
+      const ballots = [['a', 'b'], ['b', 'a'], ['c', 'b'], ['b']];
+      expect(tallyVotes(VotingMethod.APPROVAL, candidateIds, ballots).winnerId).toBe('b');
+      expect(tallyVotes(VotingMethod.RANKED, candidateIds, ballots).winnerId).toBe('b');
+    });
+  });
+});
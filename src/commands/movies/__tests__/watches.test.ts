@@ -0,0 +1,37 @@
+import type { Movie } from 'src/models/movies';
+import { getLastWatchedAt, getLastWatchedLabel } from '../watches';
+
+// Mock this so the DB doesn't get initialized from importing the client
+jest.mock('src/client', () => ({}));
+
+function createMovie(watchedAts?: (number | null)[], wasWatched = Boolean(watchedAts?.length)): Movie {
+  return {
+    was_watched: wasWatched,
+    watches: watchedAts?.map((watchedAt, idx) => ({ id: `watch-${idx}`, watched_at: watchedAt })),
+  } as unknown as Movie;
+}
+
+describe('watches', () => {
+  describe('getLastWatchedAt', () => {
+    test('Finds the most recent watch', () => {
+      expect(getLastWatchedAt(createMovie([100, 300, null, 200]))).toBe(300);
+    });
+    test('Null if the dates are unknown', () => {
+      expect(getLastWatchedAt(createMovie([null]))).toBeNull();
+      expect(getLastWatchedAt(createMovie([]))).toBeNull();
+    });
+  });
+
+  describe('getLastWatchedLabel', () => {
+    test('Shows the date and the number of watches', () => {
+      expect(getLastWatchedLabel(createMovie([100]))).toBe('<t:100:D>');
+      expect(getLastWatchedLabel(createMovie([100, 200]))).toBe('<t:200:D> (2 times)');
+      expect(getLastWatchedLabel(createMovie([null]))).toBe('Unknown date');
+      expect(getLastWatchedLabel(createMovie([]))).toBe('Never');
+    });
+    test('Falls back to whether it was watched if the watches are not loaded', () => {
+      expect(getLastWatchedLabel(createMovie(undefined, true))).toBe('Y');
+      expect(getLastWatchedLabel(createMovie(undefined, false))).toBe('N');
+    });
+  });
+});
@@ -1,14 +1,21 @@
 import type { Command, IntentionalAny, AnyInteraction, CommandOrModalRunMethod } from 'src/types';
 
 import axios from 'axios';
-import { ButtonStyle } from 'discord.js';
+import throttle from 'lodash.throttle';
+import { Attachment, AttachmentBuilder, ButtonStyle, ThreadChannel } from 'discord.js';
 import { SlashCommandBuilder, EmbedBuilder, SlashCommandSubcommandBuilder } from '@discordjs/builders';
 import { CreationAttributes, FindOptions, InferAttributes, Op } from 'sequelize';
 
 import { Movie, Movies } from 'src/models/movies';
 import { MovieNotes } from 'src/models/movie-notes';
 import { MovieLists } from 'src/models/movie-lists';
-import { MOVIE_DATABASE_API_ROOT } from 'src/constants';
+import {
+  MAX_MOVIE_IMPORT_FILE_SIZE,
+  MAX_MOVIE_RATING,
+  MIN_MOVIE_RATING,
+  MOVIE_DATABASE_API_ROOT,
+  MOVIE_HISTORY_PAGE_SIZE,
+} from 'src/constants';
 import {
   parseInput,
   getSubcommand,
@@ -18,16 +25,43 @@ import {
   isGuildRegularTextChannel,
   getResponseFromModal,
   getRateLimiterFromEnv,
+  replyWithPages,
 } from 'src/discord-utils';
-import { log } from 'src/logging';
-import { getRandomElement, isNumber } from 'src/utils';
+import { error, log } from 'src/logging';
+import { filterOutFalsy, getRandomElement, isNumber } from 'src/utils';
 import { MovieNightConfig } from 'src/models/movie-night-config';
+import { MovieWatches } from 'src/models/movie-watches';
+import {
+  getGuildRating,
+  getGuildRatingLabel,
+  includeRatings,
+  rateMovie,
+  sendRatingMessage,
+  sortByGuildRating,
+} from './ratings';
+import {
+  getAttendeeIds,
+  getLastWatchedLabel,
+  getRecentlyWatchedMovieIds,
+  includeWatches,
+  logWatch,
+  setWatched,
+} from './watches';
+import {
+  exportMovies,
+  getImportReportCsv,
+  getMoviesCsv,
+  importMovies,
+  MovieFileFormat,
+  MovieImportStatus,
+  parseMovieFile,
+} from './movie-files';
 
-const rateLimiter = getRateLimiterFromEnv('MOVIES_USER_CREATE_LIMIT', 'MOVIES_GUILD_CREATE_LIMIT');
+export const rateLimiter = getRateLimiterFromEnv('MOVIES_USER_CREATE_LIMIT', 'MOVIES_GUILD_CREATE_LIMIT');
 
 const movieApiKey = process.env.OMBD_API_KEY;
 
-function isMovieApiSetUp(): boolean {
+export function isMovieApiSetUp(): boolean {
   return Boolean(movieApiKey);
 }
 
@@ -67,8 +101,8 @@ export function getMovieEmbeds(movie: Movie): EmbedBuilder[] {
           inline: true,
         },
         {
-          name: 'Watched?',
-          value: movie.was_watched ? 'Y' : 'N',
+          name: 'Last Watched',
+          value: getLastWatchedLabel(movie),
           inline: true,
         },
         {
@@ -91,6 +125,11 @@ export function getMovieEmbeds(movie: Movie): EmbedBuilder[] {
           value: movie.rotten_tomatoes_rating != null ? String(movie.rotten_tomatoes_rating) : '-',
           inline: true,
         },
+        {
+          name: 'Server',
+          value: getGuildRatingLabel(movie),
+          inline: true,
+        },
       ],
       footer: movie.imdb_id ? {
         text: `IMDb ID: ${movie.imdb_id}`,
@@ -177,6 +216,72 @@ commandBuilder.addSubcommand(subcommand => {
   return subcommand;
 });
 
+commandBuilder.addSubcommand(subcommand => {
+  subcommand
+    .setName('rate')
+    .setDescription('Rate a movie that you watched.')
+    .addIntegerOption(option => option
+      .setName('rating')
+      .setDescription(`Your rating (${MIN_MOVIE_RATING}-${MAX_MOVIE_RATING})`)
+      .setMinValue(MIN_MOVIE_RATING)
+      .setMaxValue(MAX_MOVIE_RATING)
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('title')
+      .setDescription('Title of the movie')
+      .setRequired(false))
+    .addStringOption(option => option
+      .setName('imdb_id')
+      .setDescription('Part of the URL. Ex: tt8801880')
+      .setRequired(false));
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand
+    .setName('history')
+    .setDescription('List the movies that were watched, most recent first.')
+    .addStringOption(option => option
+      .setName('title')
+      .setDescription('Only show the history of this movie')
+      .setRequired(false))
+    .addStringOption(option => option
+      .setName('imdb_id')
+      .setDescription('Part of the URL. Ex: tt8801880')
+      .setRequired(false));
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand
+    .setName('import')
+    .setDescription('Add the movies from a CSV or JSON file, e.g. a Letterboxd or IMDb list export.')
+    .addAttachmentOption(option => option
+      .setName('file')
+      .setDescription('CSV or JSON file with titles or IMDb IDs')
+      .setRequired(true))
+    .addBooleanOption(option => option
+      .setName('watched')
+      .setDescription('Mark every movie as watched, e.g. for watched.csv from Letterboxd')
+      .setRequired(false));
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand
+    .setName('export')
+    .setDescription('Export the movies with their notes and lists.')
+    .addStringOption(option => option
+      .setName('format')
+      .setDescription('Defaults to CSV')
+      .addChoices(
+        { name: 'CSV', value: MovieFileFormat.CSV },
+        { name: 'JSON', value: MovieFileFormat.JSON },
+      )
+      .setRequired(false));
+  return subcommand;
+});
+
 commandBuilder.addSubcommand(subcommand => {
   subcommand
     .setName('delete')
@@ -192,7 +297,7 @@ commandBuilder.addSubcommand(subcommand => {
   return subcommand;
 });
 
-function applyFilterOptions(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+export function applyFilterOptions(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
   return subcommand
     .addStringOption(option => option
       .setName('title')
@@ -224,6 +329,12 @@ function applyFilterOptions(subcommand: SlashCommandSubcommandBuilder): SlashCom
       .setMaxValue(100)
       .setDescription('Metacritic rating of movie')
       .setRequired(false))
+    .addNumberOption(option => option
+      .setName('guild_rating')
+      .setMinValue(MIN_MOVIE_RATING)
+      .setMaxValue(MAX_MOVIE_RATING)
+      .setDescription('Average rating from members of this server')
+      .setRequired(false))
     .addStringOption(option => option
       .setName('genre')
       .setDescription('Genre')
@@ -244,6 +355,10 @@ function applyFilterOptions(subcommand: SlashCommandSubcommandBuilder): SlashCom
       .setName('was_watched')
       .setDescription('Whether the movie has been watched')
       .setRequired(false))
+    .addStringOption(option => option
+      .setName('not_watched_within')
+      .setDescription('Leave out movies watched within this long. Examples: "1 year" or "6 months".')
+      .setRequired(false))
     .addNumberOption(option => option
       .setName('movie_length_max')
       .setMinValue(0)
@@ -270,10 +385,14 @@ commandBuilder.addSubcommand(subcommand => {
   subcommand
     .setName('list')
     .setDescription('Filters a list of movies.');
-  return applyFilterOptions(subcommand);
+  return applyFilterOptions(subcommand)
+    .addBooleanOption(option => option
+      .setName('sort_by_guild_rating')
+      .setDescription('Sort by the average rating from members of this server')
+      .setRequired(false));
 });
 
-interface FilterInputs {
+export interface FilterInputs {
   title?: string,
   imdb_id?: string,
   list?: string,
@@ -285,9 +404,11 @@ interface FilterInputs {
   imdb_rating?: number,
   rotten_tomatoes_rating?: number,
   metacritic_rating?: number,
+  guild_rating?: number,
   maturity_rating?: string,
   is_favorite?: boolean,
   was_watched?: boolean,
+  not_watched_within?: string,
 }
 
 interface MovieAttributeInputs {
@@ -336,10 +457,10 @@ export function getSetNoteButtonConfig({
         note: results.note,
       });
       await movie.reload({
-        include: {
+        include: [{
           model: MovieNotes,
           as: 'notes',
-        },
+        }, includeRatings, includeWatches],
       });
       await modalInteraction.editReply('Your movie note was set');
       await interaction.editReply({
@@ -364,11 +485,69 @@ export async function getMovie({
   const query: FindOptions<InferAttributes<Movies>>['where'] = { guild_id: guildId };
   if (title) query.title = { [Op.iLike]: title };
   if (imdbId) query.imdb_id = { [Op.iLike]: imdbId };
-  const movie = await Movies.findOne({ where: query });
+  const movie = await Movies.findOne({ where: query, include: [includeRatings, includeWatches] });
   if (!movie) throw new Error('Movie not found');
   return movie;
 }
 
+/**
+ * Looks up the movie with the OMDb API, which must be set up. Callers are responsible for rate limiting.
+ * @param year Narrows down the search by title
+ */
+export async function fetchMovieAttributes({
+  guildId,
+  imdbId,
+  title,
+  year,
+}: {
+  guildId: string,
+  imdbId?: string | null,
+  title?: string | null,
+  year?: number | null,
+}): Promise<CreationAttributes<Movie>> {
+  if (!movieApiKey) throw new Error('The OMDb API is not configured.');
+  const url = new URL(MOVIE_DATABASE_API_ROOT);
+  url.searchParams.append('apiKey', movieApiKey);
+  url.searchParams.append('type', 'movie');
+  if (imdbId) {
+    url.searchParams.append('i', imdbId);
+  } else if (title) {
+    url.searchParams.append('t', title);
+    if (year) url.searchParams.append('y', String(year));
+  }
+
+  const res = await axios.get(url.href);
+  if (res.data.Response === 'True' && res.data.Type === 'movie') {
+    log('Creating movie from data', res.data);
+    // Found the movie
+    const attributes: CreationAttributes<Movie> = {
+      guild_id: guildId,
+      title: res.data.Title,
+      is_favorite: false,
+      was_watched: false,
+      actors: res.data.Actors,
+      director: res.data.Director,
+      genre: res.data.Genre,
+      year: Number(res.data.Year),
+      imdb_id: res.data.imdbID,
+      rating: res.data.Rated,
+      language: res.data.Language,
+    };
+    const rottenTomatoesRating = res.data.Ratings.find((r: IntentionalAny) => r.Source === 'Rotten Tomatoes')?.Value?.replace('%', '');
+    if (rottenTomatoesRating && isNumber(rottenTomatoesRating)) attributes.rotten_tomatoes_rating = Number(rottenTomatoesRating);
+    if (isNumber(res.data.Metascore)) attributes.metacritic_rating = Number(res.data.Metascore);
+    if (isNumber(res.data.imdbRating)) attributes.imdb_rating = Number(res.data.imdbRating) * 10;
+    const runtime = res.data.Runtime?.replace(/[^\d]/g, '');
+    if (isNumber(runtime)) attributes.length = Number(runtime);
+    return attributes;
+  }
+  if (res.data.Response === 'False') {
+    // Movie is not found
+    throw new Error('Movie not found');
+  }
+  throw new Error('The API gave an unexpected response.');
+}
+
 export async function createMovie({
   userId,
   guildId,
@@ -390,48 +569,16 @@ export async function createMovie({
 
   if (movieApiKey) {
     await rateLimiter.attempt({ userId, guildId });
-    const url = new URL(MOVIE_DATABASE_API_ROOT);
-    url.searchParams.append('apiKey', movieApiKey);
-    url.searchParams.append('type', 'movie');
-    if (imdbId) {
-      url.searchParams.append('i', imdbId);
-    } else if (title) {
-      url.searchParams.append('t', title);
-    }
-
-    const res = await axios.get(url.href);
-    if (res.data.Response === 'True' && res.data.Type === 'movie') {
-      log('Creating movie from data', res.data);
-      // Found the movie
-      const attributes: CreationAttributes<Movie> = {
-        guild_id: guildId,
-        title: res.data.Title,
-        is_favorite: isFavorite,
-        was_watched: wasWatched,
-        actors: res.data.Actors,
-        director: res.data.Director,
-        genre: res.data.Genre,
-        year: Number(res.data.Year),
-        imdb_id: res.data.imdbID,
-        rating: res.data.Rated,
-        language: res.data.Language,
-      };
-      const rottenTomatoesRating = res.data.Ratings.find((r: IntentionalAny) => r.Source === 'Rotten Tomatoes')?.Value?.replace('%', '');
-      if (rottenTomatoesRating && isNumber(rottenTomatoesRating)) attributes.rotten_tomatoes_rating = Number(rottenTomatoesRating);
-      if (isNumber(res.data.Metascore)) attributes.metacritic_rating = Number(res.data.Metascore);
-      if (isNumber(res.data.imdbRating)) attributes.imdb_rating = Number(res.data.imdbRating) * 10;
-      const runtime = res.data.Runtime?.replace(/[^\d]/g, '');
-      if (isNumber(runtime)) attributes.length = Number(runtime);
-
-      const [movie] = await Movies.upsert(attributes, { returning: true });
-      return movie;
-    }
-    if (res.data.Response === 'False') {
-      // Movie is not found
-      throw new Error('Movie not found');
-    }
-    throw new Error('The API gave an unexpected response.');
-  } else if (title) {
+    const attributes = await fetchMovieAttributes({ guildId, imdbId, title });
+    const [movie] = await Movies.upsert({
+      ...attributes,
+      is_favorite: isFavorite,
+      was_watched: wasWatched,
+    }, { returning: true });
+    if (wasWatched) await setWatched(movie, true);
+    return movie;
+  }
+  if (title) {
     // Upsert the movie
     const [movie] = await Movies.upsert({
       guild_id: guildId,
@@ -442,9 +589,8 @@ export async function createMovie({
       returning: true,
     });
     return movie;
-  } else {
-    throw new Error('Movie not created. Title was not provided and the movie data could not be fetched.');
   }
+  throw new Error('Movie not created. Title was not provided and the movie data could not be fetched.');
 }
 
 async function handleCreate(interaction: AnyInteraction): Promise<IntentionalAny> {
@@ -509,7 +655,6 @@ async function handleUpate(interaction: AnyInteraction): Promise<IntentionalAny>
     guild_id: interaction.guildId!,
   };
   if (inputs.favorite != null) updateObject.is_favorite = inputs.favorite;
-  if (inputs.watched != null) updateObject.was_watched = inputs.watched;
   if (inputs.actors != null) updateObject.actors = inputs.actors;
   if (inputs.director != null) updateObject.director = inputs.director;
   if (inputs.genre != null) updateObject.genre = inputs.genre;
@@ -520,6 +665,10 @@ async function handleUpate(interaction: AnyInteraction): Promise<IntentionalAny>
   if (inputs.language != null) updateObject.language = inputs.language;
 
   await movie.update(updateObject);
+  if (inputs.watched != null) {
+    await setWatched(movie, inputs.watched);
+    await movie.reload({ include: [includeRatings, includeWatches] });
+  }
   await replyWithButtons({
     interaction,
     messageData: {
@@ -532,10 +681,11 @@ async function handleUpate(interaction: AnyInteraction): Promise<IntentionalAny>
   });
 }
 
-async function getFilteredMovies(inputs: FilterInputs): Promise<Movie[]> {
-  const where: FindOptions<InferAttributes<Movies>>['where'] = {};
+export async function getFilteredMovies(inputs: FilterInputs, guildId: string): Promise<Movie[]> {
+  const where: FindOptions<InferAttributes<Movies>>['where'] = { guild_id: guildId };
   const query: FindOptions<InferAttributes<Movies>> = {
     where,
+    include: [includeRatings, includeWatches],
   };
   if (inputs.title) {
     where.title = { [Op.iLike]: `%${inputs.title}%` };
@@ -576,8 +726,12 @@ async function getFilteredMovies(inputs: FilterInputs): Promise<Movie[]> {
   if (inputs.movie_length_max) {
     where.length = { [Op.lte]: inputs.movie_length_max };
   }
+  if (inputs.not_watched_within) {
+    const recentlyWatchedIds = await getRecentlyWatchedMovieIds(guildId, inputs.not_watched_within);
+    if (recentlyWatchedIds.length) where.id = { [Op.notIn]: recentlyWatchedIds };
+  }
   if (inputs.list) {
-    query.include = {
+    query.include = [includeRatings, includeWatches, {
       model: MovieLists,
       as: 'lists',
       where: {
@@ -586,13 +740,13 @@ async function getFilteredMovies(inputs: FilterInputs): Promise<Movie[]> {
       through: {
         as: 'junction',
       },
-    };
+    }];
   }
   const movies = await Movies.findAll(query).catch(() => {
     // We cannot use the same query for testing both list "id" and "custom_id"
     // since an error can be thrown if the value for "id" does not conform to UUID syntax
     if (inputs.list) {
-      query.include = {
+      query.include = [includeRatings, includeWatches, {
         model: MovieLists,
         as: 'lists',
         where: {
@@ -601,11 +755,15 @@ async function getFilteredMovies(inputs: FilterInputs): Promise<Movie[]> {
         through: {
           as: 'junction',
         },
-      };
+      }];
     }
     return Movies.findAll(query);
   });
-  return movies.sort((a, b) => {
+  return movies.filter(movie => {
+    if (!inputs.guild_rating) return true;
+    const { average } = getGuildRating(movie);
+    return average != null && average >= inputs.guild_rating;
+  }).sort((a, b) => {
     if (!inputs.list) return 0;
     return a.lists![0].junction!.order - b.lists![0].junction!.order;
   });
@@ -615,17 +773,20 @@ async function handleList(interaction: AnyInteraction): Promise<IntentionalAny>
   const inputs = await parseInput({
     slashCommandData: commandBuilder,
     interaction,
-  }) as FilterInputs;
-  const filteredMovies = await getFilteredMovies(inputs);
+  }) as FilterInputs & {
+    sort_by_guild_rating?: boolean,
+  };
+  const filteredMovies = await getFilteredMovies(inputs, interaction.guildId!);
+  if (inputs.sort_by_guild_rating) sortByGuildRating(filteredMovies);
 
   if (!filteredMovies.length) {
     await interaction.editReply('No movies found');
   } else if (filteredMovies.length === 1) {
     await filteredMovies[0].reload({
-      include: {
+      include: [{
         model: MovieNotes,
         as: 'notes',
-      },
+      }, includeRatings, includeWatches],
     });
     await replyWithButtons({
       interaction,
@@ -649,21 +810,61 @@ async function handleList(interaction: AnyInteraction): Promise<IntentionalAny>
   }
 }
 
-export async function startMovie(movie: Movie): Promise<void> {
-  await movie.update({ was_watched: true });
-  const movieNightConfig = await MovieNightConfig.findByPk(movie.guild_id);
-  if (movieNightConfig) {
-    const channel = await getChannel(movieNightConfig.channel_id);
-    if (channel && isGuildRegularTextChannel(channel)) {
-      const thread = await channel.threads.create({
-        name: movie.title,
-        invitable: true,
-      });
-      await thread.send({
-        content: `<@&${movieNightConfig.role_id}>`,
-        embeds: getMovieEmbeds(movie),
-      });
-    }
+/**
+ * Creates a discussion thread in the configured channel and mentions the configured role, if the guild has set them up.
+ */
+export async function openMovieNightThread({
+  guildId,
+  name,
+  embeds,
+}: {
+  guildId: string,
+  name: string,
+  embeds: EmbedBuilder[],
+}): Promise<ThreadChannel | null> {
+  const movieNightConfig = await MovieNightConfig.findByPk(guildId);
+  if (!movieNightConfig) return null;
+  const channel = await getChannel(movieNightConfig.channel_id);
+  if (!channel || !isGuildRegularTextChannel(channel)) return null;
+  const thread = await channel.threads.create({
+    name,
+    invitable: true,
+  });
+  await thread.send({
+    content: `<@&${movieNightConfig.role_id}>`,
+    embeds,
+  });
+  return thread;
+}
+
+/**
+ * Logs a watch of the movie and opens its discussion thread.
+ * @param voiceChannelId Where the movie is being watched, to find the attendees
+ * @param hostId The member who started the movie, whose voice channel is used if there is no voiceChannelId
+ */
+export async function startMovie(movie: Movie, {
+  voiceChannelId,
+  hostId,
+}: {
+  voiceChannelId?: string | null,
+  hostId?: string | null,
+} = {}): Promise<void> {
+  const attendeeIds = await getAttendeeIds({ guildId: movie.guild_id, voiceChannelId, hostId }).catch(err => {
+    error(err);
+    return [];
+  });
+  // The embeds show when the movie was last watched before this
+  await movie.reload({ include: [includeRatings, includeWatches] });
+  const embeds = getMovieEmbeds(movie);
+  const watch = await logWatch({ movie, attendeeIds });
+  const thread = await openMovieNightThread({
+    guildId: movie.guild_id,
+    name: movie.title,
+    embeds,
+  });
+  if (thread) {
+    await watch.update({ thread_id: thread.id });
+    await sendRatingMessage(movie, thread);
   }
 }
 
@@ -675,7 +876,7 @@ async function handlePick(interaction: AnyInteraction): Promise<IntentionalAny>
     ignore_list_order?: boolean,
   };
 
-  const filteredMovies = await getFilteredMovies(inputs);
+  const filteredMovies = await getFilteredMovies(inputs, interaction.guildId!);
 
   if (!filteredMovies.length) {
     await interaction.editReply('Could not find a movie that matches your filters.');
@@ -686,10 +887,10 @@ async function handlePick(interaction: AnyInteraction): Promise<IntentionalAny>
     ? getRandomElement(filteredMovies)
     : filteredMovies[0];
   await pickedMovie.reload({
-    include: {
+    include: [{
       model: MovieNotes,
       as: 'notes',
-    },
+    }, includeRatings, includeWatches],
   });
 
   await replyWithButtons({
@@ -701,7 +902,7 @@ async function handlePick(interaction: AnyInteraction): Promise<IntentionalAny>
       id: 'start',
       label: 'Start',
       style: ButtonStyle.Success,
-      cb: () => startMovie(pickedMovie),
+      cb: i => startMovie(pickedMovie, { hostId: i.user.id }),
     }],
     cleanupCb: async () => {
       await interaction.editReply({
@@ -715,6 +916,151 @@ async function handlePick(interaction: AnyInteraction): Promise<IntentionalAny>
   });
 }
 
+async function handleRate(interaction: AnyInteraction): Promise<IntentionalAny> {
+  const inputs = await parseInput({
+    slashCommandData: commandBuilder,
+    interaction,
+  }) as {
+    rating: number,
+    title?: string,
+    imdb_id?: string,
+  };
+
+  const movie = await getMovie({
+    title: inputs.title,
+    imdbId: inputs.imdb_id,
+    guildId: interaction.guildId!,
+  });
+  await rateMovie(movie, interaction.user.id, inputs.rating);
+  await movie.reload({ include: [includeRatings] });
+  await interaction.editReply(`You rated **${movie.title}** ${inputs.rating}/${MAX_MOVIE_RATING}. Server rating: ${getGuildRatingLabel(movie)}`);
+}
+
+async function handleHistory(interaction: AnyInteraction): Promise<IntentionalAny> {
+  const inputs = await parseInput({
+    slashCommandData: commandBuilder,
+    interaction,
+  }) as {
+    title?: string,
+    imdb_id?: string,
+  };
+  const movie = inputs.title || inputs.imdb_id
+    ? await getMovie({
+      title: inputs.title,
+      imdbId: inputs.imdb_id,
+      guildId: interaction.guildId!,
+    })
+    : null;
+
+  await replyWithPages({
+    interaction,
+    getPage: async pageIdx => {
+      const offset = pageIdx * MOVIE_HISTORY_PAGE_SIZE;
+      const { rows: watches, count: total } = await MovieWatches.findAndCountAll({
+        where: {
+          guild_id: interaction.guildId!,
+          ...(movie ? { movie_id: movie.id } : {}),
+        },
+        include: {
+          model: Movies,
+          as: 'movie',
+          attributes: ['title', 'year'],
+        },
+        order: [['watched_at', 'DESC NULLS LAST']],
+        offset,
+        limit: MOVIE_HISTORY_PAGE_SIZE,
+      });
+      const embed = new EmbedBuilder({
+        author: {
+          name: movie ? `🍿 Watch History: ${movie.title}` : '🍿 Watch History',
+        },
+        description: watches.length
+          ? watches.map(watch => [
+            `**${watch.movie ? `${watch.movie.title}${watch.movie.year ? ` (${watch.movie.year})` : ''}` : 'Deleted movie'}**`,
+            watch.watched_at != null ? ` <t:${watch.watched_at}:D>` : ' (unknown date)',
+            watch.thread_id ? ` in <#${watch.thread_id}>` : '',
+            watch.attendee_ids.length ? `\nWatched by ${watch.attendee_ids.map(userId => `<@${userId}>`).join(' ')}` : '',
+          ].join('')).join('\n\n')
+          : 'Nothing has been watched yet.',
+      });
+      return {
+        data: {
+          embeds: [embed],
+        },
+        numPages: Math.ceil(total / MOVIE_HISTORY_PAGE_SIZE),
+      };
+    },
+  });
+}
+
+async function handleImport(interaction: AnyInteraction): Promise<IntentionalAny> {
+  const inputs = await parseInput({
+    slashCommandData: commandBuilder,
+    interaction,
+  }) as {
+    file: Attachment,
+    watched?: boolean,
+  };
+  const { file, watched: markWatched } = inputs;
+  if (file.size > MAX_MOVIE_IMPORT_FILE_SIZE) {
+    return interaction.editReply(`The file must be smaller than ${MAX_MOVIE_IMPORT_FILE_SIZE / 1024} KB.`);
+  }
+  const res = await axios.get(file.url, { responseType: 'text' });
+  const rows = parseMovieFile(String(res.data));
+  if (!rows.length) return interaction.editReply('The file does not contain any movies.');
+
+  const getProgressMessage = (numImported: number) => filterOutFalsy([
+    `Importing ${rows.length} movies... (${numImported}/${rows.length})`,
+    isMovieApiSetUp() && 'Movies are looked up within the rate limits, so this can take a while.',
+  ]).join('\n');
+  await interaction.editReply(getProgressMessage(0));
+  const throttledProgressUpdate = throttle((numImported: number) => {
+    interaction.editReply(getProgressMessage(numImported)).catch(error);
+  }, 5000);
+
+  const results = await importMovies({
+    guildId: interaction.guildId!,
+    userId: interaction.user.id,
+    rows,
+    markWatched,
+    onProgress: throttledProgressUpdate,
+  });
+  throttledProgressUpdate.cancel();
+  const getCount = (status: MovieImportStatus) => results.filter(result => result.status === status).length;
+  const numCreated = getCount(MovieImportStatus.CREATED);
+  const numSkipped = getCount(MovieImportStatus.SKIPPED);
+  const numFailed = getCount(MovieImportStatus.FAILED);
+  const content = filterOutFalsy([
+    `Imported ${numCreated} movies.`,
+    numSkipped > 0 && `${numSkipped} row(s) were skipped because they are duplicates or not movies.`,
+    numFailed > 0 && `${numFailed} row(s) failed.`,
+    (numSkipped > 0 || numFailed > 0) && 'See the attached report for the details of each row.',
+  ]).join('\n');
+  const files = [new AttachmentBuilder(Buffer.from(getImportReportCsv(results)), { name: 'movie-import-report.csv' })];
+  // Long imports can outlive the interaction token, which expires after 15 minutes
+  return interaction.editReply({ content, files }).catch(async () => {
+    await interaction.channel?.send({ content: `<@${interaction.user.id}> ${content}`, files });
+  });
+}
+
+async function handleExport(interaction: AnyInteraction): Promise<IntentionalAny> {
+  const inputs = await parseInput({
+    slashCommandData: commandBuilder,
+    interaction,
+  }) as {
+    format?: MovieFileFormat,
+  };
+  const movies = await exportMovies(interaction.guildId!);
+  if (!movies.length) return interaction.editReply('There are no movies to export.');
+  const file = inputs.format === MovieFileFormat.JSON
+    ? new AttachmentBuilder(Buffer.from(JSON.stringify(movies, null, 2)), { name: 'movies.json' })
+    : new AttachmentBuilder(Buffer.from(getMoviesCsv(movies)), { name: 'movies.csv' });
+  return interaction.editReply({
+    content: `Exported ${movies.length} movies.`,
+    files: [file],
+  });
+}
+
 async function handleDelete(interaction: AnyInteraction): Promise<IntentionalAny> {
   const inputs = await parseInput({
     slashCommandData: commandBuilder,
@@ -749,7 +1095,7 @@ const run: CommandOrModalRunMethod = async interaction => {
   }
 
   const subcommand = getSubcommand(interaction);
-  const isEphemeral = Boolean(subcommand && ['edit', 'delete'].includes(subcommand));
+  const isEphemeral = Boolean(subcommand && ['edit', 'delete', 'rate'].includes(subcommand));
   await interaction.deferReply({ ephemeral: isEphemeral });
 
   switch (subcommand) {
@@ -773,6 +1119,22 @@ const run: CommandOrModalRunMethod = async interaction => {
       await handlePick(interaction);
       break;
     }
+    case 'rate': {
+      await handleRate(interaction);
+      break;
+    }
+    case 'history': {
+      await handleHistory(interaction);
+      break;
+    }
+    case 'import': {
+      await handleImport(interaction);
+      break;
+    }
+    case 'export': {
+      await handleExport(interaction);
+      break;
+    }
     default: {
       await interaction.editReply('What??');
       break;
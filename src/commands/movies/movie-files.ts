@@ -0,0 +1,329 @@
+import type { CreationAttributes } from 'sequelize';
+
+import pLimit from 'p-limit';
+import { CONCURRENCY_LIMIT, MAX_MOVIE_IMPORT_LENGTH } from 'src/constants';
+import { Movie, Movies } from 'src/models/movies';
+import { MovieNotes } from 'src/models/movie-notes';
+import { MovieLists } from 'src/models/movie-lists';
+import { getErrorMsg } from 'src/discord-utils';
+import { getCsv, parseCsv } from 'src/utils';
+import { fetchMovieAttributes, isMovieApiSetUp, rateLimiter } from './index';
+import { setWatched } from './watches';
+
+export enum MovieFileFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+export interface ExportedMovie {
+  title: string,
+  year: number | null,
+  imdbId: string | null,
+  isFavorite: boolean,
+  wasWatched: boolean,
+  length: number | null,
+  genre: string | null,
+  director: string | null,
+  actors: string | null,
+  language: string | null,
+  maturityRating: string | null,
+  imdbRating: number | null,
+  metacriticRating: number | null,
+  rottenTomatoesRating: number | null,
+  notes: { authorId: string, note: string }[],
+  lists: { id: string, customId: string | null, name: string }[],
+}
+
+export interface MovieImportRow {
+  // Starts at 1, and does not count the header of CSV files
+  row: number,
+  title: string | null,
+  year: number | null,
+  imdbId: string | null,
+  wasWatched: boolean,
+  // Set if the row should be skipped without being looked up
+  skipReason?: string,
+}
+
+export enum MovieImportStatus {
+  CREATED = 'created',
+  SKIPPED = 'skipped',
+  FAILED = 'failed',
+}
+
+export interface MovieImportResult {
+  row: number,
+  title: string | null,
+  imdbId: string | null,
+  status: MovieImportStatus,
+  message: string | null,
+}
+
+const IMDB_ID_REGEX = /^tt\d+$/;
+
+// Header names are lowercased. These cover our own exports, Letterboxd exports and IMDb list exports.
+const TITLE_HEADERS = ['title', 'name'];
+const YEAR_HEADERS = ['year'];
+const IMDB_ID_HEADERS = ['imdb id', 'imdb_id', 'imdbid', 'const', 'tconst'];
+const WATCHED_HEADERS = ['watched', 'was_watched', 'waswatched'];
+// Letterboxd diary exports have the date that each movie was watched
+const WATCHED_DATE_HEADERS = ['watched date'];
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+// IMDb lists can have TV shows and episodes
+const TITLE_TYPE_HEADER = 'title type';
+
+const csvHeaders: [string, (movie: ExportedMovie) => string | number | boolean | null][] = [
+  ['Title', movie => movie.title],
+  ['Year', movie => movie.year],
+  ['IMDb ID', movie => movie.imdbId],
+  ['Favorite', movie => movie.isFavorite],
+  ['Watched', movie => movie.wasWatched],
+  ['Length', movie => movie.length],
+  ['Genre', movie => movie.genre],
+  ['Director', movie => movie.director],
+  ['Actors', movie => movie.actors],
+  ['Language', movie => movie.language],
+  ['Maturity Rating', movie => movie.maturityRating],
+  ['IMDb Rating', movie => movie.imdbRating],
+  ['Metacritic Rating', movie => movie.metacriticRating],
+  ['Rotten Tomatoes Rating', movie => movie.rottenTomatoesRating],
+  ['Lists', movie => movie.lists.map(list => list.name).join('; ')],
+  ['Notes', movie => movie.notes.map(({ authorId, note }) => `${authorId}: ${note}`).join('\n')],
+];
+
+export async function exportMovies(guildId: string): Promise<ExportedMovie[]> {
+  const movies = await Movies.findAll({
+    where: {
+      guild_id: guildId,
+    },
+    order: [['title', 'ASC']],
+    include: [
+      {
+        model: MovieNotes,
+        as: 'notes',
+        attributes: ['author_id', 'note'],
+      },
+      {
+        model: MovieLists,
+        as: 'lists',
+        attributes: ['id', 'custom_id', 'name'],
+        through: {
+          attributes: [],
+        },
+      },
+    ],
+  });
+  return movies.map(movie => ({
+    title: movie.title,
+    year: movie.year,
+    imdbId: movie.imdb_id,
+    isFavorite: movie.is_favorite,
+    wasWatched: movie.was_watched,
+    length: movie.length,
+    genre: movie.genre,
+    director: movie.director,
+    actors: movie.actors,
+    language: movie.language,
+    maturityRating: movie.rating,
+    imdbRating: movie.imdb_rating,
+    metacriticRating: movie.metacritic_rating,
+    rottenTomatoesRating: movie.rotten_tomatoes_rating,
+    notes: (movie.notes ?? []).map(note => ({ authorId: note.author_id, note: note.note })),
+    lists: (movie.lists ?? []).map(list => ({ id: list.id, customId: list.custom_id, name: list.name })),
+  }));
+}
+
+/**
+ * Lists are separated by semicolons and notes are on separate lines, since they can't be nested in CSV files.
+ */
+export function getMoviesCsv(movies: ExportedMovie[]): string {
+  return getCsv([
+    csvHeaders.map(([header]) => header),
+    ...movies.map(movie => csvHeaders.map(([, getValue]) => getValue(movie))),
+  ]);
+}
+
+function parseYear(value: unknown): number | null {
+  const year = parseInt(String(value), 10);
+  return Number.isNaN(year) ? null : year;
+}
+
+function parseImdbId(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const imdbId = value.trim().toLowerCase();
+  return IMDB_ID_REGEX.test(imdbId) ? imdbId : null;
+}
+
+function parseMovieCsv(content: string): MovieImportRow[] {
+  const [headerRow, ...rows] = parseCsv(content);
+  if (!headerRow) return [];
+  const headers = headerRow.map(header => header.trim().toLowerCase());
+  const findColumn = (names: string[]) => headers.findIndex(header => names.includes(header));
+  const titleIdx = findColumn(TITLE_HEADERS);
+  const yearIdx = findColumn(YEAR_HEADERS);
+  const imdbIdIdx = findColumn(IMDB_ID_HEADERS);
+  const watchedIdx = findColumn(WATCHED_HEADERS);
+  const watchedDateIdx = findColumn(WATCHED_DATE_HEADERS);
+  const titleTypeIdx = headers.indexOf(TITLE_TYPE_HEADER);
+  if (titleIdx === -1 && imdbIdIdx === -1) {
+    throw new Error('The file must have a column for the title or the IMDb ID.');
+  }
+  return rows.map((values, idx) => {
+    const titleType = titleTypeIdx !== -1 ? values[titleTypeIdx]?.trim().toLowerCase() : null;
+    return {
+      row: idx + 1,
+      title: titleIdx !== -1 ? values[titleIdx]?.trim() || null : null,
+      year: yearIdx !== -1 ? parseYear(values[yearIdx]) : null,
+      imdbId: imdbIdIdx !== -1 ? parseImdbId(values[imdbIdIdx]) : null,
+      wasWatched: (watchedIdx !== -1 && TRUE_VALUES.includes(values[watchedIdx]?.trim().toLowerCase()))
+        || (watchedDateIdx !== -1 && Boolean(values[watchedDateIdx]?.trim())),
+      skipReason: titleType && !titleType.includes('movie') ? `Not a movie (${titleType})` : undefined,
+    };
+  });
+}
+
+function parseMovieJson(content: string): MovieImportRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(data)) throw new Error('The JSON file must contain an array of movies.');
+  return data.map((entry, idx) => {
+    const movie: Partial<ExportedMovie> = entry && typeof entry === 'object' ? entry : {};
+    return {
+      row: idx + 1,
+      title: typeof movie.title === 'string' ? movie.title.trim() || null : null,
+      year: movie.year != null ? parseYear(movie.year) : null,
+      imdbId: parseImdbId(movie.imdbId),
+      wasWatched: movie.wasWatched === true,
+    };
+  });
+}
+
+/**
+ * Accepts our own CSV and JSON exports, Letterboxd exports (e.g. watched.csv), and IMDb list and ratings exports.
+ */
+export function parseMovieFile(content: string): MovieImportRow[] {
+  const trimmedContent = content.trim();
+  const rows = trimmedContent.startsWith('[') ? parseMovieJson(trimmedContent) : parseMovieCsv(trimmedContent);
+  if (rows.length > MAX_MOVIE_IMPORT_LENGTH) {
+    throw new Error(`Movies can only be imported with up to ${MAX_MOVIE_IMPORT_LENGTH} rows.`);
+  }
+  return rows;
+}
+
+/**
+ * Movies are deduped by IMDb ID, both against the movies that already exist and within the file.
+ * Lookups with the OMDb API wait for the rate limits instead of failing, so large imports can take hours.
+ * @param onProgress Called after each row is imported
+ */
+export async function importMovies({
+  guildId,
+  userId,
+  rows,
+  markWatched = false,
+  onProgress,
+}: {
+  guildId: string,
+  userId: string,
+  rows: MovieImportRow[],
+  // For files that only have watched movies, but don't say so (e.g. watched.csv from Letterboxd)
+  markWatched?: boolean,
+  onProgress?: (numImported: number) => void,
+}): Promise<MovieImportResult[]> {
+  const existingMovies = await Movies.findAll({
+    where: {
+      guild_id: guildId,
+    },
+    attributes: ['title', 'imdb_id'],
+  });
+  // These are claimed synchronously before creating a movie, so concurrent rows can't create duplicates
+  const claimedImdbIds = new Set(existingMovies.map(movie => movie.imdb_id?.toLowerCase()).filter(Boolean));
+  // Titles are compared case-insensitively when looking up movies
+  const claimedTitles = new Set(existingMovies.map(movie => movie.title.toLowerCase()));
+  const claimImdbId = (imdbId: string) => {
+    if (claimedImdbIds.has(imdbId)) throw new Error('Already exists, or is a duplicate in the file');
+    claimedImdbIds.add(imdbId);
+  };
+  // Titles are unique as well
+  const claimTitle = (title: string) => {
+    const lowerCaseTitle = title.toLowerCase();
+    if (claimedTitles.has(lowerCaseTitle)) throw new Error('A movie with the same title already exists');
+    claimedTitles.add(lowerCaseTitle);
+  };
+
+  let numImported = 0;
+  const limit = pLimit(CONCURRENCY_LIMIT);
+  return Promise.all(rows.map(row => limit(async (): Promise<MovieImportResult> => {
+    const getResult = (status: MovieImportStatus, message: string | null, attributes?: CreationAttributes<Movie>) => {
+      numImported += 1;
+      if (onProgress) onProgress(numImported);
+      return {
+        row: row.row,
+        title: attributes?.title ?? row.title,
+        imdbId: attributes?.imdb_id ?? row.imdbId,
+        status,
+        message,
+      };
+    };
+    if (row.skipReason) return getResult(MovieImportStatus.SKIPPED, row.skipReason);
+    if (!row.title && !row.imdbId) return getResult(MovieImportStatus.SKIPPED, 'No title or IMDb ID');
+
+    try {
+      // Checking before the lookup saves requests to the OMDb API
+      if (row.imdbId) claimImdbId(row.imdbId);
+    } catch (err) {
+      return getResult(MovieImportStatus.SKIPPED, getErrorMsg(err));
+    }
+    let attributes: CreationAttributes<Movie>;
+    try {
+      if (isMovieApiSetUp()) {
+        await rateLimiter.wait({ userId, guildId });
+        attributes = await fetchMovieAttributes({
+          guildId,
+          imdbId: row.imdbId,
+          title: row.title,
+          year: row.year,
+        });
+      } else if (row.title) {
+        attributes = {
+          guild_id: guildId,
+          title: row.title,
+          year: row.year,
+          imdb_id: row.imdbId,
+          is_favorite: false,
+          was_watched: false,
+        };
+      } else {
+        throw new Error('A title is required since movies cannot be looked up by IMDb ID');
+      }
+    } catch (err) {
+      return getResult(MovieImportStatus.FAILED, getErrorMsg(err));
+    }
+
+    try {
+      // The IMDb ID is only known after the lookup if the row only had a title
+      const imdbId = attributes.imdb_id?.toLowerCase();
+      if (imdbId && imdbId !== row.imdbId) claimImdbId(imdbId);
+      claimTitle(attributes.title);
+    } catch (err) {
+      return getResult(MovieImportStatus.SKIPPED, getErrorMsg(err), attributes);
+    }
+    try {
+      const movie = await Movies.create(attributes);
+      if (row.wasWatched || markWatched) await setWatched(movie, true);
+      return getResult(MovieImportStatus.CREATED, null, attributes);
+    } catch (err) {
+      return getResult(MovieImportStatus.FAILED, getErrorMsg(err), attributes);
+    }
+  })));
+}
+
+export function getImportReportCsv(results: MovieImportResult[]): string {
+  return getCsv([
+    ['Row', 'Title', 'IMDb ID', 'Status', 'Message'],
+    ...results.map(result => [result.row, result.title, result.imdbId, result.status, result.message]),
+  ]);
+}
@@ -8,6 +8,8 @@ import { MovieLists, MovieList } from 'src/models/movie-lists';
 import { Movies } from 'src/models/movies';
 import { MovieListsJunction } from 'src/models/movie-lists-junction';
 import { createMovie, getMovie, getMovieEmbeds, getSetNoteButtonConfig } from './index';
+import { includeRatings } from './ratings';
+import { includeWatches } from './watches';
 
 const commandBuilder = new SlashCommandBuilder();
 commandBuilder
@@ -294,6 +296,8 @@ async function handleShow(interaction: AnyInteraction) {
         include: {
           model: Movies,
           as: 'movies',
+          // For the server rating and the last watched date in the embeds
+          include: [includeRatings, includeWatches],
         },
         order: [
           [{ model: Movies, as: 'movies' }, MovieListsJunction, 'order', 'ASC'],
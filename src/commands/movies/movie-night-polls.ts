@@ -0,0 +1,390 @@
+import type { AnyInteraction, EmbedFields } from 'src/types';
+import type { CollectedMessageInteraction, InteractionCollector, Message, TextBasedChannel } from 'discord.js';
+import type { Movie } from 'src/models/movies';
+
+import { ButtonStyle, EmbedBuilder } from 'discord.js';
+import chunk from 'lodash.chunk';
+import { client } from 'src/client';
+import { Colors, MAX_MOVIE_NIGHT_POLL_CANDIDATES, MAX_MOVIE_NIGHT_POLL_DURATION } from 'src/constants';
+import { Movies } from 'src/models/movies';
+import { MovieNightPolls, MovieNightPoll, VotingMethod } from 'src/models/movie-night-polls';
+import { MovieNightBallots } from 'src/models/movie-night-ballots';
+import { MovieNights } from 'src/models/movie-nights';
+import { getButtonsRow, getChannel, getErrorMsg, isText, listenForButtons } from 'src/discord-utils';
+import { error } from 'src/logging';
+import { filterOutFalsy, humanizeDuration, shuffleArray } from 'src/utils';
+import { clearPollDeadline, setPollDeadline } from 'src/jobs/movie-night-polls';
+import { FilterInputs, getFilteredMovies, startMovie } from './index';
+import { PollResults, tallyVotes } from './voting';
+
+const CANDIDATE_BUTTON_PREFIX = 'candidate-';
+const CLEAR_BALLOT_BUTTON_ID = 'clear-ballot';
+const CLOSE_POLL_BUTTON_ID = 'close-poll';
+const MAX_BUTTONS_PER_ROW = 5;
+const MAX_BUTTON_LABEL_LENGTH = 80;
+
+const instructions: Record<VotingMethod, string> = {
+  [VotingMethod.RANKED]: 'Click the movies in order of preference. Click a movie again to remove it from your ranking.',
+  [VotingMethod.APPROVAL]: 'Click every movie that you would be happy to watch. Click a movie again to remove your vote for it.',
+};
+
+/**
+ * Movies that were deleted since the poll was created are left out.
+ */
+export async function getPollCandidates(poll: MovieNightPoll): Promise<Movie[]> {
+  const movies = await Movies.findAll({
+    where: {
+      id: poll.candidate_ids,
+      guild_id: poll.guild_id,
+    },
+  });
+  return filterOutFalsy(poll.candidate_ids.map(id => movies.find(movie => movie.id === id)));
+}
+
+/**
+ * Movies are taken in the order of the list if a list is provided, and randomly otherwise.
+ */
+export async function pickCandidates({
+  guildId,
+  filters,
+  numCandidates,
+  ignoreListOrder = false,
+}: {
+  guildId: string,
+  filters: FilterInputs,
+  numCandidates: number,
+  ignoreListOrder?: boolean,
+}): Promise<Movie[]> {
+  const movies = await getFilteredMovies(filters, guildId);
+  if (!filters.list || ignoreListOrder) shuffleArray(movies);
+  return movies.slice(0, numCandidates);
+}
+
+export function getMovieLabel(movie: Movie): string {
+  return movie.year ? `${movie.title} (${movie.year})` : movie.title;
+}
+
+function getCandidateList(candidates: Movie[], ids: string[]): string {
+  return ids.map((id, idx) => {
+    const movie = candidates.find(candidate => candidate.id === id);
+    return `${idx + 1}. ${movie ? getMovieLabel(movie) : 'Deleted movie'}`;
+  }).join('\n');
+}
+
+function getResultsFields(results: PollResults, candidates: Movie[]): EmbedFields {
+  const getTitle = (id: string) => candidates.find(movie => movie.id === id)?.title ?? 'Deleted movie';
+  const winner = results.winnerId ? getTitle(results.winnerId) : null;
+  const fields: EmbedFields = [{
+    name: 'Winner',
+    value: [
+      winner ? `**${winner}**` : 'Nobody voted.',
+      results.tiedIds.length ? `Won a random tie-break between ${results.tiedIds.map(getTitle).join(', ')}.` : null,
+    ].filter(Boolean).join('\n'),
+    inline: false,
+  }];
+  results.rounds.forEach((counts, idx) => {
+    fields.push({
+      name: results.rounds.length > 1 ? `Round ${idx + 1}` : 'Votes',
+      value: Object.entries(counts)
+        .sort(([, a], [, b]) => b - a)
+        .map(([id, count]) => `${getTitle(id)}: ${count}`)
+        .join('\n'),
+      inline: true,
+    });
+  });
+  return fields;
+}
+
+async function getPollMessageData(poll: MovieNightPoll) {
+  const candidates = await getPollCandidates(poll);
+  const numBallots = await MovieNightBallots.count({
+    where: {
+      poll_id: poll.id,
+    },
+  });
+  const embed = new EmbedBuilder({
+    title: '🎬 Movie Night Vote',
+    description: poll.results
+      ? getCandidateList(candidates, poll.candidate_ids)
+      : `${instructions[poll.method]}\n\n${getCandidateList(candidates, poll.candidate_ids)}`,
+    fields: poll.results ? getResultsFields(poll.results, candidates) : [
+      {
+        name: 'Closes',
+        value: `<t:${poll.closes_at}:R>`,
+        inline: true,
+      },
+      {
+        name: 'Votes',
+        value: String(numBallots),
+        inline: true,
+      },
+    ],
+    footer: {
+      text: poll.method === VotingMethod.RANKED ? 'Ranked-choice voting' : 'Approval voting',
+    },
+  }).setColor(poll.results ? Colors.SUCCESS : Colors.WARN);
+  if (poll.results) return { embeds: [embed], components: [] };
+
+  const candidateButtons = poll.candidate_ids.map((id, idx) => ({
+    id: `${CANDIDATE_BUTTON_PREFIX}${id}`,
+    label: `${idx + 1}. ${candidates.find(movie => movie.id === id)?.title ?? 'Deleted movie'}`.slice(0, MAX_BUTTON_LABEL_LENGTH),
+    style: ButtonStyle.Primary,
+  }));
+  return {
+    embeds: [embed],
+    components: [
+      ...chunk(candidateButtons, MAX_BUTTONS_PER_ROW).map(getButtonsRow),
+      getButtonsRow([
+        {
+          id: CLEAR_BALLOT_BUTTON_ID,
+          label: 'Clear My Vote',
+          style: ButtonStyle.Secondary,
+        },
+        {
+          id: CLOSE_POLL_BUTTON_ID,
+          label: 'End Vote',
+          style: ButtonStyle.Danger,
+        },
+      ]),
+    ],
+  };
+}
+
+async function getPollMessage(poll: MovieNightPoll): Promise<Message | null> {
+  if (!poll.channel_id || !poll.message_id) return null;
+  const channel = await getChannel(poll.channel_id);
+  if (!channel || !isText(channel)) return null;
+  return channel.messages.fetch(poll.message_id).catch(() => null);
+}
+
+async function updatePollMessage(poll: MovieNightPoll): Promise<void> {
+  const message = await getPollMessage(poll);
+  if (message) await message.edit(await getPollMessageData(poll));
+}
+
+/**
+ * The creator of the poll and members who can manage the server can end it early.
+ */
+export async function checkCanClosePoll(poll: MovieNightPoll, userId: string): Promise<void> {
+  if (poll.creator_id === userId) return;
+  const guild = await client.guilds.fetch(poll.guild_id).catch(() => null);
+  const member = await guild?.members.fetch(userId).catch(() => null);
+  if (!member?.permissions.has('ManageGuild')) {
+    throw new Error('Only the member who started the vote can end it early.');
+  }
+}
+
+/**
+ * @param choices IDs of the movies. For ranked-choice voting, these are in order of preference.
+ */
+export async function castBallot(poll: MovieNightPoll, userId: string, choices: string[]): Promise<MovieNightBallots> {
+  if (poll.closed_at != null) throw new Error('This vote has already ended.');
+  if (!choices.length) throw new Error('You must vote for at least one movie.');
+  if (new Set(choices).size !== choices.length || choices.some(id => !poll.candidate_ids.includes(id))) {
+    throw new Error('You can only vote for movies in the poll, and only once for each of them.');
+  }
+  const [ballot] = await MovieNightBallots.upsert({
+    poll_id: poll.id,
+    user_id: userId,
+    choices,
+  }, { returning: true });
+  await updatePollMessage(poll).catch(error);
+  return ballot;
+}
+
+export async function removeBallot(poll: MovieNightPoll, userId: string): Promise<void> {
+  if (poll.closed_at != null) throw new Error('This vote has already ended.');
+  await MovieNightBallots.destroy({
+    where: {
+      poll_id: poll.id,
+      user_id: userId,
+    },
+  });
+  await updatePollMessage(poll).catch(error);
+}
+
+const pollCollectors = new Map<string, InteractionCollector<CollectedMessageInteraction>>();
+
+function stopListeningForPollButtons(pollId: string): void {
+  pollCollectors.get(pollId)?.stop();
+  pollCollectors.delete(pollId);
+}
+
+// The poll may be closed by the deadline, by a member, and by a movie night starting at the same time
+const closingPolls = new Map<string, Promise<void>>();
+
+async function tallyPoll(poll: MovieNightPoll): Promise<void> {
+  const candidates = await getPollCandidates(poll);
+  const ballots = await poll.getBallots();
+  const results = tallyVotes(poll.method, candidates.map(movie => movie.id), ballots.map(ballot => ballot.choices));
+  // The poll may be closed by the deadline and by a member at the same time
+  const [numUpdated] = await MovieNightPolls.update({
+    closed_at: Math.floor(Date.now() / 1000),
+    winner_id: results.winnerId,
+    results,
+  }, {
+    where: {
+      id: poll.id,
+      closed_at: null,
+    },
+  });
+  await poll.reload();
+  if (!numUpdated) return;
+
+  await updatePollMessage(poll).catch(error);
+  const winner = candidates.find(movie => movie.id === results.winnerId);
+  if (!winner) return;
+  // Scheduled movie nights start the winner once it is time for the movie night instead
+  const movieNight = await MovieNights.findOne({
+    where: {
+      poll_id: poll.id,
+    },
+  });
+  if (movieNight) {
+    await movieNight.update({ movie_id: winner.id });
+  } else {
+    await startMovie(winner, { hostId: poll.creator_id });
+  }
+}
+
+/**
+ * Counts the ballots, and starts the winning movie.
+ * Resolves once the poll is closed, even if it was already being closed elsewhere.
+ */
+export function closePoll(poll: MovieNightPoll): Promise<void> {
+  clearPollDeadline(poll.id);
+  stopListeningForPollButtons(poll.id);
+  if (!closingPolls.has(poll.id)) {
+    closingPolls.set(poll.id, tallyPoll(poll).finally(() => closingPolls.delete(poll.id)));
+  }
+  return closingPolls.get(poll.id)!;
+}
+
+/**
+ * Deletes the poll without picking a winner.
+ */
+export async function cancelPoll(poll: MovieNightPoll): Promise<void> {
+  clearPollDeadline(poll.id);
+  stopListeningForPollButtons(poll.id);
+  const message = await getPollMessage(poll);
+  await poll.destroy();
+  if (message) await message.edit({ content: 'This vote was cancelled.', embeds: [], components: [] });
+}
+
+function getBallotDescription(poll: MovieNightPoll, candidates: Movie[], choices: string[]): string {
+  if (!choices.length) return 'You have not voted for anything.';
+  return poll.method === VotingMethod.RANKED
+    ? `Your ranking:\n${getCandidateList(candidates, choices)}`
+    : `You voted for:\n${choices.map(id => `- ${candidates.find(movie => movie.id === id)?.title ?? 'Deleted movie'}`).join('\n')}`;
+}
+
+async function handleCandidateClick(poll: MovieNightPoll, candidateId: string, interaction: AnyInteraction): Promise<void> {
+  const ballot = await MovieNightBallots.findOne({
+    where: {
+      poll_id: poll.id,
+      user_id: interaction.user.id,
+    },
+  });
+  const choices = ballot?.choices || [];
+  const newChoices = choices.includes(candidateId)
+    ? choices.filter(id => id !== candidateId)
+    : choices.concat(candidateId);
+  if (newChoices.length) {
+    await castBallot(poll, interaction.user.id, newChoices);
+  } else {
+    await removeBallot(poll, interaction.user.id);
+  }
+  await interaction.followUp({
+    ephemeral: true,
+    content: getBallotDescription(poll, await getPollCandidates(poll), newChoices),
+  });
+}
+
+export function listenForPollButtons(poll: MovieNightPoll, message: Message): void {
+  const withErrorReply = (handler: (i: AnyInteraction) => Promise<unknown>) => async (i: AnyInteraction) => {
+    try {
+      // Another instance of the poll may have been closed
+      await poll.reload();
+      await handler(i);
+    } catch (err) {
+      await i.followUp({
+        ephemeral: true,
+        content: getErrorMsg(err),
+      }).catch(error);
+    }
+  };
+  stopListeningForPollButtons(poll.id);
+  listenForButtons({
+    message,
+    handlers: {
+      ...poll.candidate_ids.reduce((acc, id) => {
+        acc[`${CANDIDATE_BUTTON_PREFIX}${id}`] = withErrorReply(i => handleCandidateClick(poll, id, i));
+        return acc;
+      }, {} as Parameters<typeof listenForButtons>[0]['handlers']),
+      [CLEAR_BALLOT_BUTTON_ID]: withErrorReply(async i => {
+        await removeBallot(poll, i.user.id);
+        await i.followUp({
+          ephemeral: true,
+          content: 'Your vote was cleared.',
+        });
+      }),
+      [CLOSE_POLL_BUTTON_ID]: withErrorReply(async i => {
+        await checkCanClosePoll(poll, i.user.id);
+        await closePoll(poll);
+      }),
+    },
+  }).then(collector => {
+    if (collector) pollCollectors.set(poll.id, collector);
+  }).catch(error);
+}
+
+export async function createPoll({
+  guildId,
+  creatorId,
+  method,
+  candidates,
+  durationMs,
+  channel,
+}: {
+  guildId: string,
+  creatorId: string,
+  method: VotingMethod,
+  candidates: Movie[],
+  durationMs: number,
+  // The channel to post the poll in, so that members can vote with buttons
+  channel?: TextBasedChannel,
+}): Promise<MovieNightPoll> {
+  if (candidates.length < 2) throw new Error('At least 2 movies are needed for a vote.');
+  if (candidates.length > MAX_MOVIE_NIGHT_POLL_CANDIDATES) {
+    throw new Error(`Votes can have up to ${MAX_MOVIE_NIGHT_POLL_CANDIDATES} movies.`);
+  }
+  if (durationMs > MAX_MOVIE_NIGHT_POLL_DURATION) {
+    throw new Error(`Votes can last up to ${humanizeDuration(MAX_MOVIE_NIGHT_POLL_DURATION)}.`);
+  }
+  const poll = await MovieNightPolls.create({
+    guild_id: guildId,
+    creator_id: creatorId,
+    method,
+    candidate_ids: candidates.map(movie => movie.id),
+    closes_at: Math.floor((Date.now() + durationMs) / 1000),
+  });
+  if (channel) {
+    const message = await channel.send(await getPollMessageData(poll));
+    await poll.update({
+      channel_id: channel.id,
+      message_id: message.id,
+    });
+    listenForPollButtons(poll, message);
+  }
+  setPollDeadline(poll);
+  return poll;
+}
+
+/**
+ * Re-attaches the buttons of a poll that was open before the bot restarted.
+ */
+export async function restorePoll(poll: MovieNightPoll): Promise<void> {
+  const message = await getPollMessage(poll);
+  if (message) listenForPollButtons(poll, message);
+  setPollDeadline(poll);
+}
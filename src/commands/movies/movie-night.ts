@@ -0,0 +1,291 @@
+import type { ChatInputCommandInteraction, VoiceBasedChannel } from 'discord.js';
+import type { Command } from 'src/types';
+
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { ChannelType, EmbedBuilder } from 'discord.js';
+import {
+  DEFAULT_MOVIE_NIGHT_POLL_CANDIDATES,
+  DEFAULT_MOVIE_NIGHT_POLL_DURATION,
+  MAX_MOVIE_NIGHT_POLL_CANDIDATES,
+} from 'src/constants';
+import {
+  getSubcommand,
+  interactionHasServerPermission,
+  isText,
+  parseInput,
+} from 'src/discord-utils';
+import { VotingMethod } from 'src/models/movie-night-polls';
+import { MovieNights } from 'src/models/movie-nights';
+import { Movies } from 'src/models/movies';
+import { filterOutFalsy, humanizeDuration, parseDelay, parseUpcomingTime } from 'src/utils';
+import { applyFilterOptions, FilterInputs, getMovie } from './index';
+import { createPoll, getMovieLabel, pickCandidates } from './movie-night-polls';
+import { cancelMovieNight, scheduleMovieNight } from './movie-nights';
+
+const commandBuilder = new SlashCommandBuilder();
+commandBuilder
+  .setName('movie-night')
+  .setDescription('Decide what to watch for movie night.');
+commandBuilder.addSubcommand(subcommand => {
+  subcommand
+    .setName('vote')
+    .setDescription('Start a vote between movies from a list or that match the filters.')
+    .addStringOption(option => option
+      .setName('method')
+      .setDescription('How votes are counted. Default: approval.')
+      .addChoices(
+        { name: 'Approval (vote for every movie you like)', value: VotingMethod.APPROVAL },
+        { name: 'Ranked-choice (rank the movies)', value: VotingMethod.RANKED },
+      )
+      .setRequired(false))
+    .addIntegerOption(option => option
+      .setName('candidates')
+      .setDescription(`Number of movies to vote between. Default: ${DEFAULT_MOVIE_NIGHT_POLL_CANDIDATES}.`)
+      .setMinValue(2)
+      .setMaxValue(MAX_MOVIE_NIGHT_POLL_CANDIDATES)
+      .setRequired(false))
+    .addStringOption(option => option
+      .setName('duration')
+      .setDescription('How long the vote is open for. Examples: "30m" or "1 day". Default: 1 hour.')
+      .setRequired(false))
+    .addBooleanOption(option => option
+      .setName('ignore_list_order')
+      .setDescription('Pick random movies from the list instead of the first ones')
+      .setRequired(false));
+  return applyFilterOptions(subcommand);
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand
+    .setName('schedule')
+    .setDescription('Schedule a movie night that members can RSVP to.')
+    .addStringOption(option => option
+      .setName('time')
+      .setDescription('When the movie night starts. Examples: "Friday at 8pm" or "2 days".')
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('time_zone')
+      .setDescription('Time zone name abbreviation. Examples: "America/New_York" or "EST". Defaults to America/Toronto.')
+      .setRequired(false))
+    .addStringOption(option => option
+      .setName('title')
+      .setDescription('Title of the movie to watch.')
+      .setRequired(false))
+    .addStringOption(option => option
+      .setName('imdb_id')
+      .setDescription('IMDb ID of the movie to watch.')
+      .setRequired(false))
+    .addBooleanOption(option => option
+      .setName('vote')
+      .setDescription('Decide the movie with a vote that ends when the movie night starts.')
+      .setRequired(false))
+    .addStringOption(option => option
+      .setName('list')
+      .setDescription('The list to vote between movies from.')
+      .setRequired(false))
+    .addStringOption(option => option
+      .setName('method')
+      .setDescription('How votes are counted. Default: approval.')
+      .addChoices(
+        { name: 'Approval (vote for every movie you like)', value: VotingMethod.APPROVAL },
+        { name: 'Ranked-choice (rank the movies)', value: VotingMethod.RANKED },
+      )
+      .setRequired(false))
+    .addChannelOption(option => option
+      .setName('voice_channel')
+      .setDescription('The voice channel where the movie is watched.')
+      .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice)
+      .setRequired(false));
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand
+    .setName('scheduled')
+    .setDescription('List the upcoming movie nights.');
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand
+    .setName('cancel')
+    .setDescription('Cancel a scheduled movie night by its ID.')
+    .addStringOption(option => option
+      .setName('id')
+      .setDescription('The ID of the movie night (use "/movie-night scheduled" to find it).')
+      .setRequired(true));
+  return subcommand;
+});
+
+async function handleVote(interaction: ChatInputCommandInteraction) {
+  const {
+    method = VotingMethod.APPROVAL,
+    candidates: numCandidates = DEFAULT_MOVIE_NIGHT_POLL_CANDIDATES,
+    duration,
+    ignore_list_order: ignoreListOrder,
+    ...filters
+  } = await parseInput({ slashCommandData: commandBuilder, interaction }) as FilterInputs & {
+    method?: VotingMethod,
+    candidates?: number,
+    duration?: string,
+    ignore_list_order?: boolean,
+  };
+  let durationMs = DEFAULT_MOVIE_NIGHT_POLL_DURATION;
+  if (duration) {
+    try {
+      durationMs = parseDelay(duration);
+    } catch (err) {
+      throw new Error('Could not parse the duration!');
+    }
+  }
+  if (!interaction.channel || !isText(interaction.channel)) throw new Error('Votes can only be started in text channels.');
+
+  const candidates = await pickCandidates({
+    guildId: interaction.guildId!,
+    filters,
+    numCandidates,
+    ignoreListOrder,
+  });
+  if (candidates.length < 2) {
+    return interaction.editReply('Could not find at least 2 movies that match your filters.');
+  }
+  await createPoll({
+    guildId: interaction.guildId!,
+    creatorId: interaction.user.id,
+    method,
+    candidates,
+    durationMs,
+    channel: interaction.channel,
+  });
+  return interaction.editReply(`Started a vote between ${candidates.length} movies, which ends in ${humanizeDuration(durationMs)}.`);
+}
+
+async function handleSchedule(interaction: ChatInputCommandInteraction) {
+  const {
+    time: timeArg,
+    time_zone: timeZone,
+    title,
+    imdb_id: imdbId,
+    vote,
+    list,
+    method = VotingMethod.APPROVAL,
+    voice_channel: voiceChannel,
+  } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    time: string,
+    time_zone?: string,
+    title?: string,
+    imdb_id?: string,
+    vote?: boolean,
+    list?: string,
+    method?: VotingMethod,
+    voice_channel?: VoiceBasedChannel,
+  };
+  if (vote && (title || imdbId)) {
+    return interaction.editReply('You cannot pick a movie and start a vote at the same time.');
+  }
+  if (!interaction.channel || !isText(interaction.channel)) throw new Error('Movie nights can only be scheduled in text channels.');
+  const time = parseUpcomingTime(timeArg, timeZone);
+
+  const movie = title || imdbId
+    ? await getMovie({ title, imdbId, guildId: interaction.guildId! })
+    : null;
+  const candidates = vote
+    ? await pickCandidates({
+      guildId: interaction.guildId!,
+      filters: { list },
+      numCandidates: DEFAULT_MOVIE_NIGHT_POLL_CANDIDATES,
+    })
+    : [];
+  if (vote && candidates.length < 2) {
+    return interaction.editReply('Could not find at least 2 movies to vote between.');
+  }
+
+  await scheduleMovieNight({
+    guildId: interaction.guildId!,
+    creatorId: interaction.user.id,
+    channel: interaction.channel,
+    time,
+    movie,
+    vote: vote ? { method, candidates } : null,
+    voiceChannel,
+  });
+  return interaction.editReply(`Scheduled a movie night for <t:${time}:F>.`);
+}
+
+async function handleScheduled(interaction: ChatInputCommandInteraction) {
+  const movieNights = await MovieNights.findAll({
+    where: {
+      guild_id: interaction.guildId!,
+      started_at: null,
+    },
+    order: [['time', 'ASC']],
+  });
+  const movies = await Movies.findAll({
+    where: {
+      id: filterOutFalsy(movieNights.map(movieNight => movieNight.movie_id)),
+      guild_id: interaction.guildId!,
+    },
+  });
+  return interaction.editReply({
+    embeds: [new EmbedBuilder({
+      title: 'Scheduled Movie Nights',
+      description: movieNights.map(movieNight => {
+        const movie = movies.find(m => m.id === movieNight.movie_id);
+        return [
+          `**<t:${movieNight.time}:F>** (<t:${movieNight.time}:R>)`,
+          movie ? `Watching ${getMovieLabel(movie)}` : null,
+          `ID: ${movieNight.id}`,
+        ].filter(Boolean).join('\n');
+      }).join('\n\n') || 'There are no scheduled movie nights.',
+    })],
+  });
+}
+
+async function handleCancel(interaction: ChatInputCommandInteraction) {
+  const { id } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+  };
+  const movieNight = await MovieNights.findOne({
+    where: {
+      id,
+      guild_id: interaction.guildId!,
+      started_at: null,
+    },
+  // id is an arbitrary string, and may not conform to the syntax for the id
+  }).catch(() => null);
+  if (!movieNight) return interaction.editReply('Movie night does not exist!');
+  if (movieNight.creator_id !== interaction.user.id && !interactionHasServerPermission({ interaction, permissions: 'ManageGuild' })) {
+    return interaction.editReply('You cannot cancel a movie night that you did not schedule.');
+  }
+  await cancelMovieNight(movieNight);
+  return interaction.editReply('Cancelled the movie night.');
+}
+
+const MovieNightCommand: Command = {
+  guildOnly: true,
+  slashCommandData: commandBuilder,
+  runCommand: async interaction => {
+    await interaction.deferReply({ ephemeral: true });
+    const subcommand = getSubcommand(interaction);
+    switch (subcommand) {
+      case 'vote': {
+        await handleVote(interaction);
+        break;
+      }
+      case 'schedule': {
+        await handleSchedule(interaction);
+        break;
+      }
+      case 'scheduled': {
+        await handleScheduled(interaction);
+        break;
+      }
+      case 'cancel': {
+        await handleCancel(interaction);
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  },
+};
+
+export default MovieNightCommand;
@@ -0,0 +1,383 @@
+import type { AnyInteraction } from 'src/types';
+import type { Message, TextBasedChannel, VoiceBasedChannel } from 'discord.js';
+import type { Movie } from 'src/models/movies';
+
+import {
+  ButtonStyle,
+  ChannelType,
+  EmbedBuilder,
+  GuildScheduledEventEntityType,
+  GuildScheduledEventPrivacyLevel,
+  GuildScheduledEventStatus,
+} from 'discord.js';
+import { client } from 'src/client';
+import { Colors, DEFAULT_MOVIE_NIGHT_LENGTH, MAX_MOVIE_NIGHT_POLL_DURATION } from 'src/constants';
+import { Movies } from 'src/models/movies';
+import { MovieNights, MovieNight } from 'src/models/movie-nights';
+import { MovieNightRsvps, RsvpStatus } from 'src/models/movie-night-rsvps';
+import { MovieNightConfig } from 'src/models/movie-night-config';
+import { MovieNightPolls, VotingMethod } from 'src/models/movie-night-polls';
+import { getButtonsRow, getChannel, getErrorMsg, isText, listenForButtons } from 'src/discord-utils';
+import { error } from 'src/logging';
+import { humanizeDuration } from 'src/utils';
+import { clearMovieNightJobs, setMovieNightEndJob, setMovieNightJobs } from 'src/jobs/movie-nights';
+import { openMovieNightThread, startMovie } from './index';
+import { cancelPoll, closePoll, createPoll, getMovieLabel } from './movie-night-polls';
+
+const RSVP_BUTTON_PREFIX = 'rsvp-';
+
+const rsvpLabels: Record<RsvpStatus, string> = {
+  [RsvpStatus.GOING]: 'Going',
+  [RsvpStatus.MAYBE]: 'Maybe',
+  [RsvpStatus.NOT_GOING]: 'Can\'t Go',
+};
+
+const rsvpStyles: Record<RsvpStatus, ButtonStyle> = {
+  [RsvpStatus.GOING]: ButtonStyle.Success,
+  [RsvpStatus.MAYBE]: ButtonStyle.Secondary,
+  [RsvpStatus.NOT_GOING]: ButtonStyle.Danger,
+};
+
+async function getMovieNightMovie(movieNight: MovieNight): Promise<Movie | null> {
+  if (!movieNight.movie_id) return null;
+  return Movies.findOne({
+    where: {
+      id: movieNight.movie_id,
+      guild_id: movieNight.guild_id,
+    },
+  });
+}
+
+async function getMovieNightMessageData(movieNight: MovieNight) {
+  const movie = await getMovieNightMovie(movieNight);
+  const rsvps = await movieNight.getRsvps();
+  const getRsvpField = (status: RsvpStatus) => {
+    const userIds = rsvps.filter(rsvp => rsvp.status === status).map(rsvp => rsvp.user_id);
+    return {
+      name: `${rsvpLabels[status]} (${userIds.length})`,
+      value: userIds.map(userId => `<@${userId}>`).join('\n') || '-',
+      inline: true,
+    };
+  };
+  const embed = new EmbedBuilder({
+    title: '🍿 Movie Night',
+    description: [
+      `<t:${movieNight.time}:F> (<t:${movieNight.time}:R>)`,
+      movie
+        ? `Watching **${getMovieLabel(movie)}**`
+        : movieNight.poll_id ? 'The movie will be decided by a vote.' : null,
+      movieNight.event_id ? `https://discord.com/events/${movieNight.guild_id}/${movieNight.event_id}` : null,
+    ].filter(Boolean).join('\n'),
+    fields: [
+      getRsvpField(RsvpStatus.GOING),
+      getRsvpField(RsvpStatus.MAYBE),
+    ],
+    footer: {
+      text: movieNight.id,
+    },
+  }).setColor(movieNight.started_at ? Colors.SUCCESS : Colors.WARN);
+  return {
+    embeds: [embed],
+    components: movieNight.started_at ? [] : [getButtonsRow(Object.values(RsvpStatus).map(status => ({
+      id: `${RSVP_BUTTON_PREFIX}${status}`,
+      label: rsvpLabels[status],
+      style: rsvpStyles[status],
+    })))],
+  };
+}
+
+async function getMovieNightMessage(movieNight: MovieNight): Promise<Message | null> {
+  if (!movieNight.message_id) return null;
+  const channel = await getChannel(movieNight.channel_id);
+  if (!channel || !isText(channel)) return null;
+  return channel.messages.fetch(movieNight.message_id).catch(() => null);
+}
+
+async function updateMovieNightMessage(movieNight: MovieNight): Promise<void> {
+  const message = await getMovieNightMessage(movieNight);
+  if (message) await message.edit(await getMovieNightMessageData(movieNight));
+}
+
+export async function setRsvp(movieNight: MovieNight, userId: string, status: RsvpStatus): Promise<void> {
+  if (movieNight.started_at != null) throw new Error('This movie night has already started.');
+  await MovieNightRsvps.upsert({
+    movie_night_id: movieNight.id,
+    user_id: userId,
+    status,
+  });
+  await updateMovieNightMessage(movieNight).catch(error);
+}
+
+function listenForRsvpButtons(movieNight: MovieNight, message: Message): void {
+  listenForButtons({
+    message,
+    handlers: Object.values(RsvpStatus).reduce((acc, status) => {
+      acc[`${RSVP_BUTTON_PREFIX}${status}`] = async (i: AnyInteraction) => {
+        try {
+          await movieNight.reload();
+          await setRsvp(movieNight, i.user.id, status);
+          await i.followUp({
+            ephemeral: true,
+            content: `You RSVP'd: ${rsvpLabels[status]}`,
+          });
+        } catch (err) {
+          await i.followUp({
+            ephemeral: true,
+            content: getErrorMsg(err),
+          }).catch(error);
+        }
+      };
+      return acc;
+    }, {} as Parameters<typeof listenForButtons>[0]['handlers']),
+  });
+}
+
+/**
+ * Creates a Discord scheduled event, so that the movie night shows up in the server's events.
+ * This fails if the bot does not have the Manage Events permission, in which case the movie night goes on without one.
+ */
+/**
+ * @returns The length in ms, which is the length of the movie if it is known
+ */
+function getMovieNightLength(movie: Movie | null): number {
+  return movie?.length ? movie.length * 60 * 1000 : DEFAULT_MOVIE_NIGHT_LENGTH;
+}
+
+async function createScheduledEvent({
+  movieNight,
+  movie,
+  voiceChannel,
+}: {
+  movieNight: MovieNight,
+  movie: Movie | null,
+  voiceChannel?: VoiceBasedChannel,
+}): Promise<string | null> {
+  try {
+    const guild = await client.guilds.fetch(movieNight.guild_id);
+    const name = movie ? `Movie Night: ${movie.title}` : 'Movie Night';
+    const scheduledStartTime = new Date(movieNight.time * 1000);
+    const event = voiceChannel
+      ? await guild.scheduledEvents.create({
+        name,
+        scheduledStartTime,
+        privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
+        entityType: voiceChannel.type === ChannelType.GuildStageVoice
+          ? GuildScheduledEventEntityType.StageInstance
+          : GuildScheduledEventEntityType.Voice,
+        channel: voiceChannel,
+      })
+      : await guild.scheduledEvents.create({
+        name,
+        scheduledStartTime,
+        // External events require an end time
+        scheduledEndTime: new Date(scheduledStartTime.getTime() + getMovieNightLength(movie)),
+        privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
+        entityType: GuildScheduledEventEntityType.External,
+        entityMetadata: {
+          location: 'Discord',
+        },
+      });
+    return event.id;
+  } catch (err) {
+    error(err);
+    return null;
+  }
+}
+
+/**
+ * @param status Deletes the event if null
+ */
+async function setEventStatus(
+  movieNight: MovieNight,
+  status: GuildScheduledEventStatus.Active | GuildScheduledEventStatus.Completed | null,
+): Promise<void> {
+  if (!movieNight.event_id) return;
+  const guild = await client.guilds.fetch(movieNight.guild_id);
+  if (status == null) {
+    await guild.scheduledEvents.delete(movieNight.event_id);
+  } else {
+    await guild.scheduledEvents.edit(movieNight.event_id, { status });
+  }
+}
+
+/**
+ * @param vote If provided, the movie is decided by a vote which ends when the movie night starts
+ */
+export async function scheduleMovieNight({
+  guildId,
+  creatorId,
+  channel,
+  time,
+  movie,
+  vote,
+  voiceChannel,
+}: {
+  guildId: string,
+  creatorId: string,
+  // The channel to post the RSVP message (and the vote) in
+  channel: TextBasedChannel,
+  time: number,
+  movie?: Movie | null,
+  vote?: {
+    method: VotingMethod,
+    candidates: Movie[],
+  } | null,
+  voiceChannel?: VoiceBasedChannel,
+}): Promise<MovieNight> {
+  if (time * 1000 <= Date.now()) throw new Error('You cannot schedule a movie night in the past.');
+  if (vote && time * 1000 - Date.now() > MAX_MOVIE_NIGHT_POLL_DURATION) {
+    throw new Error(`Movie nights with a vote can only be scheduled up to ${humanizeDuration(MAX_MOVIE_NIGHT_POLL_DURATION)} ahead.`);
+  }
+  const movieNight = await MovieNights.create({
+    guild_id: guildId,
+    creator_id: creatorId,
+    channel_id: channel.id,
+    time,
+    movie_id: movie?.id ?? null,
+    voice_channel_id: voiceChannel?.id ?? null,
+  });
+  const eventId = await createScheduledEvent({ movieNight, movie: movie ?? null, voiceChannel });
+  if (eventId) await movieNight.update({ event_id: eventId });
+
+  const message = await channel.send(await getMovieNightMessageData(movieNight));
+  await movieNight.update({ message_id: message.id });
+  listenForRsvpButtons(movieNight, message);
+
+  if (vote) {
+    const poll = await createPoll({
+      guildId,
+      creatorId,
+      method: vote.method,
+      candidates: vote.candidates,
+      durationMs: time * 1000 - Date.now(),
+      channel,
+    });
+    await movieNight.update({ poll_id: poll.id });
+    await updateMovieNightMessage(movieNight).catch(error);
+  }
+
+  setMovieNightJobs(movieNight);
+  return movieNight;
+}
+
+/**
+ * Pings the configured role (or the members who are going, if there is no role) about the upcoming movie night.
+ */
+export async function sendMovieNightReminder(movieNight: MovieNight): Promise<void> {
+  const channel = await getChannel(movieNight.channel_id);
+  if (!channel || !isText(channel)) return;
+  const movieNightConfig = await MovieNightConfig.findByPk(movieNight.guild_id);
+  const attendeeIds = (await movieNight.getRsvps())
+    .filter(rsvp => rsvp.status === RsvpStatus.GOING)
+    .map(rsvp => rsvp.user_id);
+  const mentions = movieNightConfig
+    ? `<@&${movieNightConfig.role_id}>`
+    : attendeeIds.map(userId => `<@${userId}>`).join(' ');
+  const movie = await getMovieNightMovie(movieNight);
+  await channel.send([
+    mentions,
+    `Movie night starts <t:${movieNight.time}:R>${movie ? ` with **${movie.title}**` : ''}!`,
+    `${attendeeIds.length} going.`,
+  ].filter(Boolean).join(' '));
+}
+
+/**
+ * Ends the vote (if there is one), and opens the discussion thread for the movie.
+ */
+export async function startMovieNight(movieNight: MovieNight): Promise<void> {
+  clearMovieNightJobs(movieNight.id);
+  const [numUpdated] = await MovieNights.update({
+    started_at: Math.floor(Date.now() / 1000),
+  }, {
+    where: {
+      id: movieNight.id,
+      started_at: null,
+    },
+  });
+  if (!numUpdated) return;
+
+  const poll = movieNight.poll_id ? await MovieNightPolls.findByPk(movieNight.poll_id) : null;
+  // This sets the movie to the winner of the vote
+  if (poll) await closePoll(poll);
+  await movieNight.reload();
+  await updateMovieNightMessage(movieNight).catch(error);
+  await setEventStatus(movieNight, GuildScheduledEventStatus.Active).catch(error);
+
+  const movie = await getMovieNightMovie(movieNight);
+  setMovieNightEndJob(movieNight, movieNight.started_at! * 1000 + getMovieNightLength(movie));
+  if (movie) {
+    await startMovie(movie, {
+      voiceChannelId: movieNight.voice_channel_id,
+      hostId: movieNight.creator_id,
+    });
+  } else {
+    await openMovieNightThread({
+      guildId: movieNight.guild_id,
+      name: 'Movie Night',
+      embeds: [],
+    });
+  }
+}
+
+/**
+ * Marks the scheduled event as completed once the movie is over, since Discord leaves it active otherwise.
+ */
+export async function endMovieNight(movieNight: MovieNight): Promise<void> {
+  clearMovieNightJobs(movieNight.id);
+  await setEventStatus(movieNight, GuildScheduledEventStatus.Completed).catch(error);
+  await movieNight.update({ event_id: null });
+}
+
+/**
+ * For movie nights that were missed while the bot was offline, since pinging everyone and opening the thread late would be unexpected.
+ * The vote still closes, but the movie is not started.
+ */
+export async function skipMovieNight(movieNight: MovieNight): Promise<void> {
+  clearMovieNightJobs(movieNight.id);
+  const [numUpdated] = await MovieNights.update({
+    started_at: Math.floor(Date.now() / 1000),
+  }, {
+    where: {
+      id: movieNight.id,
+      started_at: null,
+    },
+  });
+  if (!numUpdated) return;
+
+  const poll = movieNight.poll_id ? await MovieNightPolls.findByPk(movieNight.poll_id) : null;
+  if (poll) await closePoll(poll).catch(error);
+  await setEventStatus(movieNight, null).catch(error);
+  await movieNight.update({ event_id: null });
+  const message = await getMovieNightMessage(movieNight);
+  if (message) {
+    await message.edit({
+      content: 'This movie night was skipped because the bot was offline when it was supposed to start.',
+      components: [],
+    }).catch(error);
+  }
+}
+
+export async function cancelMovieNight(movieNight: MovieNight): Promise<void> {
+  clearMovieNightJobs(movieNight.id);
+  await setEventStatus(movieNight, null).catch(error);
+  const poll = movieNight.poll_id ? await MovieNightPolls.findByPk(movieNight.poll_id) : null;
+  if (poll && poll.closed_at == null) await cancelPoll(poll).catch(error);
+  const message = await getMovieNightMessage(movieNight);
+  await movieNight.destroy();
+  if (message) await message.edit({ content: 'This movie night was cancelled.', embeds: [], components: [] }).catch(error);
+}
+
+/**
+ * Re-attaches the RSVP buttons of a movie night that was scheduled before the bot restarted.
+ */
+export async function restoreMovieNight(movieNight: MovieNight): Promise<void> {
+  if (movieNight.started_at != null) {
+    // The movie night is already underway, so only its scheduled event needs to be completed
+    const movie = await getMovieNightMovie(movieNight);
+    setMovieNightEndJob(movieNight, movieNight.started_at * 1000 + getMovieNightLength(movie));
+    return;
+  }
+  const message = await getMovieNightMessage(movieNight);
+  if (message) listenForRsvpButtons(movieNight, message);
+  setMovieNightJobs(movieNight);
+}
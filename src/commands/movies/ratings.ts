@@ -0,0 +1,118 @@
+import type { AnyInteraction } from 'src/types';
+import type { TextBasedChannel, ThreadChannel } from 'discord.js';
+import type { Includeable } from 'sequelize';
+import type { Movie } from 'src/models/movies';
+
+import { ButtonStyle } from 'discord.js';
+import chunk from 'lodash.chunk';
+import { MAX_MOVIE_RATING, MIN_MOVIE_RATING } from 'src/constants';
+import { MovieRatings } from 'src/models/movie-ratings';
+import { getButtonsRow, getErrorMsg, listenForButtons } from 'src/discord-utils';
+import { error } from 'src/logging';
+
+const RATING_BUTTON_PREFIX = 'rate-';
+const MAX_BUTTONS_PER_ROW = 5;
+const ratingValues = [...Array(MAX_MOVIE_RATING - MIN_MOVIE_RATING + 1).keys()].map(idx => MIN_MOVIE_RATING + idx);
+
+export const includeRatings: Includeable = {
+  model: MovieRatings,
+  as: 'ratings',
+  attributes: ['user_id', 'rating'],
+};
+
+export interface GuildRating {
+  // Rounded to one decimal place
+  average: number | null,
+  count: number,
+}
+
+/**
+ * The average of the ratings from members of the server. The movie must be loaded with its ratings.
+ */
+export function getGuildRating(movie: Movie): GuildRating {
+  const ratings = movie.ratings ?? [];
+  if (!ratings.length) return { average: null, count: 0 };
+  const sum = ratings.reduce((acc, { rating }) => acc + rating, 0);
+  return {
+    average: Math.round((sum / ratings.length) * 10) / 10,
+    count: ratings.length,
+  };
+}
+
+export function getGuildRatingLabel(movie: Movie): string {
+  const { average, count } = getGuildRating(movie);
+  if (average == null) return '-';
+  return `${average}/${MAX_MOVIE_RATING} (${count} ${count === 1 ? 'vote' : 'votes'})`;
+}
+
+/**
+ * Movies without ratings are last.
+ */
+export function sortByGuildRating(movies: Movie[]): Movie[] {
+  const averages = new Map(movies.map(movie => [movie, getGuildRating(movie).average ?? -1]));
+  return movies.sort((a, b) => averages.get(b)! - averages.get(a)!);
+}
+
+export async function rateMovie(movie: Movie, userId: string, rating: number): Promise<void> {
+  if (!Number.isInteger(rating) || rating < MIN_MOVIE_RATING || rating > MAX_MOVIE_RATING) {
+    throw new Error(`Ratings must be whole numbers from ${MIN_MOVIE_RATING} to ${MAX_MOVIE_RATING}.`);
+  }
+  await MovieRatings.upsert({
+    movie_id: movie.id,
+    user_id: userId,
+    rating,
+  });
+}
+
+export async function removeRating(movie: Movie, userId: string): Promise<void> {
+  await MovieRatings.destroy({
+    where: {
+      movie_id: movie.id,
+      user_id: userId,
+    },
+  });
+}
+
+async function getRatingMessageData(movie: Movie) {
+  await movie.reload({ include: [includeRatings] });
+  return {
+    content: [
+      `Rate **${movie.title}** from ${MIN_MOVIE_RATING} to ${MAX_MOVIE_RATING} once you have watched it.`,
+      `Server rating: ${getGuildRatingLabel(movie)}`,
+    ].join('\n'),
+    components: chunk(ratingValues, MAX_BUTTONS_PER_ROW).map(ratings => getButtonsRow(ratings.map(rating => ({
+      id: `${RATING_BUTTON_PREFIX}${rating}`,
+      label: String(rating),
+      style: ButtonStyle.Secondary,
+    })))),
+  };
+}
+
+/**
+ * Posts buttons that members can use to rate the movie.
+ * The buttons stop working when the bot restarts, but `/movies rate` can still be used.
+ */
+export async function sendRatingMessage(movie: Movie, channel: TextBasedChannel | ThreadChannel): Promise<void> {
+  const message = await channel.send(await getRatingMessageData(movie));
+  listenForButtons({
+    message,
+    handlers: ratingValues.reduce((acc, rating) => {
+      acc[`${RATING_BUTTON_PREFIX}${rating}`] = async (i: AnyInteraction) => {
+        try {
+          await rateMovie(movie, i.user.id, rating);
+          await i.followUp({
+            ephemeral: true,
+            content: `You rated **${movie.title}** ${rating}/${MAX_MOVIE_RATING}.`,
+          });
+          await message.edit(await getRatingMessageData(movie));
+        } catch (err) {
+          await i.followUp({
+            ephemeral: true,
+            content: getErrorMsg(err),
+          }).catch(error);
+        }
+      };
+      return acc;
+    }, {} as Parameters<typeof listenForButtons>[0]['handlers']),
+  });
+}
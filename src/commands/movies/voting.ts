@@ -0,0 +1,103 @@
+import { VotingMethod } from 'src/models/movie-night-polls';
+import { getRandomElement } from 'src/utils';
+
+export interface PollResults {
+  winnerId: string | null,
+  // Number of votes for each candidate in every round. Approval voting only has one round.
+  rounds: Record<string, number>[],
+  // The candidates that were tied for the win, if the winner was picked with a random tie-break
+  tiedIds: string[],
+}
+
+function getEmptyCounts(candidateIds: string[]): Record<string, number> {
+  return candidateIds.reduce((acc, id) => {
+    acc[id] = 0;
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+function getIdsWithCount(counts: Record<string, number>, getTarget: (values: number[]) => number): string[] {
+  const target = getTarget(Object.values(counts));
+  return Object.keys(counts).filter(id => counts[id] === target);
+}
+
+function breakTie(rounds: PollResults['rounds'], leaderIds: string[]): PollResults {
+  return {
+    winnerId: getRandomElement(leaderIds),
+    rounds,
+    tiedIds: leaderIds.length > 1 ? leaderIds : [],
+  };
+}
+
+/**
+ * Every candidate on a ballot gets one vote, and the candidate with the most votes wins.
+ */
+export function tallyApprovalVotes(candidateIds: string[], ballots: string[][]): PollResults {
+  const counts = getEmptyCounts(candidateIds);
+  let numVotes = 0;
+  ballots.forEach(ballot => {
+    new Set(ballot).forEach(id => {
+      if (counts[id] == null) return;
+      counts[id] += 1;
+      numVotes += 1;
+    });
+  });
+  if (!numVotes) return { winnerId: null, rounds: [counts], tiedIds: [] };
+  return breakTie([counts], getIdsWithCount(counts, values => Math.max(...values)));
+}
+
+/**
+ * The trailing candidates are only eliminated together if their combined votes can't catch up to the next candidate,
+ * since eliminating them one at a time could not change the result then.
+ * Otherwise, one of the candidates tied for last place is eliminated at random.
+ */
+function getEliminatedIds(counts: Record<string, number>): string[] {
+  const sortedIds = Object.keys(counts).sort((a, b) => counts[a] - counts[b]);
+  let numVotes = 0;
+  let numEliminated = 0;
+  for (let i = 0; i < sortedIds.length - 1; i++) {
+    numVotes += counts[sortedIds[i]];
+    if (numVotes < counts[sortedIds[i + 1]]) numEliminated = i + 1;
+  }
+  if (numEliminated) return sortedIds.slice(0, numEliminated);
+  return [getRandomElement(getIdsWithCount(counts, values => Math.min(...values)))];
+}
+
+/**
+ * Instant-runoff voting: every ballot counts towards its highest ranked candidate that is still remaining.
+ * The candidates with the fewest votes are eliminated each round until one has a majority of the votes.
+ */
+export function tallyRankedVotes(candidateIds: string[], ballots: string[][]): PollResults {
+  let remainingIds = candidateIds;
+  const rounds: PollResults['rounds'] = [];
+  while (remainingIds.length) {
+    const counts = getEmptyCounts(remainingIds);
+    let numVotes = 0;
+    ballots.forEach(ballot => {
+      const choice = ballot.find(id => counts[id] != null);
+      if (!choice) return;
+      counts[choice] += 1;
+      numVotes += 1;
+    });
+    rounds.push(counts);
+    if (!numVotes) return { winnerId: null, rounds, tiedIds: [] };
+
+    const leaderIds = getIdsWithCount(counts, values => Math.max(...values));
+    if (counts[leaderIds[0]] * 2 > numVotes) return { winnerId: leaderIds[0], rounds, tiedIds: [] };
+    // Every remaining candidate has the same number of votes, so there is nobody to eliminate
+    if (leaderIds.length === remainingIds.length) return breakTie(rounds, remainingIds);
+    const eliminatedIds = getEliminatedIds(counts);
+    remainingIds = remainingIds.filter(id => !eliminatedIds.includes(id));
+  }
+  return { winnerId: null, rounds, tiedIds: [] };
+}
+
+/**
+ * Ties for the win are broken randomly.
+ * @param ballots The IDs of the candidates that each member voted for
+ */
+export function tallyVotes(method: VotingMethod, candidateIds: string[], ballots: string[][]): PollResults {
+  return method === VotingMethod.RANKED
+    ? tallyRankedVotes(candidateIds, ballots)
+    : tallyApprovalVotes(candidateIds, ballots);
+}
@@ -0,0 +1,138 @@
+import type { Includeable } from 'sequelize';
+import type { Movie } from 'src/models/movies';
+
+import { Op } from 'sequelize';
+import { Movies } from 'src/models/movies';
+import { MovieWatches, MovieWatch } from 'src/models/movie-watches';
+import { getChannel, getConnectedVoiceChannels } from 'src/discord-utils';
+import { log } from 'src/logging';
+import { parseDelay } from 'src/utils';
+
+export const includeWatches: Includeable = {
+  model: MovieWatches,
+  as: 'watches',
+  attributes: ['id', 'watched_at'],
+};
+
+/**
+ * The movie must be loaded with its watches.
+ * @returns Epoch time in seconds, or null if it was never watched or the dates are unknown
+ */
+export function getLastWatchedAt(movie: Movie): number | null {
+  return (movie.watches ?? []).reduce((acc: number | null, { watched_at: watchedAt }) => {
+    if (watchedAt == null) return acc;
+    return acc == null ? watchedAt : Math.max(acc, watchedAt);
+  }, null);
+}
+
+export function getLastWatchedLabel(movie: Movie): string {
+  // Fall back to the flag if the watches weren't loaded
+  if (!movie.watches) return movie.was_watched ? 'Y' : 'N';
+  if (!movie.watches.length) return 'Never';
+  const lastWatchedAt = getLastWatchedAt(movie);
+  const date = lastWatchedAt != null ? `<t:${lastWatchedAt}:D>` : 'Unknown date';
+  return movie.watches.length > 1 ? `${date} (${movie.watches.length} times)` : date;
+}
+
+/**
+ * The members that are watching in the voice channel, or in the host's voice channel if there isn't one.
+ */
+export async function getAttendeeIds({
+  guildId,
+  voiceChannelId,
+  hostId,
+}: {
+  guildId: string,
+  voiceChannelId?: string | null,
+  hostId?: string | null,
+}): Promise<string[]> {
+  let channel = voiceChannelId ? await getChannel(voiceChannelId) : null;
+  if (!channel && hostId) channel = (await getConnectedVoiceChannels(guildId, [hostId]))[0] ?? null;
+  if (!channel?.isVoiceBased()) return [];
+  return channel.members.filter(member => !member.user.bot).map(member => member.id);
+}
+
+export async function logWatch({
+  movie,
+  watchedAt = Math.floor(Date.now() / 1000),
+  attendeeIds = [],
+  threadId = null,
+}: {
+  movie: Movie,
+  watchedAt?: number | null,
+  attendeeIds?: string[],
+  threadId?: string | null,
+}): Promise<MovieWatch> {
+  const watch = await MovieWatches.create({
+    movie_id: movie.id,
+    guild_id: movie.guild_id,
+    watched_at: watchedAt,
+    attendee_ids: attendeeIds,
+    thread_id: threadId,
+  });
+  if (!movie.was_watched) await movie.update({ was_watched: true });
+  return watch;
+}
+
+/**
+ * For marking movies as watched or unwatched by hand.
+ * Unwatching a movie deletes its watch history, and watching it logs a watch without a date if it has none.
+ */
+export async function setWatched(movie: Movie, watched: boolean): Promise<void> {
+  if (watched) {
+    const numWatches = await MovieWatches.count({ where: { movie_id: movie.id } });
+    if (!numWatches) await logWatch({ movie, watchedAt: null });
+  } else {
+    await MovieWatches.destroy({ where: { movie_id: movie.id } });
+    await movie.update({ was_watched: false });
+  }
+}
+
+/**
+ * @param notWatchedWithin Example: "1 year"
+ * @returns The IDs of the movies that were watched within the duration
+ */
+export async function getRecentlyWatchedMovieIds(guildId: string, notWatchedWithin: string): Promise<string[]> {
+  let durationMs: number;
+  try {
+    durationMs = parseDelay(notWatchedWithin);
+  } catch (err) {
+    throw new Error('Could not parse not_watched_within!');
+  }
+  const watches = await MovieWatches.findAll({
+    attributes: ['movie_id'],
+    where: {
+      guild_id: guildId,
+      watched_at: {
+        [Op.gte]: Math.floor((Date.now() - durationMs) / 1000),
+      },
+    },
+  });
+  return [...new Set(watches.map(watch => watch.movie_id))];
+}
+
+/**
+ * Movies were previously only marked as watched, so they get a watch without a date.
+ */
+export async function migrateWatchedMovies(): Promise<void> {
+  const movies = await Movies.findAll({
+    attributes: ['id', 'guild_id'],
+    where: {
+      was_watched: true,
+    },
+    include: [{
+      model: MovieWatches,
+      as: 'watches',
+      attributes: ['id'],
+      required: false,
+    }],
+  });
+  const unloggedMovies = movies.filter(movie => !movie.watches?.length);
+  if (!unloggedMovies.length) return;
+  await MovieWatches.bulkCreate(unloggedMovies.map(movie => ({
+    movie_id: movie.id,
+    guild_id: movie.guild_id,
+    watched_at: null,
+  })));
+  log(`Added watches for ${unloggedMovies.length} movies that were marked as watched.`);
+}
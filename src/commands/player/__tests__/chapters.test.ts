@@ -0,0 +1,69 @@
+import { getChapterIndex, parseChaptersFromDescription } from '../chapters';
+
+describe('chapters', () => {
+  describe('parseChaptersFromDescription', () => {
+    test('Leading timestamps', () => {
+      const description = [
+        'Thanks for watching!',
+        '',
+        '00:00 Intro',
+        '[03:15] - Artist - Song',
+        '1:02:03 | Outro',
+      ].join('\n');
+      expect(parseChaptersFromDescription(description)).toEqual([
+        { title: 'Intro', startMs: 0 },
+        { title: 'Artist - Song', startMs: 195 * 1000 },
+        { title: 'Outro', startMs: 3723 * 1000 },
+      ]);
+    });
+    test('Trailing timestamps', () => {
+      const description = 'Intro 0:00\nMain Topic (12:30)\nQuestions - 45:00';
+      expect(parseChaptersFromDescription(description)).toEqual([
+        { title: 'Intro', startMs: 0 },
+        { title: 'Main Topic', startMs: 750 * 1000 },
+        { title: 'Questions', startMs: 2700 * 1000 },
+      ]);
+    });
+    test('Timestamps before the first chapter and out of order are ignored', () => {
+      const description = [
+        'Skip to 5:00 for the best part',
+        '0:00 Start',
+        '2:00 Middle',
+        '1:00 Not in order',
+        '4:00 End',
+      ].join('\n');
+      expect(parseChaptersFromDescription(description)).toEqual([
+        { title: 'Start', startMs: 0 },
+        { title: 'Middle', startMs: 120 * 1000 },
+        { title: 'End', startMs: 240 * 1000 },
+      ]);
+    });
+    test('No chapter at 0:00', () => {
+      expect(parseChaptersFromDescription('1:00 First\n2:00 Second')).toEqual([]);
+    });
+    test('Only one chapter', () => {
+      expect(parseChaptersFromDescription('0:00 Everything')).toEqual([]);
+    });
+    test('No timestamps', () => {
+      expect(parseChaptersFromDescription('Just a description')).toEqual([]);
+    });
+  });
+
+  describe('getChapterIndex', () => {
+    const chapters = [
+      { title: 'Intro', startMs: 0 },
+      { title: 'Middle', startMs: 60 * 1000 },
+      { title: 'End', startMs: 120 * 1000 },
+    ];
+    test('Start of a chapter', () => {
+      expect(getChapterIndex(chapters, 60 * 1000)).toEqual(1);
+    });
+    test('Within a chapter', () => {
+      expect(getChapterIndex(chapters, 30 * 1000)).toEqual(0);
+      expect(getChapterIndex(chapters, 500 * 1000)).toEqual(2);
+    });
+    test('No chapters', () => {
+      expect(getChapterIndex([], 30 * 1000)).toEqual(-1);
+    });
+  });
+});
@@ -25,6 +25,16 @@ describe('spotify', () => {
       expect(res.type).toEqual(LinkType.ARTIST);
       expect(res.id).toEqual('foo');
     });
+    test('Valid show', async () => {
+      const res = await parseSpotifyLink('https://open.spotify.com/show/foo?si=bar');
+      expect(res.type).toEqual(LinkType.SHOW);
+      expect(res.id).toEqual('foo');
+    });
+    test('Valid episode', async () => {
+      const res = await parseSpotifyLink('https://open.spotify.com/episode/foo?si=bar');
+      expect(res.type).toEqual(LinkType.EPISODE);
+      expect(res.id).toEqual('foo');
+    });
     test('Invalid spotify link', async () => {
       expect(parseSpotifyLink('https://open.spotify.com/foobar/foo?si=bar&dl_branch=1')).rejects.toThrowError();
     });
@@ -0,0 +1,166 @@
+import { PlayerHistory } from 'src/models/player-history';
+import type { HourRow, RequesterRow, TrackRow } from '../stats';
+import {
+  getBusiestHours,
+  getPeriodStart,
+  getPlayerStats,
+  listeningMsSql,
+  StatsPeriod,
+  toPlayerStats,
+} from '../stats';
+import { TrackVariant } from '../track';
+
+// Mock this so the DB doesn't get initialized from importing the client
+jest.mock('src/client', () => ({}));
+// The queries are checked without a database
+jest.mock('src/models/player-history', () => ({
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  PlayerHistory: {
+    sequelize: {
+      query: jest.fn(),
+    },
+  },
+}));
+
+const minuteMs = 60 * 1000;
+
+// Rows as Postgres returns them for a fixture of plays
+const hourRows: HourRow[] = [
+  { hour: '8', plays: '2', listening_ms: String(3 * minuteMs + 5000) },
+  { hour: '20', plays: '3', listening_ms: String(11 * minuteMs) },
+  { hour: '21', plays: '1', listening_ms: String(3 * minuteMs) },
+];
+const trackRows: TrackRow[] = [
+  { value: 'https://www.youtube.com/watch?v=a', plays: '3', title: 'Track A (Renamed)', source_link: null },
+  { value: 'https://www.youtube.com/watch?v=b', plays: '1', title: 'Track B', source_link: 'https://example.com/b' },
+];
+const requesterRows: RequesterRow[] = [
+  { user_id: 'user-2', plays: '2', listening_ms: String(8 * minuteMs) },
+  { user_id: 'user-1', plays: '2', listening_ms: '186000.5' },
+];
+
+describe('player/stats', () => {
+  describe('getPeriodStart', () => {
+    const now = new Date('2024-02-01T00:00:00Z');
+    test('Week', () => {
+      expect(getPeriodStart(StatsPeriod.WEEK, now)).toEqual(new Date('2024-01-25T00:00:00Z'));
+    });
+    test('Month', () => {
+      expect(getPeriodStart(StatsPeriod.MONTH, now)).toEqual(new Date('2024-01-02T00:00:00Z'));
+    });
+    test('All-time', () => {
+      expect(getPeriodStart(StatsPeriod.ALL_TIME, now)).toBeNull();
+    });
+  });
+
+  describe('getBusiestHours', () => {
+    test('Most plays first, with ties broken by the earliest hour', () => {
+      const playsByHour: number[] = Array(24).fill(0);
+      playsByHour[8] = 2;
+      playsByHour[20] = 3;
+      playsByHour[21] = 1;
+      playsByHour[22] = 1;
+      expect(getBusiestHours(playsByHour)).toEqual([20, 8, 21]);
+    });
+    test('Leaves out hours without plays', () => {
+      const playsByHour: number[] = Array(24).fill(0);
+      playsByHour[5] = 1;
+      expect(getBusiestHours(playsByHour)).toEqual([5]);
+      expect(getBusiestHours(Array(24).fill(0))).toEqual([]);
+    });
+  });
+
+  describe('toPlayerStats', () => {
+    test('Totals', () => {
+      const stats = toPlayerStats({ hourRows, trackRows, requesterRows });
+      expect(stats.totalPlays).toBe(6);
+      expect(stats.totalListeningMs).toBe(17 * minuteMs + 5000);
+    });
+    test('Plays by hour', () => {
+      const stats = toPlayerStats({ hourRows, trackRows, requesterRows });
+      expect(stats.playsByHour).toHaveLength(24);
+      expect(stats.playsByHour[8]).toBe(2);
+      expect(stats.playsByHour[20]).toBe(3);
+      expect(stats.playsByHour[0]).toBe(0);
+      expect(stats.busiestHours).toEqual([20, 8, 21]);
+    });
+    test('Top tracks', () => {
+      expect(toPlayerStats({ hourRows, trackRows, requesterRows }).topTracks).toEqual([
+        { value: 'https://www.youtube.com/watch?v=a', sourceLink: null, title: 'Track A (Renamed)', plays: 3 },
+        { value: 'https://www.youtube.com/watch?v=b', sourceLink: 'https://example.com/b', title: 'Track B', plays: 1 },
+      ]);
+    });
+    test('Top requesters', () => {
+      expect(toPlayerStats({ hourRows, trackRows, requesterRows }).topRequesters).toEqual([
+        { userId: 'user-2', plays: 2, listeningMs: 8 * minuteMs },
+        { userId: 'user-1', plays: 2, listeningMs: 186001 },
+      ]);
+    });
+    test('No plays', () => {
+      expect(toPlayerStats({ hourRows: [], trackRows: [], requesterRows: [] })).toEqual({
+        totalPlays: 0,
+        totalListeningMs: 0,
+        topTracks: [],
+        topRequesters: [],
+        playsByHour: Array(24).fill(0),
+        busiestHours: [],
+      });
+    });
+    test('Hours without a listening time', () => {
+      const stats = toPlayerStats({ hourRows: [{ hour: '3', plays: '1', listening_ms: null }], trackRows: [], requesterRows: [] });
+      expect(stats.totalListeningMs).toBe(0);
+      expect(stats.totalPlays).toBe(1);
+    });
+  });
+
+  describe('listeningMsSql', () => {
+    test('Plays that never ended count their full duration, or nothing without one', () => {
+      expect(listeningMsSql).toContain('WHEN ended_at IS NULL THEN COALESCE(duration, 0)');
+    });
+    test('Ended plays count the time between starting and ending, capped at the duration and never negative', () => {
+      expect(listeningMsSql).toContain('LEAST(GREATEST(EXTRACT(EPOCH FROM ended_at - started_at) * 1000, 0), duration)');
+    });
+  });
+
+  describe('getPlayerStats', () => {
+    const query = PlayerHistory.sequelize!.query as jest.Mock;
+
+    beforeEach(() => {
+      query.mockReset();
+      query.mockResolvedValue([]);
+    });
+
+    test('Filters every query by guild', async () => {
+      await getPlayerStats({ guildId: 'guild-1', period: StatsPeriod.ALL_TIME });
+      expect(query).toHaveBeenCalledTimes(3);
+      query.mock.calls.forEach(([sql, options]) => {
+        expect(sql).toContain('WHERE guild_id = :guildId');
+        expect(sql).not.toContain(':periodStart');
+        expect(sql).not.toContain('user_id = :userId');
+        expect(options.replacements.guildId).toBe('guild-1');
+      });
+    });
+
+    test('Filters by period and requester', async () => {
+      await getPlayerStats({ guildId: 'guild-1', period: StatsPeriod.WEEK, userId: 'user-1' });
+      query.mock.calls.forEach(([sql, options]) => {
+        expect(sql).toContain('started_at >= :periodStart');
+        expect(sql).toContain('user_id = :userId');
+        expect(options.replacements.periodStart).toBeInstanceOf(Date);
+        expect(options.replacements.userId).toBe('user-1');
+      });
+    });
+
+    test('Leaves text-to-speech out of the top tracks and requesters without an ID out of the top requesters', async () => {
+      await getPlayerStats({ guildId: 'guild-1', period: StatsPeriod.ALL_TIME });
+      const [[hourSql], [trackSql, trackOptions], [requesterSql]] = query.mock.calls;
+      expect(hourSql).toContain(listeningMsSql);
+      expect(trackSql).toContain('variant != :textVariant');
+      expect(trackOptions.replacements.textVariant).toBe(TrackVariant.TEXT);
+      expect(trackSql).toContain('LIMIT :limit');
+      expect(requesterSql).toContain('user_id IS NOT NULL');
+      expect(requesterSql).toContain(listeningMsSql);
+      expect(requesterSql).toContain('LIMIT :limit');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import type { IntentionalAny } from 'src/types';
+
+// Center frequencies (in Hz) of the equalizer bands
+export const EQUALIZER_BANDS = [60, 230, 910, 3600, 14000];
+
+const minVolume = 0;
+const maxVolume = 2;
+const minPitch = 0.5;
+const maxPitch = 2;
+const minBassBoost = 0;
+const maxBassBoost = 20;
+const minEqualizerGain = -20;
+const maxEqualizerGain = 20;
+
+const NIGHTCORE_RATE = 1.25;
+const VAPORWAVE_RATE = 0.8;
+
+export interface AudioFilters {
+  volume?: number, // multiplier
+  pitch?: number, // multiplier, without changing the speed
+  bassBoost?: number, // gain in dB
+  nightcore?: boolean,
+  vaporwave?: boolean,
+  eightD?: boolean,
+  equalizer?: number[], // gain in dB for each of EQUALIZER_BANDS
+}
+
+function assertNumberInRange(value: unknown, name: string, min: number, max: number): asserts value is number {
+  if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}.`);
+  }
+}
+
+/**
+ * Validates user input (e.g. from the API), and strips out anything that is not a filter.
+ */
+export function parseAudioFilters(input: IntentionalAny): AudioFilters {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Filters must be an object.');
+  }
+  const filters: AudioFilters = {};
+  if (input.volume != null) {
+    assertNumberInRange(input.volume, 'Volume', minVolume, maxVolume);
+    filters.volume = input.volume;
+  }
+  if (input.pitch != null) {
+    assertNumberInRange(input.pitch, 'Pitch', minPitch, maxPitch);
+    filters.pitch = input.pitch;
+  }
+  if (input.bassBoost != null) {
+    assertNumberInRange(input.bassBoost, 'Bass boost', minBassBoost, maxBassBoost);
+    filters.bassBoost = input.bassBoost;
+  }
+  ['nightcore', 'vaporwave', 'eightD'].forEach(key => {
+    if (input[key] != null && typeof input[key] !== 'boolean') {
+      throw new Error(`${key} must be a boolean.`);
+    }
+  });
+  if (input.nightcore && input.vaporwave) {
+    throw new Error('Nightcore and vaporwave cannot be used together.');
+  }
+  if (input.nightcore != null) filters.nightcore = input.nightcore;
+  if (input.vaporwave != null) filters.vaporwave = input.vaporwave;
+  if (input.eightD != null) filters.eightD = input.eightD;
+  if (input.equalizer != null) {
+    if (!Array.isArray(input.equalizer) || input.equalizer.length !== EQUALIZER_BANDS.length) {
+      throw new Error(`Equalizer must have a gain for each of the ${EQUALIZER_BANDS.length} bands.`);
+    }
+    input.equalizer.forEach((gain: unknown) => {
+      assertNumberInRange(gain, 'Equalizer gain', minEqualizerGain, maxEqualizerGain);
+    });
+    filters.equalizer = input.equalizer;
+  }
+  return filters;
+}
+
+/**
+ * @param input Comma separated gains, e.g. "3,1,0,-1,2"
+ */
+export function parseEqualizerString(input: string): number[] {
+  return input.split(',').map(gain => Number(gain.trim()));
+}
+
+/**
+ * Nightcore and vaporwave change the speed of the audio (along with the pitch).
+ */
+export function getAudioFiltersSpeed(filters: AudioFilters): number {
+  if (filters.nightcore) return NIGHTCORE_RATE;
+  if (filters.vaporwave) return VAPORWAVE_RATE;
+  return 1;
+}
+
+/**
+ * Volume is not included, since it needs to be applied after normalizing the audio.
+ * https://ffmpeg.org/ffmpeg-filters.html
+ */
+export function getFfmpegAudioFilters(filters: AudioFilters): [string, string][] {
+  const audioFilters: [string, string][] = [];
+  const rate = getAudioFiltersSpeed(filters);
+  if (rate !== 1) {
+    audioFilters.push(['aresample', '48000'], ['asetrate', `48000*${rate}`], ['aresample', '48000']);
+  }
+  if (filters.pitch && filters.pitch !== 1) {
+    // Changing the sample rate changes both pitch and speed, so the speed is changed back with atempo
+    audioFilters.push(
+      ['aresample', '48000'],
+      ['asetrate', `48000*${filters.pitch}`],
+      ['aresample', '48000'],
+      ['atempo', String(1 / filters.pitch)],
+    );
+  }
+  if (filters.bassBoost) {
+    audioFilters.push(['bass', `g=${filters.bassBoost}`]);
+  }
+  filters.equalizer?.forEach((gain, idx) => {
+    if (gain) audioFilters.push(['equalizer', `f=${EQUALIZER_BANDS[idx]}:width_type=o:width=2:g=${gain}`]);
+  });
+  if (filters.eightD) {
+    audioFilters.push(['apulsator', 'hz=0.125']);
+  }
+  return audioFilters;
+}
+
+export function getAudioFiltersDescription(filters: AudioFilters): string[] {
+  const lines: string[] = [];
+  if (filters.volume != null && filters.volume !== 1) lines.push(`Volume: ${Math.round(filters.volume * 100)}%`);
+  if (filters.pitch != null && filters.pitch !== 1) lines.push(`Pitch: ${filters.pitch}x`);
+  if (filters.bassBoost) lines.push(`Bass boost: ${filters.bassBoost} dB`);
+  if (filters.nightcore) lines.push('Nightcore');
+  if (filters.vaporwave) lines.push('Vaporwave');
+  if (filters.eightD) lines.push('8D');
+  if (filters.equalizer?.some(Boolean)) {
+    lines.push(`Equalizer: ${filters.equalizer.map((gain, idx) => `${EQUALIZER_BANDS[idx]}Hz ${gain} dB`).join(', ')}`);
+  }
+  return lines;
+}
@@ -0,0 +1,57 @@
+import YouTubeSr from 'youtube-sr';
+import { AUTOPLAY_HISTORY_SIZE } from 'src/constants';
+import { PlayerHistory } from 'src/models/player-history';
+import { error, log } from 'src/logging';
+import Track, { TrackVariant } from './track';
+import { getYoutubeVideoId } from './youtube';
+
+/**
+ * Uses the artist if the title looks like "Artist - Song", since that gives more variety than searching the title.
+ */
+function getAutoplayQuery(title: string): string {
+  const [artist, song] = title.split(' - ');
+  return song ? artist.trim() : title;
+}
+
+/**
+ * Finds a track related to what was played recently, which has not been played in the last few plays.
+ */
+export async function getAutoplayTrack(guildId: string): Promise<Track | null> {
+  try {
+    const recentPlays = await PlayerHistory.findAll({
+      where: {
+        guild_id: guildId,
+      },
+      order: [['started_at', 'DESC']],
+      limit: AUTOPLAY_HISTORY_SIZE,
+    });
+    const seed = recentPlays.find(entry => entry.title && entry.variant !== TrackVariant.TEXT);
+    if (!seed?.title) return null;
+
+    const recentVideoIds = new Set(recentPlays.map(entry => getYoutubeVideoId(entry.value)));
+    const recentTitles = new Set(recentPlays.map(entry => entry.title?.toLowerCase()));
+    const results = await YouTubeSr.search(getAutoplayQuery(seed.title), {
+      type: 'video',
+      limit: 10,
+    });
+    const result = results.find(video => video.id
+      && !recentVideoIds.has(video.id)
+      && !recentTitles.has(video.title?.toLowerCase()));
+    if (!result) {
+      log('Could not find a track to autoplay for guild', guildId);
+      return null;
+    }
+    return new Track({
+      value: `https://youtube.com/watch?v=${result.id}`,
+      variant: TrackVariant.YOUTUBE_VOD,
+      details: result.title ? {
+        title: result.title,
+        duration: result.duration,
+      } : undefined,
+      isAutoplay: true,
+    });
+  } catch (err) {
+    error(err);
+    return null;
+  }
+}
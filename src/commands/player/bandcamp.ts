@@ -0,0 +1,27 @@
+import type { IntentionalAny } from 'src/types';
+
+import ytdlExec from 'youtube-dl-exec';
+import { MAX_QUEUE_LENGTH } from 'src/constants';
+import Track, { TrackVariant, VideoDetails } from './track';
+
+/**
+ * Bandcamp has no public API, so yt-dlp is used to read the tracks and their metadata from the album page.
+ */
+export async function parseBandcampAlbum(link: string): Promise<Track[]> {
+  const data: IntentionalAny = await ytdlExec(link, {
+    dumpSingleJson: true,
+    noWarnings: true,
+  });
+  const entries: IntentionalAny[] = (data.entries ?? []).filter(Boolean);
+  return entries.slice(0, MAX_QUEUE_LENGTH).map(entry => {
+    const details: VideoDetails | undefined = entry.title ? {
+      title: entry.title,
+      duration: entry.duration ? Math.round(entry.duration * 1000) : undefined,
+    } : undefined;
+    return new Track({
+      value: entry.webpage_url,
+      variant: TrackVariant.BANDCAMP,
+      details,
+    });
+  });
+}
@@ -0,0 +1,112 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import type { Command } from 'src/types';
+
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { checkVoiceErrorsByInteraction, getSubcommand, interactionHasServerPermission, parseInput } from 'src/discord-utils';
+import broadcasts from './broadcasts';
+import { BroadcastData } from './types';
+
+const commandBuilder = new SlashCommandBuilder();
+commandBuilder
+  .setName('broadcast')
+  .setDescription('Relay the player to voice channels in other servers, e.g. for events.');
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('start');
+  subcommand.setDescription('(Admin) Start a broadcast of what the player is playing in this server.');
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('join');
+  subcommand.setDescription('(Admin) Play a broadcast from another server in your voice channel.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('code')
+      .setDescription('The code that was given when the broadcast was started.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('leave');
+  subcommand.setDescription('(Admin) Stop playing the broadcast that this server joined.');
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('stop');
+  subcommand.setDescription('(Admin) Stop the broadcast from this server for every server that joined it.');
+  return subcommand;
+});
+
+function getMembersDescription(broadcast: BroadcastData): string {
+  const lines = [`Controlled from **${broadcast.controller.guildName}** (${broadcast.controller.channelName})`];
+  if (broadcast.followers.length) {
+    lines.push('Relayed to:');
+    lines.push(...broadcast.followers.map(follower => `- **${follower.guildName}** (${follower.channelName})`));
+  }
+  return lines.join('\n');
+}
+
+async function handleStart(interaction: ChatInputCommandInteraction) {
+  await checkVoiceErrorsByInteraction(interaction);
+  const broadcast = broadcasts.start(interaction.guildId!);
+  return interaction.editReply([
+    `Started a broadcast. Other servers can join it with \`/broadcast join code:${broadcast.code}\`.`,
+    'Everything that the player plays in this server will be played for them as well.',
+  ].join('\n'));
+}
+
+async function handleJoin(interaction: ChatInputCommandInteraction) {
+  const { code } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    code: string,
+  };
+  const channel = await checkVoiceErrorsByInteraction(interaction);
+  const broadcast = await broadcasts.join(code, channel);
+  return interaction.editReply(`Joined the broadcast.\n${getMembersDescription(broadcast)}`);
+}
+
+async function handleLeave(interaction: ChatInputCommandInteraction) {
+  broadcasts.leave(interaction.guildId!);
+  return interaction.editReply('Left the broadcast.');
+}
+
+async function handleStop(interaction: ChatInputCommandInteraction) {
+  broadcasts.stop(interaction.guildId!);
+  return interaction.editReply('Stopped the broadcast.');
+}
+
+const BroadcastCommand: Command = {
+  guildOnly: true,
+  slashCommandData: commandBuilder,
+  runCommand: async interaction => {
+    await interaction.deferReply({
+      ephemeral: true,
+    });
+    if (!interactionHasServerPermission({ interaction, permissions: 'ManageGuild' })) {
+      throw new Error('You must have the Manage Server permission to manage broadcasts.');
+    }
+    const subcommand = getSubcommand(interaction);
+    switch (subcommand) {
+      case 'start': {
+        await handleStart(interaction);
+        break;
+      }
+      case 'join': {
+        await handleJoin(interaction);
+        break;
+      }
+      case 'leave': {
+        await handleLeave(interaction);
+        break;
+      }
+      case 'stop': {
+        await handleStop(interaction);
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  },
+};
+
+export default BroadcastCommand;
@@ -0,0 +1,196 @@
+import type { VoiceBasedChannel } from 'discord.js';
+
+import { client } from 'src/client';
+import { emit } from 'src/api/sockets';
+import { SocketEventTypes } from 'src/types/sockets';
+import type Session from './session';
+import sessions from './sessions';
+import { BroadcastData, BroadcastMember } from './types';
+
+interface Broadcast {
+  code: string,
+  controllerGuildId: string,
+  followerGuildIds: Set<string>,
+}
+
+// Without characters that are easy to mix up, e.g. O and 0
+const CODE_CHARACTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+/**
+ * A broadcast relays the audio of one guild's session (the controller) into the voice channels of other guilds (the followers).
+ * Followers subscribe to the controller's audio player, so playing, pausing and seeking are mirrored for everyone.
+ */
+export class Broadcasts {
+  // Keyed by the code that is used to join the broadcast
+  private broadcasts = new Map<string, Broadcast>();
+  // The code of the broadcast that each guild is in, either as the controller or as a follower
+  private guildCodes = new Map<string, string>();
+
+  private generateCode(): string {
+    let code: string;
+    do {
+      code = [...Array(CODE_LENGTH).keys()]
+        .map(() => CODE_CHARACTERS[Math.floor(Math.random() * CODE_CHARACTERS.length)])
+        .join('');
+    } while (this.broadcasts.has(code));
+    return code;
+  }
+
+  private get(guildId: string): Broadcast | undefined {
+    const code = this.guildCodes.get(guildId);
+    return code ? this.broadcasts.get(code) : undefined;
+  }
+
+  private getMember(guildId: string): BroadcastMember | null {
+    const session = sessions.get(guildId);
+    if (!session) return null;
+    const channelId = session.getChannelId();
+    const channel = client.channels.cache.get(channelId);
+    return {
+      guildId,
+      guildName: client.guilds.cache.get(guildId)?.name ?? 'Unknown',
+      channelId,
+      channelName: channel && !channel.isDMBased() ? channel.name : 'Unknown',
+    };
+  }
+
+  public getData(guildId: string): BroadcastData | null {
+    const broadcast = this.get(guildId);
+    if (!broadcast) return null;
+    const controller = this.getMember(broadcast.controllerGuildId);
+    if (!controller) return null;
+    const followers = [...broadcast.followerGuildIds].map(followerGuildId => this.getMember(followerGuildId));
+    return {
+      code: broadcast.code,
+      controller,
+      followers: followers.filter((follower): follower is BroadcastMember => Boolean(follower)),
+    };
+  }
+
+  /**
+   * @returns The sessions that are following the broadcast controlled by the guild, if there is one
+   */
+  public getFollowers(guildId: string): Session[] {
+    const broadcast = this.get(guildId);
+    if (!broadcast || broadcast.controllerGuildId !== guildId) return [];
+    return [...broadcast.followerGuildIds].reduce((acc, followerGuildId) => {
+      const session = sessions.get(followerGuildId);
+      if (session) acc.push(session);
+      return acc;
+    }, [] as Session[]);
+  }
+
+  /**
+   * @param removedGuildIds Guilds which just left the broadcast, so that they are notified as well
+   */
+  private emitUpdate(broadcast: Broadcast, removedGuildIds: string[] = []): void {
+    const data = this.broadcasts.has(broadcast.code) ? this.getData(broadcast.controllerGuildId) : null;
+    const memberGuildIds = [broadcast.controllerGuildId, ...broadcast.followerGuildIds];
+    memberGuildIds.concat(removedGuildIds).forEach(guildId => {
+      const session = sessions.get(guildId);
+      if (!session) return;
+      const room = `${guildId}_${session.getChannelId()}_CONNECT`;
+      emit({
+        type: SocketEventTypes.BROADCAST_UPDATED,
+        data: {
+          guildId,
+          broadcast: removedGuildIds.includes(guildId) ? null : data,
+        },
+      }, [room]);
+    });
+  }
+
+  public start(guildId: string): BroadcastData {
+    if (!sessions.get(guildId)) {
+      throw new Error('The player must be connected to a voice channel to start a broadcast.');
+    }
+    if (this.guildCodes.has(guildId)) {
+      throw new Error('This server is already in a broadcast.');
+    }
+    const broadcast: Broadcast = {
+      code: this.generateCode(),
+      controllerGuildId: guildId,
+      followerGuildIds: new Set(),
+    };
+    this.broadcasts.set(broadcast.code, broadcast);
+    this.guildCodes.set(guildId, broadcast.code);
+    this.emitUpdate(broadcast);
+    return this.getData(guildId)!;
+  }
+
+  /**
+   * @param channel The voice channel in the follower's guild to relay the broadcast into
+   */
+  public async join(code: string, channel: VoiceBasedChannel): Promise<BroadcastData> {
+    const broadcast = this.broadcasts.get(code.trim().toUpperCase());
+    const controller = broadcast && sessions.get(broadcast.controllerGuildId);
+    if (!broadcast || !controller) {
+      throw new Error('Could not find a broadcast with that code.');
+    }
+    const guildId = channel.guild.id;
+    if (this.guildCodes.has(guildId)) {
+      throw new Error('This server is already in a broadcast.');
+    }
+    let session = sessions.get(guildId);
+    if (session && (session.getCurrentTrack() || session.queue.length)) {
+      throw new Error('Stop the player in this server before joining a broadcast.');
+    }
+    if (!session) session = await sessions.create(channel);
+    broadcast.followerGuildIds.add(guildId);
+    this.guildCodes.set(guildId, broadcast.code);
+    session.followBroadcast(controller);
+    this.emitUpdate(broadcast);
+    return this.getData(guildId)!;
+  }
+
+  /**
+   * @param shouldUnfollow False if the follower's session is being destroyed, so there is nothing to restore
+   */
+  private removeFollower(broadcast: Broadcast, guildId: string, shouldUnfollow = true): void {
+    broadcast.followerGuildIds.delete(guildId);
+    this.guildCodes.delete(guildId);
+    if (shouldUnfollow) sessions.get(guildId)?.unfollowBroadcast();
+    this.emitUpdate(broadcast, [guildId]);
+  }
+
+  public leave(guildId: string): void {
+    const broadcast = this.get(guildId);
+    if (!broadcast || broadcast.controllerGuildId === guildId) {
+      throw new Error('This server is not following a broadcast.');
+    }
+    this.removeFollower(broadcast, guildId);
+  }
+
+  public stop(guildId: string): void {
+    const broadcast = this.get(guildId);
+    if (!broadcast || broadcast.controllerGuildId !== guildId) {
+      throw new Error('This server is not running a broadcast.');
+    }
+    const followerGuildIds = [...broadcast.followerGuildIds];
+    this.broadcasts.delete(broadcast.code);
+    this.guildCodes.delete(guildId);
+    broadcast.followerGuildIds.clear();
+    followerGuildIds.forEach(followerGuildId => {
+      this.guildCodes.delete(followerGuildId);
+      sessions.get(followerGuildId)?.unfollowBroadcast();
+    });
+    this.emitUpdate(broadcast, [guildId, ...followerGuildIds]);
+  }
+
+  /**
+   * Stops the broadcast if the controller's session ended, or removes the follower if a follower's session ended.
+   */
+  public handleSessionDestroyed(guildId: string): void {
+    const broadcast = this.get(guildId);
+    if (!broadcast) return;
+    if (broadcast.controllerGuildId === guildId) {
+      this.stop(guildId);
+    } else {
+      this.removeFollower(broadcast, guildId, false);
+    }
+  }
+}
+
+const broadcasts = new Broadcasts();
+export default broadcasts;
@@ -0,0 +1,56 @@
+import { getSecondsFromClockString } from 'src/utils';
+import type { Chapter } from './types';
+
+// A timestamp at the start or end of a line, e.g. "00:00 Intro", "[1:02:03] - Outro" or "Intro (0:00)"
+const leadingTimestampRegex = /^[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]?\s*[-–—:|.]?\s+(.+)$/;
+const trailingTimestampRegex = /^(.+?)\s*[-–—:|]?\s+[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]?$/;
+
+function parseChapterLine(line: string): Chapter | null {
+  const trimmedLine = line.trim();
+  const leadingMatch = trimmedLine.match(leadingTimestampRegex);
+  if (leadingMatch) {
+    return {
+      title: leadingMatch[2].trim(),
+      startMs: getSecondsFromClockString(leadingMatch[1]) * 1000,
+    };
+  }
+  const trailingMatch = trimmedLine.match(trailingTimestampRegex);
+  if (trailingMatch) {
+    return {
+      title: trailingMatch[1].trim(),
+      startMs: getSecondsFromClockString(trailingMatch[2]) * 1000,
+    };
+  }
+  return null;
+}
+
+/**
+ * Follows the same rules that YouTube uses for chapters in video descriptions:
+ * the first timestamp must be at 0:00, and the timestamps must be in ascending order.
+ * Timestamps that are mentioned elsewhere in the description (e.g. "my favorite part is at 3:20") are ignored.
+ */
+export function parseChaptersFromDescription(description: string): Chapter[] {
+  const candidates = description.split(/\r?\n/).reduce((acc, line) => {
+    const chapter = parseChapterLine(line);
+    if (chapter) acc.push(chapter);
+    return acc;
+  }, [] as Chapter[]);
+  const firstIdx = candidates.findIndex(chapter => chapter.startMs === 0);
+  if (firstIdx < 0) return [];
+  const chapters = candidates.slice(firstIdx).reduce((acc, chapter) => {
+    if (chapter.startMs > acc[acc.length - 1].startMs) acc.push(chapter);
+    return acc;
+  }, [candidates[firstIdx]]);
+  // A single chapter covering the whole video is not useful
+  return chapters.length > 1 ? chapters : [];
+}
+
+/**
+ * @returns The index of the chapter that the position is in, or -1 if there are no chapters
+ */
+export function getChapterIndex(chapters: Chapter[], positionMs: number): number {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (chapters[i].startMs <= positionMs) return i;
+  }
+  return chapters.length ? 0 : -1;
+}
@@ -0,0 +1,83 @@
+import { Readable, Transform } from 'node:stream';
+import type { PcmStream } from './track';
+
+// 48kHz, 2 channels, 2 bytes per sample
+const BYTES_PER_MS = 48 * 2 * 2;
+// One sample for each channel
+const BYTES_PER_FRAME = 4;
+// The track that is fading out is decoded faster than it is played, so stop reading from it once this much is buffered
+const MAX_BUFFERED_BYTES = 1000 * BYTES_PER_MS;
+
+/**
+ * Fades out one track while fading in another, and passes the audio of the track that faded in through once it is done.
+ * @param from The track that is fading out
+ * @param to The track that is fading in
+ */
+export function createCrossfadeMixer(from: PcmStream, to: Readable, durationMs: number): Readable {
+  const durationBytes = Math.max(BYTES_PER_FRAME, Math.floor((durationMs * BYTES_PER_MS) / BYTES_PER_FRAME) * BYTES_PER_FRAME);
+  let fromChunks: Buffer[] = [];
+  let numBufferedBytes = 0;
+  let numMixedBytes = 0;
+  // Chunks are not guaranteed to end on a frame boundary, so the rest is mixed with the next chunk
+  let remainder = Buffer.alloc(0);
+  let isFadeDone = false;
+
+  from.stream.on('data', (chunk: Buffer) => {
+    fromChunks.push(chunk);
+    numBufferedBytes += chunk.length;
+    if (numBufferedBytes >= MAX_BUFFERED_BYTES) from.stream.pause();
+  });
+  // The track that is fading out may be cut off before it ends
+  from.stream.on('error', () => null);
+  from.stream.resume();
+
+  const readFrom = (numBytes: number): Buffer => {
+    const buffer = Buffer.concat(fromChunks);
+    const rest = buffer.subarray(numBytes);
+    fromChunks = rest.length ? [rest] : [];
+    numBufferedBytes = rest.length;
+    if (numBufferedBytes < MAX_BUFFERED_BYTES / 2) from.stream.resume();
+    return buffer.subarray(0, numBytes);
+  };
+
+  const finishFade = () => {
+    if (isFadeDone) return;
+    isFadeDone = true;
+    fromChunks = [];
+    from.stream.removeAllListeners('data');
+    from.destroy();
+  };
+
+  const mixer = new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      const data = remainder.length ? Buffer.concat([remainder, chunk]) : chunk;
+      if (isFadeDone) {
+        remainder = Buffer.alloc(0);
+        callback(null, data);
+        return;
+      }
+      const alignedLength = data.length - (data.length % BYTES_PER_FRAME);
+      remainder = data.subarray(alignedLength);
+      const fromData = readFrom(alignedLength);
+      const mixed = Buffer.alloc(alignedLength);
+      for (let i = 0; i < alignedLength; i += 2) {
+        const progress = Math.min(1, (numMixedBytes + i) / durationBytes);
+        const fromSample = i < fromData.length ? fromData.readInt16LE(i) * (1 - progress) : 0;
+        const sample = Math.round(data.readInt16LE(i) * progress + fromSample);
+        mixed.writeInt16LE(Math.max(-32768, Math.min(32767, sample)), i);
+      }
+      numMixedBytes += alignedLength;
+      if (numMixedBytes >= durationBytes) finishFade();
+      callback(null, mixed);
+    },
+    flush(callback) {
+      finishFade();
+      callback(null, remainder);
+    },
+    destroy(err, callback) {
+      finishFade();
+      callback(err);
+    },
+  });
+  return to.pipe(mixer);
+}
@@ -0,0 +1,67 @@
+import { client } from 'src/client';
+import { PlayerSettings } from 'src/models/player-settings';
+import type Session from './session';
+import type Track from './track';
+import type { SkipVoteTally } from './types';
+
+/**
+ * Everyone is a DJ if the guild has not configured a DJ role.
+ * Members who can manage the server are always DJs.
+ */
+export async function isDj(guildId: string, userId: string): Promise<boolean> {
+  const playerSettings = await PlayerSettings.findByPk(guildId);
+  if (!playerSettings?.dj_role_id) return true;
+  const guild = await client.guilds.fetch(guildId).catch(() => null);
+  const member = await guild?.members.fetch(userId).catch(() => null);
+  if (!member) return false;
+  return member.roles.cache.has(playerSettings.dj_role_id) || member.permissions.has('ManageGuild');
+}
+
+/**
+ * @param action Describes what the user attempted to do, e.g. "clear the queue"
+ */
+export async function checkIsDj(guildId: string, userId: string, action: string): Promise<void> {
+  if (!await isDj(guildId, userId)) {
+    throw new Error(`Only DJs can ${action}.`);
+  }
+}
+
+/**
+ * Anyone can move or remove their own tracks, but only DJs can move or remove other people's tracks.
+ */
+export async function checkCanManageTrack(guildId: string, userId: string, track: Track | undefined): Promise<void> {
+  if (!track || track.requesterId === userId) return;
+  await checkIsDj(guildId, userId, 'move or remove tracks that other people queued');
+}
+
+/**
+ * DJs and the user who queued the current track can skip immediately. Otherwise, this counts as a vote to skip,
+ * and the track is only skipped once enough listeners have voted.
+ *
+ * @param extraSkips Skipping additional tracks is only allowed for DJs
+ */
+export async function skipOrVote({
+  session,
+  guildId,
+  userId,
+  extraSkips = 0,
+}: {
+  session: Session,
+  guildId: string,
+  userId: string,
+  extraSkips?: number,
+}): Promise<{ skipped: boolean } & SkipVoteTally> {
+  if (extraSkips > 0) await checkIsDj(guildId, userId, 'skip multiple tracks at once');
+  const currentTrack = session.getCurrentTrack();
+  if (currentTrack?.requesterId === userId || await isDj(guildId, userId)) {
+    const tally = session.getSkipVoteTally();
+    await session.skip(extraSkips);
+    return { skipped: true, ...tally };
+  }
+  const tally = session.voteSkip(userId);
+  if (tally.votes >= tally.required) {
+    await session.skip();
+    return { skipped: true, ...tally };
+  }
+  return { skipped: false, ...tally };
+}
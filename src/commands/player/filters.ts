@@ -0,0 +1,157 @@
+import type { AnyInteraction, Command, CommandOrModalRunMethod, IntentionalAny } from 'src/types';
+
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { checkVoiceErrorsByInteraction, getSubcommand, parseInput } from 'src/discord-utils';
+import type Session from './session';
+import sessions from './sessions';
+import { attachPlayerButtons } from './utils';
+import {
+  AudioFilters,
+  EQUALIZER_BANDS,
+  getAudioFiltersDescription,
+  parseAudioFilters,
+  parseEqualizerString,
+} from './audio-filters';
+
+const commandBuilder = new SlashCommandBuilder();
+commandBuilder
+  .setName('filters')
+  .setDescription('Audio effects for the current session.');
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('set');
+  subcommand.setDescription('Set audio filters. Filters that are not provided are left unchanged.');
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('volume')
+      .setDescription('Volume as a percentage, between 0 and 200.')
+      .setMinValue(0)
+      .setMaxValue(200)
+      .setRequired(false);
+  });
+  subcommand.addNumberOption(option => {
+    return option
+      .setName('pitch')
+      .setDescription('Pitch multiplier, between 0.5 and 2. This does not change the speed.')
+      .setMinValue(0.5)
+      .setMaxValue(2)
+      .setRequired(false);
+  });
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('bass_boost')
+      .setDescription('Bass boost in dB, between 0 and 20.')
+      .setMinValue(0)
+      .setMaxValue(20)
+      .setRequired(false);
+  });
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('nightcore')
+      .setDescription('Speed up the audio and raise the pitch.')
+      .setRequired(false);
+  });
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('vaporwave')
+      .setDescription('Slow down the audio and lower the pitch.')
+      .setRequired(false);
+  });
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('8d')
+      .setDescription('Pan the audio between the left and right channels.')
+      .setRequired(false);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('equalizer')
+      .setDescription(`Comma separated gains in dB for ${EQUALIZER_BANDS.map(band => `${band}Hz`).join(', ')}.`)
+      .setRequired(false);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('clear');
+  subcommand.setDescription('Remove all audio filters.');
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('list');
+  subcommand.setDescription('List the active audio filters.');
+  return subcommand;
+});
+
+function getFiltersMessage(filters: AudioFilters): string {
+  const lines = getAudioFiltersDescription(filters);
+  return lines.length ? `Active filters:\n${lines.join('\n')}` : 'No filters are active.';
+}
+
+async function handleSet(interaction: AnyInteraction, session: Session): Promise<IntentionalAny> {
+  const inputs = await parseInput({ slashCommandData: commandBuilder, interaction });
+  const newFilters: AudioFilters = { ...session.getFilters() };
+  if (inputs.volume != null) newFilters.volume = inputs.volume / 100;
+  if (inputs.pitch != null) newFilters.pitch = inputs.pitch;
+  if (inputs.bass_boost != null) newFilters.bassBoost = inputs.bass_boost;
+  if (inputs['8d'] != null) newFilters.eightD = inputs['8d'];
+  if (inputs.equalizer != null) newFilters.equalizer = parseEqualizerString(inputs.equalizer);
+  // Nightcore and vaporwave are mutually exclusive, so turning one on turns the other off
+  if (inputs.nightcore != null) {
+    newFilters.nightcore = inputs.nightcore;
+    if (inputs.nightcore) newFilters.vaporwave = false;
+  }
+  if (inputs.vaporwave != null) {
+    newFilters.vaporwave = inputs.vaporwave;
+    if (inputs.vaporwave) newFilters.nightcore = false;
+  }
+
+  await session.setFilters(parseAudioFilters(newFilters));
+  await interaction.editReply(getFiltersMessage(session.getFilters()));
+  attachPlayerButtons(interaction, session);
+}
+
+async function handleClear(interaction: AnyInteraction, session: Session): Promise<IntentionalAny> {
+  await session.setFilters({});
+  await interaction.editReply('Audio filters cleared.');
+  attachPlayerButtons(interaction, session);
+}
+
+const run: CommandOrModalRunMethod = async interaction => {
+  await interaction.deferReply({ ephemeral: true });
+
+  // This is a guild-only command
+  const session = sessions.get(interaction.guild!.id);
+  if (!session) {
+    await interaction.editReply('Session does not exist.');
+    return;
+  }
+
+  const subcommand = getSubcommand(interaction);
+  switch (subcommand) {
+    case 'set': {
+      await checkVoiceErrorsByInteraction(interaction);
+      await handleSet(interaction, session);
+      break;
+    }
+    case 'clear': {
+      await checkVoiceErrorsByInteraction(interaction);
+      await handleClear(interaction, session);
+      break;
+    }
+    case 'list': {
+      await interaction.editReply(getFiltersMessage(session.getFilters()));
+      break;
+    }
+    default: {
+      await interaction.editReply('What??');
+    }
+  }
+};
+
+const FiltersCommand: Command = {
+  guildOnly: true,
+  slashCommandData: commandBuilder,
+  runCommand: run,
+  runModal: run,
+};
+
+export default FiltersCommand;
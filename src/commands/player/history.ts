@@ -0,0 +1,100 @@
+import { PlayerHistory } from 'src/models/player-history';
+import { error } from 'src/logging';
+import { checkVoiceErrors } from 'src/discord-utils';
+import sessions from './sessions';
+import Track from './track';
+
+/**
+ * Records that a track started playing. This never throws, since failing to record history should not affect playback.
+ */
+export async function recordTrackStarted(guildId: string, track: Track): Promise<PlayerHistory | null> {
+  try {
+    const details = await track.getVideoDetails().catch(() => null);
+    return await PlayerHistory.create({
+      guild_id: guildId,
+      user_id: track.requesterId ?? null,
+      value: track.value,
+      variant: track.variant,
+      source_link: track.sourceLink ?? null,
+      title: details?.title ?? null,
+      duration: details?.duration ?? null,
+      started_at: new Date(),
+    });
+  } catch (err) {
+    error(err);
+    return null;
+  }
+}
+
+export async function recordTrackEnded(entry: PlayerHistory, wasSkipped: boolean): Promise<void> {
+  await entry.update({
+    ended_at: new Date(),
+    was_skipped: wasSkipped,
+  });
+}
+
+/**
+ * @returns History entries for the guild, with the most recently played first
+ */
+export async function getHistory({
+  guildId,
+  offset = 0,
+  limit,
+}: {
+  guildId: string,
+  offset?: number,
+  limit: number,
+}): Promise<{ entries: PlayerHistory[], total: number }> {
+  const { rows, count } = await PlayerHistory.findAndCountAll({
+    where: {
+      guild_id: guildId,
+    },
+    order: [['started_at', 'DESC']],
+    offset,
+    limit,
+  });
+  return {
+    entries: rows,
+    total: count,
+  };
+}
+
+export async function getHistoryEntry(guildId: string, entryId: string): Promise<PlayerHistory | null> {
+  return PlayerHistory.findOne({
+    where: {
+      guild_id: guildId,
+      id: entryId,
+    },
+  // entryId may not conform to UUID syntax and therefore this may throw an error
+  }).catch(() => null);
+}
+
+export function getTrackFromHistory(entry: PlayerHistory, requesterId: string): Track {
+  return new Track({
+    value: entry.value,
+    variant: entry.variant,
+    sourceLink: entry.source_link ?? undefined,
+    requesterId,
+    details: entry.title ? {
+      title: entry.title,
+      duration: entry.duration ?? undefined,
+    } : undefined,
+  });
+}
+
+/**
+ * Adds a previously played track back to the end of the queue, starting a session if necessary.
+ */
+export async function replayHistoryEntry({
+  entry,
+  userId,
+}: {
+  entry: PlayerHistory,
+  userId: string,
+}): Promise<Track> {
+  const channel = await checkVoiceErrors({ userId, guildId: entry.guild_id });
+  const session = sessions.get(entry.guild_id) || await sessions.create(channel);
+  const track = getTrackFromHistory(entry, userId);
+  await session.enqueue([track]);
+  return track;
+}
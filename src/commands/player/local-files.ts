@@ -0,0 +1,93 @@
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import prism from 'prism-media';
+import { client } from 'src/client';
+import { MUSIC_DIRECTORY_CACHE_TIME } from 'src/constants';
+import { filterOutFalsy } from 'src/utils';
+import type { VideoDetails } from './track';
+
+const execFileAsync = promisify(execFile);
+
+const musicDirectory = process.env.PLAYER_MUSIC_DIRECTORY ? path.resolve(process.env.PLAYER_MUSIC_DIRECTORY) : null;
+
+const AUDIO_FILE_EXTENSIONS = new Set(['.mp3', '.flac', '.wav', '.ogg', '.opus', '.m4a', '.aac', '.webm']);
+
+// Discord only allows 25 autocomplete choices
+const maxSearchResults = 25;
+
+export function isMusicDirectorySetUp(): boolean {
+  return Boolean(musicDirectory);
+}
+
+/**
+ * @param relativePath Path of the file relative to the music directory
+ * @returns The absolute path of the file, which is guaranteed to be inside of the music directory
+ */
+export function resolveMusicFile(relativePath: string): string {
+  if (!musicDirectory) throw new Error('The music directory is not set up.');
+  const filePath = path.resolve(musicDirectory, relativePath);
+  if (!filePath.startsWith(`${musicDirectory}${path.sep}`)) {
+    throw new Error('Invalid file.');
+  }
+  return filePath;
+}
+
+export async function checkCanPlayLocalFiles(guildId: string, userId: string): Promise<void> {
+  const guild = await client.guilds.fetch(guildId).catch(() => null);
+  const member = await guild?.members.fetch(userId).catch(() => null);
+  if (!member?.permissions.has('ManageGuild')) {
+    throw new Error('You must have the Manage Server permission to play files from the music directory.');
+  }
+}
+
+async function listAudioFiles(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async entry => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return listAudioFiles(entryPath);
+    return AUDIO_FILE_EXTENSIONS.has(path.extname(entry.name).toLowerCase()) ? [entryPath] : [];
+  }));
+  return files.flat();
+}
+
+// The directory may be large, so avoid walking it on every keystroke of the autocomplete
+const getMusicFiles = (() => {
+  let cache: { files: string[], fetchedAt: number } | null = null;
+  return async (): Promise<string[]> => {
+    if (!musicDirectory) return [];
+    if (cache && Date.now() - cache.fetchedAt < MUSIC_DIRECTORY_CACHE_TIME) return cache.files;
+    const files = (await listAudioFiles(musicDirectory)).map(file => path.relative(musicDirectory, file)).sort();
+    cache = { files, fetchedAt: Date.now() };
+    return files;
+  };
+})();
+
+/**
+ * @returns Paths relative to the music directory
+ */
+export async function searchMusicFiles(query: string): Promise<string[]> {
+  const files = await getMusicFiles();
+  const lowerCaseQuery = query.toLowerCase();
+  return files.filter(file => file.toLowerCase().includes(lowerCaseQuery)).slice(0, maxSearchResults);
+}
+
+/**
+ * Reads the title and duration from the metadata of a file (or URL) with FFmpeg.
+ */
+export async function getMediaDetails(input: string, fallbackTitle: string): Promise<VideoDetails> {
+  const { command } = prism.FFmpeg.getInfo();
+  // Without an output file, FFmpeg prints information about the input and then exits with an error
+  const output = await execFileAsync(command, ['-hide_banner', '-i', input], { timeout: 10000 })
+    .then(res => res.stderr, (err: { stderr?: string }) => err.stderr ?? '');
+  const durationMatch = output.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  const title = output.match(/^\s*title\s*:\s*(.+)$/im)?.[1].trim();
+  const artist = output.match(/^\s*artist\s*:\s*(.+)$/im)?.[1].trim();
+  return {
+    title: title ? filterOutFalsy([artist, title]).join(' - ') : fallbackTitle,
+    duration: durationMatch
+      ? Math.round((Number(durationMatch[1]) * 3600 + Number(durationMatch[2]) * 60 + Number(durationMatch[3])) * 1000)
+      : undefined,
+  };
+}
@@ -0,0 +1,187 @@
+import type { AnyInteraction, Command, CommandOrModalRunMethod } from 'src/types';
+
+import axios from 'axios';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { EmbedBuilder } from 'discord.js';
+import { Colors, LYRICS_API_ROOT, LYRICS_CACHE_SIZE, LYRICS_PAGE_LENGTH } from 'src/constants';
+import { parseInput } from 'src/discord-utils';
+import { log } from 'src/logging';
+import sessions from './sessions';
+import type Track from './track';
+import { getVideoDetailsWithFallback } from './utils';
+
+export interface Lyrics {
+  title: string,
+  artist?: string,
+  lyrics: string,
+  sourceLink?: string,
+}
+
+export interface LyricsProvider {
+  name: string,
+  search: (query: string) => Promise<Lyrics | null>,
+}
+
+// https://lrclib.net/docs
+const lrclibProvider: LyricsProvider = {
+  name: 'LRCLIB',
+  search: async query => {
+    const url = new URL(`${LYRICS_API_ROOT}/search`);
+    url.searchParams.append('q', query);
+    const res = await axios.get(url.href);
+    const results: { trackName: string, artistName: string, plainLyrics: string | null }[] = res.data;
+    const result = results.find(r => r.plainLyrics);
+    if (!result) return null;
+    return {
+      title: result.trackName,
+      artist: result.artistName,
+      lyrics: result.plainLyrics!,
+    };
+  },
+};
+
+// Used for local development, so that the lyrics API does not need to be hit
+const mockProvider: LyricsProvider = {
+  name: 'Mock',
+  search: async query => ({
+    title: query,
+    artist: 'Mock Artist',
+    lyrics: [...Array(100).keys()].map(idx => `Line ${idx + 1} of the lyrics for ${query}`).join('\n'),
+  }),
+};
+
+let provider: LyricsProvider = process.env.LYRICS_PROVIDER === 'mock' ? mockProvider : lrclibProvider;
+
+// Keyed by the track value (or the query, if one was provided explicitly)
+const cache = new Map<string, Promise<Lyrics | null>>();
+
+export function setLyricsProvider(newProvider: LyricsProvider): void {
+  provider = newProvider;
+  cache.clear();
+}
+
+function getCachedLyrics(key: string, query: string): Promise<Lyrics | null> {
+  if (cache.has(key)) return cache.get(key)!;
+  log(`Fetching lyrics from ${provider.name} for`, query);
+  const promise = provider.search(query);
+  // Don't cache failures, so that they can be retried
+  promise.catch(() => cache.delete(key));
+  cache.set(key, promise);
+  // Maps preserve insertion order, so the first key is the oldest
+  if (cache.size > LYRICS_CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  return promise;
+}
+
+/**
+ * Strips out the noise that is common in YouTube video titles, e.g. "(Official Music Video)" or "[HD]".
+ */
+export function cleanTrackTitle(title: string): string {
+  return title
+    .replace(/[([][^)\]]*\b(official|video|audio|lyrics?|visuali[sz]er|hd|hq|4k|mv|remaster(ed)?)\b[^)\]]*[)\]]/gi, '')
+    .replace(/\s(ft|feat)\.?\s[^-([]*/i, ' ')
+    .replace(/\|.*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function searchLyrics(query: string): Promise<Lyrics | null> {
+  return getCachedLyrics(query.toLowerCase(), query);
+}
+
+export async function getLyricsForTrack(track: Track): Promise<Lyrics | null> {
+  const { title } = await getVideoDetailsWithFallback(track);
+  return getCachedLyrics(track.value, cleanTrackTitle(title));
+}
+
+/**
+ * Splits on line breaks where possible, so that lines are not cut off between pages.
+ */
+function getLyricsPages(lyrics: string): string[] {
+  return lyrics.split('\n').reduce((pages, line) => {
+    const lastPage = pages[pages.length - 1];
+    if (lastPage != null && lastPage.length + line.length + 1 <= LYRICS_PAGE_LENGTH) {
+      pages[pages.length - 1] = `${lastPage}\n${line}`;
+    } else {
+      pages.push(line.slice(0, LYRICS_PAGE_LENGTH));
+    }
+    return pages;
+  }, [] as string[]);
+}
+
+/**
+ * Each page is sent as a separate message, since the total length of the embeds in one message is limited.
+ * @param isFollowUp Whether the reply should not replace the original message (e.g. for button interactions)
+ */
+export async function replyWithLyrics({
+  interaction,
+  lyrics,
+  isFollowUp,
+}: {
+  interaction: AnyInteraction,
+  lyrics: Lyrics,
+  isFollowUp?: boolean,
+}): Promise<void> {
+  const pages = getLyricsPages(lyrics.lyrics);
+  for (let i = 0; i < pages.length; i++) {
+    const embed = new EmbedBuilder({
+      title: i === 0 ? [lyrics.artist, lyrics.title].filter(Boolean).join(' - ') : undefined,
+      url: i === 0 ? lyrics.sourceLink : undefined,
+      description: pages[i],
+      footer: pages.length > 1 ? {
+        text: `Page ${i + 1}/${pages.length}`,
+      } : undefined,
+    }).setColor(Colors.SUCCESS);
+    if (i > 0 || isFollowUp) {
+      await interaction.followUp({
+        embeds: [embed],
+        ephemeral: true,
+      });
+    } else {
+      await interaction.editReply({
+        embeds: [embed],
+      });
+    }
+  }
+}
+
+const commandBuilder = new SlashCommandBuilder()
+  .setName('lyrics')
+  .setDescription('Look up the lyrics for the track that is currently playing.')
+  .addStringOption(option => option
+    .setName('query')
+    .setDescription('Search for lyrics to something else instead.')
+    .setRequired(false));
+
+const run: CommandOrModalRunMethod = async interaction => {
+  await interaction.deferReply({ ephemeral: true });
+  const inputs = await parseInput({ slashCommandData: commandBuilder, interaction });
+  const query: string | null = inputs.query;
+
+  let lyrics: Lyrics | null;
+  if (query) {
+    lyrics = await searchLyrics(query);
+  } else {
+    // This is a guild-only command
+    const currentTrack = sessions.get(interaction.guild!.id)?.getCurrentTrack();
+    if (!currentTrack) {
+      await interaction.editReply('Nothing is playing. Provide a query to search for lyrics instead.');
+      return;
+    }
+    lyrics = await getLyricsForTrack(currentTrack);
+  }
+
+  if (!lyrics) {
+    await interaction.editReply('Could not find lyrics.');
+    return;
+  }
+  await replyWithLyrics({ interaction, lyrics });
+};
+
+const LyricsCommand: Command = {
+  guildOnly: true,
+  slashCommandData: commandBuilder,
+  runCommand: run,
+  runModal: run,
+};
+
+export default LyricsCommand;
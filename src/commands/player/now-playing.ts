@@ -3,6 +3,7 @@ import type { Command } from 'src/types';
 import { SlashCommandBuilder } from '@discordjs/builders';
 import { filterOutFalsy } from 'src/utils';
 import sessions from './sessions';
+import { getAudioFiltersDescription } from './audio-filters';
 import { getTrackDurationAndSpeedFromSession, getVideoDetailsWithFallback, replyWithSessionButtons } from './utils';
 
 export const runNowPlaying: Parameters<typeof replyWithSessionButtons>[0]['run'] = async session => {
@@ -15,9 +16,17 @@ export const runNowPlaying: Parameters<typeof replyWithSessionButtons>[0]['run']
   }
   const videoDetails = await getVideoDetailsWithFallback(currentTrack);
   const footerText = await getTrackDurationAndSpeedFromSession(session);
+  const { votes, required } = session.getSkipVoteTally();
+  const filters = getAudioFiltersDescription(session.getFilters());
+  const { chapters, currentIdx } = await session.getChapters();
   return {
-    title: '🔊 Now Playing',
-    description: videoDetails.title,
+    title: currentTrack.isAutoplay ? '🔊 Now Playing (Autoplay)' : '🔊 Now Playing',
+    description: filterOutFalsy([
+      videoDetails.title,
+      currentIdx >= 0 && `Chapter ${currentIdx + 1}/${chapters.length}: ${chapters[currentIdx].title}`,
+      votes > 0 && `Votes to skip: ${votes}/${required}`,
+      filters.length > 0 && `Filters: ${filters.join(', ')}`,
+    ]).join('\n'),
     link: filterOutFalsy([currentTrack.value, currentTrack.sourceLink]).join('\n'),
     footerText,
   };
@@ -3,10 +3,21 @@ import type { AnyInteraction, Command, EditReply, IntentionalAny, MessageRespons
 import throttle from 'lodash.throttle';
 import YouTubeSr from 'youtube-sr';
 import { SlashCommandBuilder } from '@discordjs/builders';
-import { EmbedBuilder, EmbedData } from 'discord.js';
-import { Colors, ENV_LIMITER_SPLIT_REGEX, MAX_TEXT_TO_SPEECH_LENGTH } from 'src/constants';
+import { EmbedBuilder, EmbedData, VoiceBasedChannel } from 'discord.js';
+import { Colors } from 'src/constants';
 import { error } from 'src/logging';
-import { filterOutFalsy, isRedditLink, isTwitchLivestreamLink, isTwitchVodLink, isTwitterLink, shuffleArray } from 'src/utils';
+import {
+  filterOutFalsy,
+  isBandcampAlbumLink,
+  isBandcampLink,
+  isRedditLink,
+  isSoundCloudLink,
+  isSoundCloudSetLink,
+  isTwitchLivestreamLink,
+  isTwitchVodLink,
+  isTwitterLink,
+  shuffleArray,
+} from 'src/utils';
 import { checkVoiceErrors, editLatest, parseInput } from 'src/discord-utils';
 import sessions from './sessions';
 import Track, { TrackVariant } from './track';
@@ -15,16 +26,23 @@ import {
   LinkType,
   parseSpotifyAlbum,
   parseSpotifyArtist,
+  parseSpotifyEpisode,
   parseSpotifyLink,
   parseSpotifyPlaylist,
+  parseSpotifyShow,
   parseSpotifyTrack,
+  SpotifyQueries,
 } from './spotify';
 import { parseYoutubePlaylist, getTracksFromQueries } from './youtube';
 import { attachPlayerButtons, getTrackDurationString, getTrackDurationAndSpeed } from './utils';
 import { getFavorite } from './player-favorites';
+import { getPlaylistTracks } from './playlists';
+import { checkIsDj } from './dj';
+import { checkCanPlayLocalFiles, isMusicDirectorySetUp, resolveMusicFile, searchMusicFiles } from './local-files';
 import { Query, QueryType } from './types';
-
-const whiteListedTextToSpeecUserIds = new Set<string>(process.env.TEXT_TO_SPEECH_WHITELIST_USER_IDS?.split(ENV_LIMITER_SPLIT_REGEX) || []);
+import { parseSoundCloudSet } from './soundcloud';
+import { parseBandcampAlbum } from './bandcamp';
+import { canUseTextToSpeech, createTextToSpeechTrack } from './text-to-speech';
 
 function respondWithEmbed(editReply: EditReply, content: EmbedData) {
   const embed = new EmbedBuilder({
@@ -36,20 +54,40 @@ function respondWithEmbed(editReply: EditReply, content: EmbedData) {
   });
 }
 
-async function enqueue(session: Session, tracks: Track[], pushToFront: boolean): Promise<EmbedData> {
+/**
+ * @returns The variant for a link to a single track, or null if the link is not for a single track (e.g. a playlist)
+ */
+export function getTrackVariantFromLink(link: string): TrackVariant | null {
+  if (isTwitchVodLink(link)) return TrackVariant.TWITCH_VOD;
+  if (isTwitchLivestreamLink(link)) return TrackVariant.TWITCH_LIVESTREAM;
+  if (isTwitterLink(link)) return TrackVariant.TWITTER;
+  if (isRedditLink(link)) return TrackVariant.REDDIT;
+  if (isSoundCloudLink(link)) return TrackVariant.SOUNDCLOUD;
+  if (isBandcampLink(link)) return TrackVariant.BANDCAMP;
+  if (YouTubeSr.validate(link, 'VIDEO') && !YouTubeSr.isPlaylist(link)) return TrackVariant.YOUTUBE_VOD;
+  return null;
+}
+
+async function enqueue(session: Session, tracks: Track[], pushToFront: boolean, requesterId: string): Promise<EmbedData> {
+  tracks.forEach(track => {
+    track.requesterId = requesterId;
+  });
   const wasPlayingAnything = Boolean(session.getCurrentTrack());
-  await session.enqueue(tracks, pushToFront);
+  const enqueuedTracks = await session.enqueue(tracks, pushToFront);
+  const numDropped = tracks.length - enqueuedTracks.length;
+  const limitsDescription = numDropped > 0 ? `\n${numDropped} track(s) were not queued because of the queue limits.` : '';
 
   try {
-    const videoDetails = await tracks[0].getVideoDetails();
-    if (wasPlayingAnything && tracks.length > 1) {
-      return { description: `Queued ${tracks.length} tracks.` };
+    const videoDetails = await enqueuedTracks[0].getVideoDetails();
+    if (wasPlayingAnything && enqueuedTracks.length > 1) {
+      return { description: `Queued ${enqueuedTracks.length} tracks.${limitsDescription}` };
     }
-    if (tracks.length > 1) {
-      return { description: `Now playing: ${videoDetails.title}\nQueued ${tracks.length - 1} tracks.` };
+    if (enqueuedTracks.length > 1) {
+      return { description: `Now playing: ${videoDetails.title}\nQueued ${enqueuedTracks.length - 1} tracks.${limitsDescription}` };
     }
     if (wasPlayingAnything) {
-      return { description: `Queued at position #${pushToFront ? 1 : session.queue.length}: ${videoDetails.title}` };
+      const position = session.queue.indexOf(enqueuedTracks[0]) + 1;
+      return { description: `Queued at position #${position}: ${videoDetails.title}${limitsDescription}` };
     }
     const duration = videoDetails.duration ? getTrackDurationString(0, videoDetails.duration) : null;
     const speed = session.getPlaybackSpeed();
@@ -60,15 +98,16 @@ async function enqueue(session: Session, tracks: Track[], pushToFront: boolean):
       },
       description: filterOutFalsy([
         videoDetails.title,
-        tracks[0].value,
-        tracks[0].sourceLink,
+        enqueuedTracks[0].value,
+        enqueuedTracks[0].sourceLink,
+        limitsDescription.trim(),
       ]).join('\n'),
       footer: footerText ? {
         text: footerText,
       } : undefined,
     };
   } catch (err) {
-    error(tracks[0].value, tracks[0].variant, err);
+    error(enqueuedTracks[0].value, enqueuedTracks[0].variant, err);
     return {
       description: 'Could not fetch video details.'
         + ' This video probably cannot be played for some reason.'
@@ -77,11 +116,20 @@ async function enqueue(session: Session, tracks: Track[], pushToFront: boolean):
   }
 }
 
-async function enqueueQueries(session: Session, queries: Query[], editReply: EditReply | null): Promise<IntentionalAny> {
+/**
+ * @param fetchRemainingQueries Fetches more queries in the background, which are queued after the rest of the queries
+ */
+async function enqueueQueries(
+  session: Session,
+  queries: Query[],
+  editReply: EditReply | null,
+  requesterId: string,
+  fetchRemainingQueries?: SpotifyQueries['fetchRemaining'],
+): Promise<IntentionalAny> {
   if (session.isShuffled()) shuffleArray(queries);
   const [firstQuery, ...restQueries] = queries;
   const [firstTrack] = await getTracksFromQueries([firstQuery]);
-  const firstTrackPartialMessage = await enqueue(session, [firstTrack], false);
+  const firstTrackPartialMessage = await enqueue(session, [firstTrack], false, requesterId);
 
   function concatDescription(oldOptions: EmbedData, newDescription: string): EmbedData {
     return {
@@ -90,42 +138,64 @@ async function enqueueQueries(session: Session, queries: Query[], editReply: Edi
     };
   }
 
+  let numToFetch = restQueries.length;
   if (editReply) {
-    await respondWithEmbed(editReply, concatDescription(firstTrackPartialMessage, `Fetching the other ${restQueries.length} tracks from YouTube...`));
+    await respondWithEmbed(editReply, concatDescription(firstTrackPartialMessage, `Fetching the other ${numToFetch} tracks from YouTube...`));
   }
 
   let numFetched = 0;
+  let numQueued = 0;
   const throttledMessageUpdate = throttle(async () => {
     if (!editReply) return null;
     if (numFetched === 0) {
       return respondWithEmbed(
         editReply,
-        concatDescription(firstTrackPartialMessage, `Fetching the other ${restQueries.length} tracks from YouTube...`),
+        concatDescription(firstTrackPartialMessage, `Fetching the other ${numToFetch} tracks from YouTube...`),
       );
     }
-    if (numFetched < restQueries.length) {
+    if (numFetched < numToFetch) {
       return respondWithEmbed(editReply, concatDescription(firstTrackPartialMessage, `Queued ${
-        numFetched
+        numQueued
       } tracks.\nFetching the other ${
-        restQueries.length - numFetched
+        numToFetch - numFetched
       } tracks from YouTube...`));
     }
-    return respondWithEmbed(editReply, concatDescription(firstTrackPartialMessage, `Queued ${numFetched} tracks from YouTube.`));
+    const numDropped = numFetched - numQueued;
+    return respondWithEmbed(editReply, concatDescription(firstTrackPartialMessage, `Queued ${numQueued} tracks from YouTube.${
+      numDropped > 0 ? `\n${numDropped} track(s) were not queued because of the queue limits.` : ''
+    }`));
   }, 5000);
 
-  getTracksFromQueries(restQueries, async newTracks => {
-    await session.enqueue(newTracks);
+  const onTracksFetched = async (newTracks: Track[]) => {
+    newTracks.forEach(track => {
+      track.requesterId = requesterId;
+    });
+    // Once the requester reaches the queue limits, the remaining tracks are dropped
+    const enqueuedTracks = await session.enqueue(newTracks).catch(() => []);
     numFetched += newTracks.length;
+    numQueued += enqueuedTracks.length;
     if (editReply) await throttledMessageUpdate();
-  });
+  };
+
+  (async () => {
+    await getTracksFromQueries(restQueries, onTracksFetched);
+    await fetchRemainingQueries?.(async newQueries => {
+      if (session.isShuffled()) shuffleArray(newQueries);
+      numToFetch += newQueries.length;
+      await getTracksFromQueries(newQueries, onTracksFetched);
+    });
+  })().catch(error);
 }
 
 interface PlayInputs {
   vodLink?: string | null,
   favoriteId?: string | null,
+  playlistId?: string | null,
   streamLink?: string | null,
   queryStr?: string | null,
   text?: string | null,
+  attachmentUrl?: string | null,
+  localFile?: string | null, // path relative to the music directory
   pushToFront?: boolean,
   shuffle?: boolean,
 }
@@ -141,6 +211,8 @@ type PlayArguments = {
   invoker: {
     userId: string,
     guildId: string,
+    // Plays in this channel instead of the one that the user is in (e.g. for scheduled playback)
+    channel?: VoiceBasedChannel,
   },
   inputs: PlayInputs,
 }
@@ -151,10 +223,13 @@ export async function play({
   invoker,
   inputs: {
     favoriteId,
+    playlistId,
     vodLink,
     streamLink,
     queryStr,
     text,
+    attachmentUrl,
+    localFile,
     pushToFront = false,
     shuffle = false,
   },
@@ -180,9 +255,24 @@ export async function play({
       return editReplyOrThrow('Favorite could not be found.');
     }
   }
-  const numArgs = [vodLink, streamLink, queryStr, text].filter(Boolean).length;
+  let playlistTracks: Track[] | null = null;
+  if (playlistId) {
+    playlistTracks = await getPlaylistTracks(playlistId, guildId).catch(() => null);
+    if (!playlistTracks) {
+      return editReplyOrThrow('Playlist could not be found.');
+    }
+    if (!playlistTracks.length) {
+      return editReplyOrThrow('Playlist is empty.');
+    }
+  }
+  if (localFile) {
+    await checkCanPlayLocalFiles(guildId, userId);
+    // Throws if the file is outside of the music directory
+    resolveMusicFile(localFile);
+  }
+  const numArgs = [vodLink, streamLink, queryStr, text, attachmentUrl, localFile, playlistTracks].filter(Boolean).length;
 
-  const channel = await checkVoiceErrors({ userId, guildId });
+  const channel = invoker?.channel ?? await checkVoiceErrors({ userId, guildId });
 
   let session = sessions.get(guildId);
   if (session) session.resume();
@@ -193,22 +283,31 @@ export async function play({
 
   if (!session) session = await sessions.create(channel);
 
-  if (shuffle) session.shuffle();
+  if (shuffle) {
+    await checkIsDj(guildId, userId, 'shuffle the queue');
+    session.shuffle();
+  }
 
+  if (playlistTracks) {
+    const responseMessage = await enqueue(session, playlistTracks, pushToFront, userId);
+    if (editReply) await respondWithEmbed(editReply, responseMessage);
+    return interaction && attachPlayerButtons(interaction, session, message);
+  }
   if (vodLink) {
-    if (isTwitchVodLink(vodLink)
-      || isTwitchLivestreamLink(vodLink)
-      || isTwitterLink(vodLink)
-      || isRedditLink(vodLink)
-    ) {
-      let variant: TrackVariant = TrackVariant.ARBITRARY;
-      if (isTwitchVodLink(vodLink)) variant = TrackVariant.TWITCH_VOD;
-      else if (isTwitchLivestreamLink(vodLink)) variant = TrackVariant.TWITCH_LIVESTREAM;
-      else if (isTwitterLink(vodLink)) variant = TrackVariant.TWITTER;
-      else if (isRedditLink(vodLink)) variant = TrackVariant.REDDIT;
-
+    const variant = getTrackVariantFromLink(vodLink);
+    if (variant != null && variant !== TrackVariant.YOUTUBE_VOD) {
       const track = new Track({ value: vodLink, variant });
-      const responseMessage = await enqueue(session, [track], pushToFront);
+      const responseMessage = await enqueue(session, [track], pushToFront, userId);
+      if (editReply) await respondWithEmbed(editReply, responseMessage);
+      return interaction && attachPlayerButtons(interaction, session, message);
+    }
+
+    if (isSoundCloudSetLink(vodLink) || isBandcampAlbumLink(vodLink)) {
+      const tracks = isSoundCloudSetLink(vodLink)
+        ? (await parseSoundCloudSet(vodLink))
+        : (await parseBandcampAlbum(vodLink));
+      if (!tracks.length) return editReplyOrThrow('That playlist is empty.');
+      const responseMessage = await enqueue(session, tracks, pushToFront, userId);
       if (editReply) await respondWithEmbed(editReply, responseMessage);
       return interaction && attachPlayerButtons(interaction, session, message);
     }
@@ -217,16 +316,19 @@ export async function play({
       const tracks = YouTubeSr.isPlaylist(vodLink)
         ? (await parseYoutubePlaylist(vodLink))
         : [new Track({ value: vodLink, variant: TrackVariant.YOUTUBE_VOD })];
-      const responseMessage = await enqueue(session, tracks, pushToFront);
+      const responseMessage = await enqueue(session, tracks, pushToFront, userId);
       if (editReply) await respondWithEmbed(editReply, responseMessage);
       return interaction && attachPlayerButtons(interaction, session, message);
     }
 
     const { type } = await parseSpotifyLink(vodLink);
     const queries: Query[] = [];
+    let fetchRemainingQueries: SpotifyQueries['fetchRemaining'];
     switch (type) {
       case LinkType.PLAYLIST: {
-        queries.push(...await parseSpotifyPlaylist(vodLink));
+        const playlist = await parseSpotifyPlaylist(vodLink);
+        queries.push(...playlist.queries);
+        fetchRemainingQueries = playlist.fetchRemaining;
         break;
       }
       case LinkType.ALBUM: {
@@ -241,16 +343,26 @@ export async function play({
         queries.push(await parseSpotifyTrack(vodLink));
         break;
       }
+      case LinkType.SHOW: {
+        const show = await parseSpotifyShow(vodLink);
+        queries.push(...show.queries);
+        fetchRemainingQueries = show.fetchRemaining;
+        break;
+      }
+      case LinkType.EPISODE: {
+        queries.push(await parseSpotifyEpisode(vodLink));
+        break;
+      }
       default: {
         throw new Error('Could not parse Spotify link.');
       }
     }
-    if (queries.length > 1) {
-      await enqueueQueries(session, queries, editReply);
+    if (queries.length > 1 || fetchRemainingQueries) {
+      await enqueueQueries(session, queries, editReply, userId, fetchRemainingQueries);
       return interaction && attachPlayerButtons(interaction, session, message);
     }
     const tracks = await getTracksFromQueries(queries);
-    const responseMessage = await enqueue(session, tracks, pushToFront);
+    const responseMessage = await enqueue(session, tracks, pushToFront, userId);
     if (editReply) await respondWithEmbed(editReply, responseMessage);
     return interaction && attachPlayerButtons(interaction, session, message);
   }
@@ -259,7 +371,7 @@ export async function play({
       return editReplyOrThrow('Invalid YouTube link.');
     }
     const tracks = [new Track({ value: streamLink, variant: TrackVariant.YOUTUBE_LIVESTREAM })];
-    const responseMessage = await enqueue(session, tracks, pushToFront);
+    const responseMessage = await enqueue(session, tracks, pushToFront, userId);
     if (editReply) await respondWithEmbed(editReply, responseMessage);
     return interaction && attachPlayerButtons(interaction, session, message);
   }
@@ -268,21 +380,24 @@ export async function play({
       query: queryStr,
       type: QueryType.DIRECT_QUERY,
     }]);
-    const responseMessage = await enqueue(session, tracks, pushToFront);
+    const responseMessage = await enqueue(session, tracks, pushToFront, userId);
+    if (editReply) await respondWithEmbed(editReply, responseMessage);
+    return interaction && attachPlayerButtons(interaction, session, message);
+  }
+  if (attachmentUrl || localFile) {
+    const track = attachmentUrl
+      ? new Track({ value: attachmentUrl, variant: TrackVariant.ATTACHMENT })
+      : new Track({ value: localFile!, variant: TrackVariant.LOCAL_FILE });
+    const responseMessage = await enqueue(session, [track], pushToFront, userId);
     if (editReply) await respondWithEmbed(editReply, responseMessage);
     return interaction && attachPlayerButtons(interaction, session, message);
   }
   if (text) {
-    if (!whiteListedTextToSpeecUserIds.has(userId)) {
+    if (!await canUseTextToSpeech(guildId, userId)) {
       return editReplyOrThrow('You are not permitted to use text-to-speech.');
     }
-    const textToPlay = text.slice(0, MAX_TEXT_TO_SPEECH_LENGTH);
-    const excessText = text.slice(MAX_TEXT_TO_SPEECH_LENGTH);
-    const track = new Track({
-      value: textToPlay,
-      variant: TrackVariant.TEXT,
-    });
-    const responseMessage = await enqueue(session, [track], pushToFront);
+    const { track, excessText } = await createTextToSpeechTrack(text, userId);
+    const responseMessage = await enqueue(session, [track], pushToFront, userId);
     if (editReply) await respondWithEmbed(editReply, responseMessage);
     if (interaction) {
       await attachPlayerButtons(interaction, session, message);
@@ -302,19 +417,30 @@ export async function play({
 const commandBuilder = new SlashCommandBuilder()
   .setName('play')
   .setDescription('Plays audio into a voice channel.')
-  .addStringOption(option => option.setName('link').setDescription('YouTube, Spotify, Twitch. No livestreams.').setRequired(false))
+  .addStringOption(option => option
+    .setName('link')
+    .setDescription('YouTube, Spotify, SoundCloud, Bandcamp, Twitch. No livestreams.')
+    .setRequired(false))
   .addStringOption(option => option.setName('query').setDescription('Generic query for YouTube.').setRequired(false))
   .addStringOption(option => option.setName('favorite').setDescription('Favorite ID.').setRequired(false))
   .addStringOption(option => option.setName('text').setDescription('Text for text-to-speech.').setRequired(false))
   // .addStringOption(option => option.setName('stream').setDescription('YouTube livestream. Twitch is not currently supported.').setRequired(false))
   .addBooleanOption(option => option.setName('front').setDescription('Push song (one) to the front of the queue.').setRequired(false))
-  .addBooleanOption(option => option.setName('shuffle').setDescription('Shuffle the queue.').setRequired(false));
+  .addBooleanOption(option => option.setName('shuffle').setDescription('Shuffle the queue.').setRequired(false))
+  .addAttachmentOption(option => option.setName('attachment').setDescription('Audio file to play.').setRequired(false))
+  .addStringOption(option => option
+    .setName('file')
+    .setDescription('File from the music directory. Admin only.')
+    .setAutocomplete(true)
+    .setRequired(false));
 
 const PlayCommand: Command = {
   guildOnly: true,
   showModalWithNoArgs: true,
   slashCommandData: commandBuilder,
 
+  // Attachments cannot be provided in a modal, and files from the music directory rely on autocomplete
+  modalHiddenArgs: ['attachment', 'file'],
   modalLabels: {
     stream: 'YouTube livestream. (Not Twitch).',
     favorite: 'Favorite ID.',
@@ -359,6 +485,13 @@ const PlayCommand: Command = {
     const text = interaction.options.getString('text');
     const pushToFront = interaction.options.getBoolean('front') ?? false;
     const shuffle = interaction.options.getBoolean('shuffle') ?? false;
+    const attachment = interaction.options.getAttachment('attachment');
+    const localFile = interaction.options.getString('file');
+
+    if (attachment && !attachment.contentType?.startsWith('audio/') && !attachment.contentType?.startsWith('video/')) {
+      await interaction.editReply('The attachment must be an audio or video file.');
+      return;
+    }
 
     await play({
       interaction,
@@ -368,11 +501,28 @@ const PlayCommand: Command = {
         streamLink: null,
         queryStr,
         text,
+        attachmentUrl: attachment?.url,
+        localFile,
         pushToFront,
         shuffle,
       },
     });
   },
+
+  runAutocomplete: async interaction => {
+    const focusedOption = interaction.options.getFocused(true);
+    if (focusedOption.name !== 'file' || !isMusicDirectorySetUp() || !interaction.guildId) {
+      await interaction.respond([]);
+      return;
+    }
+    const canBrowse = await checkCanPlayLocalFiles(interaction.guildId, interaction.user.id).then(() => true, () => false);
+    const files = canBrowse ? await searchMusicFiles(focusedOption.value) : [];
+    // Choice values can be at most 100 characters, and a shortened path would not match a file
+    await interaction.respond(files.filter(file => file.length <= 100).map(file => ({
+      name: file,
+      value: file,
+    })));
+  },
 };
 
 export default PlayCommand;
@@ -1,11 +1,18 @@
-import type { Channel, ChatInputCommandInteraction } from 'discord.js';
+import type { Channel, ChatInputCommandInteraction, Role } from 'discord.js';
 import type { CreationAttributes } from 'sequelize';
 import type { Command } from 'src/types';
 
 import { SlashCommandBuilder } from '@discordjs/builders';
-import { getInteractionConnectedVoiceChannels, getSubcommand, parseInput } from 'src/discord-utils';
+import { getInteractionConnectedVoiceChannels, getSubcommand, interactionHasServerPermission, parseInput } from 'src/discord-utils';
+import {
+  DEFAULT_PLAYER_ALONE_TIMEOUT_MINUTES,
+  DEFAULT_PLAYER_IDLE_TIMEOUT_MINUTES,
+  DEFAULT_VOTE_SKIP_THRESHOLD,
+  MAX_CROSSFADE_SECONDS,
+} from 'src/constants';
 import { PlayerSettings } from 'src/models/player-settings';
 import sessions from './sessions';
+import { invalidateSpotifyMappings } from './youtube';
 
 const commandBuilder = new SlashCommandBuilder();
 commandBuilder
@@ -34,6 +41,165 @@ commandBuilder.addSubcommand(subcommand => {
   return subcommand;
 });
 
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('auto-restore');
+  subcommand.setDescription('(Admin) Automatically resume the player after the bot restarts, instead of asking to.');
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('enabled')
+      .setDescription('Whether to automatically rejoin and resume the last session.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('set-dj');
+  subcommand.setDescription('(Admin) Only allow members with a DJ role to skip without voting or clear the queue.');
+  subcommand.addRoleOption(option => {
+    return option
+      .setName('role')
+      .setDescription('The DJ role.')
+      .setRequired(true);
+  });
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('vote_skip_percentage')
+      .setDescription(`Percentage of listeners who need to vote to skip. Default: ${DEFAULT_VOTE_SKIP_THRESHOLD}.`)
+      .setMinValue(1)
+      .setMaxValue(100)
+      .setRequired(false);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('clear-dj');
+  subcommand.setDescription('(Admin) Allow everyone to control the player again.');
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('set-tts-role');
+  subcommand.setDescription('(Admin) Allow members with a role to use text-to-speech.');
+  subcommand.addRoleOption(option => {
+    return option
+      .setName('role')
+      .setDescription('The text-to-speech role.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('clear-tts-role');
+  subcommand.setDescription('(Admin) Only allow members who can manage the server to use text-to-speech.');
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('announcements');
+  subcommand.setDescription('(Admin) Announce the title of each track with text-to-speech before it plays.');
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('enabled')
+      .setDescription('Whether to announce tracks.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('queue-limits');
+  subcommand.setDescription('(Admin) Take turns between users in the queue, and limit how much each user can queue.');
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('fair')
+      .setDescription('Interleave the queue by the user who requested each track.')
+      .setRequired(false);
+  });
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('max_tracks')
+      .setDescription('Maximum number of tracks that each user can have queued. 0 for no limit.')
+      .setMinValue(0)
+      .setRequired(false);
+  });
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('max_minutes')
+      .setDescription('Maximum total minutes of tracks that each user can have queued. 0 for no limit.')
+      .setMinValue(0)
+      .setRequired(false);
+  });
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('timeouts');
+  subcommand.setDescription('(Admin) Set how long the player waits before leaving the voice channel on its own.');
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('alone_minutes')
+      .setDescription(`Leave after being alone for this many minutes. 0 to never leave. Default: ${DEFAULT_PLAYER_ALONE_TIMEOUT_MINUTES}.`)
+      .setMinValue(0)
+      .setRequired(false);
+  });
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('idle_minutes')
+      .setDescription(`Leave after nothing has played for this many minutes. 0 to never leave. Default: ${DEFAULT_PLAYER_IDLE_TIMEOUT_MINUTES}.`)
+      .setMinValue(0)
+      .setRequired(false);
+  });
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('autoplay');
+  subcommand.setDescription('(Admin) Keep playing related tracks after the queue runs out.');
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('enabled')
+      .setDescription('Whether to autoplay related tracks.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('crossfade');
+  subcommand.setDescription('(Admin) Fade between tracks instead of playing them back to back.');
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('seconds')
+      .setDescription('How long to fade between tracks. 0 to turn off crossfading.')
+      .setMinValue(0)
+      .setMaxValue(MAX_CROSSFADE_SECONDS)
+      .setRequired(true);
+  });
+  return subcommand;
+});
+
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('clear-spotify-match');
+  subcommand.setDescription('(Admin) Forget the YouTube video that a Spotify track was matched with, to search for it again.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('link')
+      .setDescription('Link to the Spotify track or episode, or to the YouTube video that it was matched with.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+
+/**
+ * For the (Admin) subcommands, since their settings apply to the whole server.
+ */
+function checkCanChangeSettings(interaction: ChatInputCommandInteraction, action = 'change this setting'): void {
+  if (!interactionHasServerPermission({ interaction, permissions: 'ManageGuild' })) {
+    throw new Error(`You must have the Manage Server permission to ${action}.`);
+  }
+}
+
 async function handleSet(interaction: ChatInputCommandInteraction) {
   const {
     normalize: shouldNormalizeAudio,
@@ -103,6 +269,208 @@ async function handleClear(interaction: ChatInputCommandInteraction) {
   return interaction.editReply('Player settings were already empty.');
 }
 
+async function handleAutoRestore(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const { enabled } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    enabled: boolean,
+  };
+  await PlayerSettings.upsert({
+    guild_id: interaction.guildId!,
+    auto_restore: enabled,
+  });
+  return interaction.editReply(enabled
+    ? 'The player will automatically rejoin and resume where it left off after the bot restarts.'
+    : 'The player will ask before resuming where it left off after the bot restarts (requires an updates channel).');
+}
+
+async function handleSetDj(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const { role, vote_skip_percentage: voteSkipPercentage } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    role: Role,
+    vote_skip_percentage?: number,
+  };
+  const guildId = interaction.guildId!;
+  const newPlayerSettings: CreationAttributes<PlayerSettings> = {
+    guild_id: guildId,
+    dj_role_id: role.id,
+  };
+  if (voteSkipPercentage != null) {
+    newPlayerSettings.vote_skip_threshold = voteSkipPercentage;
+    sessions.get(guildId)?.setSkipVoteThreshold(voteSkipPercentage);
+  }
+  await PlayerSettings.upsert(newPlayerSettings);
+  const responseLines = [`Members with the <@&${role.id}> role are now DJs. Everyone else needs to vote to skip tracks.`];
+  if (voteSkipPercentage != null) {
+    responseLines.push(`${voteSkipPercentage}% of listeners need to vote to skip a track.`);
+  }
+  return interaction.editReply(responseLines.join('\n'));
+}
+
+async function handleClearDj(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const playerSettings = await PlayerSettings.findByPk(interaction.guildId!);
+  if (playerSettings?.dj_role_id) {
+    await playerSettings.update({
+      dj_role_id: null,
+    });
+    return interaction.editReply('There is no longer a DJ role. Everyone can control the player.');
+  }
+  return interaction.editReply('There was no DJ role.');
+}
+
+async function handleSetTtsRole(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const { role } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    role: Role,
+  };
+  await PlayerSettings.upsert({
+    guild_id: interaction.guildId!,
+    tts_role_id: role.id,
+  });
+  return interaction.editReply(`Members with the <@&${role.id}> role can now use text-to-speech.`);
+}
+
+async function handleClearTtsRole(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const playerSettings = await PlayerSettings.findByPk(interaction.guildId!);
+  if (playerSettings?.tts_role_id) {
+    await playerSettings.update({
+      tts_role_id: null,
+    });
+    return interaction.editReply('There is no longer a text-to-speech role. Only members who can manage the server can use text-to-speech.');
+  }
+  return interaction.editReply('There was no text-to-speech role.');
+}
+
+async function handleAnnouncements(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const { enabled } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    enabled: boolean,
+  };
+  await PlayerSettings.upsert({
+    guild_id: interaction.guildId!,
+    announce_tracks: enabled,
+  });
+  return interaction.editReply(enabled
+    ? 'The title of each track will be announced before it plays.'
+    : 'Tracks will no longer be announced.');
+}
+
+async function handleQueueLimits(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const {
+    fair,
+    max_tracks: maxTracks,
+    max_minutes: maxMinutes,
+  } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    fair?: boolean,
+    max_tracks?: number,
+    max_minutes?: number,
+  };
+  if (fair == null && maxTracks == null && maxMinutes == null) {
+    throw new Error('You did not provide any settings to change.');
+  }
+
+  const newPlayerSettings: CreationAttributes<PlayerSettings> = {
+    guild_id: interaction.guildId!,
+  };
+  const responseLines = ['Player settings updated.'];
+  if (fair != null) {
+    newPlayerSettings.fair_queue = fair;
+    responseLines.push(fair
+      ? 'Users will take turns in the queue.'
+      : 'Tracks will be queued in the order they are requested.');
+  }
+  if (maxTracks != null) {
+    newPlayerSettings.max_tracks_per_user = maxTracks || null;
+    responseLines.push(maxTracks
+      ? `Each user can have up to ${maxTracks} tracks queued.`
+      : 'There is no limit on the number of tracks each user can queue.');
+  }
+  if (maxMinutes != null) {
+    newPlayerSettings.max_minutes_per_user = maxMinutes || null;
+    responseLines.push(maxMinutes
+      ? `Each user can have up to ${maxMinutes} minutes of tracks queued.`
+      : 'There is no limit on the duration of tracks each user can queue.');
+  }
+  await PlayerSettings.upsert(newPlayerSettings);
+  return interaction.editReply(responseLines.join('\n'));
+}
+
+async function handleTimeouts(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const {
+    alone_minutes: aloneMinutes,
+    idle_minutes: idleMinutes,
+  } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    alone_minutes?: number,
+    idle_minutes?: number,
+  };
+  if (aloneMinutes == null && idleMinutes == null) {
+    throw new Error('You did not provide any settings to change.');
+  }
+
+  const newPlayerSettings: CreationAttributes<PlayerSettings> = {
+    guild_id: interaction.guildId!,
+  };
+  const responseLines = ['Player settings updated. This will take effect the next time the player is alone or idle.'];
+  if (aloneMinutes != null) {
+    newPlayerSettings.alone_timeout_minutes = aloneMinutes;
+    responseLines.push(aloneMinutes
+      ? `The player will leave after being alone for ${aloneMinutes} minute(s).`
+      : 'The player will not leave when it is alone.');
+  }
+  if (idleMinutes != null) {
+    newPlayerSettings.idle_timeout_minutes = idleMinutes;
+    responseLines.push(idleMinutes
+      ? `The player will leave after nothing has played for ${idleMinutes} minute(s).`
+      : 'The player will not leave when nothing is playing.');
+  }
+  await PlayerSettings.upsert(newPlayerSettings);
+  return interaction.editReply(responseLines.join('\n'));
+}
+
+async function handleAutoplay(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const { enabled } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    enabled: boolean,
+  };
+  await PlayerSettings.upsert({
+    guild_id: interaction.guildId!,
+    autoplay: enabled,
+  });
+  return interaction.editReply(enabled
+    ? 'Related tracks will be played after the queue runs out.'
+    : 'The player will stop after the queue runs out.');
+}
+
+async function handleCrossfade(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction);
+  const { seconds } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    seconds: number,
+  };
+  await PlayerSettings.upsert({
+    guild_id: interaction.guildId!,
+    crossfade_seconds: seconds,
+  });
+  sessions.get(interaction.guildId!)?.setCrossfadeSeconds(seconds);
+  return interaction.editReply(seconds
+    ? `The player will fade between tracks over ${seconds} second(s).`
+    : 'The player will play tracks back to back without fading between them.');
+}
+
+async function handleClearSpotifyMatch(interaction: ChatInputCommandInteraction) {
+  checkCanChangeSettings(interaction, 'clear Spotify matches');
+  const { link } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    link: string,
+  };
+  const numCleared = await invalidateSpotifyMappings(link);
+  if (!numCleared) {
+    return interaction.editReply('There were no saved matches for that link.');
+  }
+  return interaction.editReply(`Cleared ${numCleared} saved match(es). They will be searched for on YouTube the next time they are played.`);
+}
+
 const PlayerSettingsCommand: Command = {
   guildOnly: true,
   slashCommandData: commandBuilder,
@@ -120,6 +488,50 @@ const PlayerSettingsCommand: Command = {
         await handleClear(interaction);
         break;
       }
+      case 'auto-restore': {
+        await handleAutoRestore(interaction);
+        break;
+      }
+      case 'set-dj': {
+        await handleSetDj(interaction);
+        break;
+      }
+      case 'clear-dj': {
+        await handleClearDj(interaction);
+        break;
+      }
+      case 'set-tts-role': {
+        await handleSetTtsRole(interaction);
+        break;
+      }
+      case 'clear-tts-role': {
+        await handleClearTtsRole(interaction);
+        break;
+      }
+      case 'announcements': {
+        await handleAnnouncements(interaction);
+        break;
+      }
+      case 'queue-limits': {
+        await handleQueueLimits(interaction);
+        break;
+      }
+      case 'timeouts': {
+        await handleTimeouts(interaction);
+        break;
+      }
+      case 'autoplay': {
+        await handleAutoplay(interaction);
+        break;
+      }
+      case 'crossfade': {
+        await handleCrossfade(interaction);
+        break;
+      }
+      case 'clear-spotify-match': {
+        await handleClearSpotifyMatch(interaction);
+        break;
+      }
       default: {
         break;
       }
@@ -0,0 +1,94 @@
+import type { User } from 'discord.js';
+import type { Command } from 'src/types';
+
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { EmbedBuilder } from 'discord.js';
+import { Colors } from 'src/constants';
+import { parseInput } from 'src/discord-utils';
+import { PlayerStats, StatsPeriod, getPlayerStats } from './stats';
+
+const commandBuilder = new SlashCommandBuilder()
+  .setName('player-stats')
+  .setDescription('Show the most played tracks, top requesters and listening time for the player.')
+  .addStringOption(option => option
+    .setName('period')
+    .setDescription('Which plays to count. Default: all-time.')
+    .addChoices(
+      { name: 'Past week', value: StatsPeriod.WEEK },
+      { name: 'Past month', value: StatsPeriod.MONTH },
+      { name: 'All-time', value: StatsPeriod.ALL_TIME },
+    )
+    .setRequired(false))
+  .addUserOption(option => option
+    .setName('user')
+    .setDescription('Only count the tracks that this user requested.')
+    .setRequired(false));
+
+const periodLabels: Record<StatsPeriod, string> = {
+  [StatsPeriod.WEEK]: 'Past Week',
+  [StatsPeriod.MONTH]: 'Past Month',
+  [StatsPeriod.ALL_TIME]: 'All-Time',
+};
+
+function getHoursString(durationMs: number): string {
+  return `${(durationMs / (60 * 60 * 1000)).toFixed(1)} hours`;
+}
+
+function getHourRangeString(hour: number): string {
+  const pad = (h: number) => String(h).padStart(2, '0');
+  return `${pad(hour)}:00-${pad((hour + 1) % 24)}:00`;
+}
+
+function getStatsEmbed(stats: PlayerStats, period: StatsPeriod, user: User | undefined): EmbedBuilder {
+  const embed = new EmbedBuilder({
+    author: {
+      name: `📊 Player Stats (${periodLabels[period]})`,
+    },
+    description: [
+      user && `Tracks requested by <@${user.id}>`,
+      `${stats.totalPlays} plays, ${getHoursString(stats.totalListeningMs)} of listening`,
+    ].filter(Boolean).join('\n'),
+  }).setColor(Colors.SUCCESS);
+  if (!stats.totalPlays) return embed;
+  embed.addFields({
+    name: 'Top Tracks',
+    value: stats.topTracks.map((track, idx) => `${idx + 1}. ${track.title || track.value} (${track.plays} plays)`).join('\n') || 'None',
+  });
+  if (!user) {
+    embed.addFields({
+      name: 'Top Requesters',
+      value: stats.topRequesters
+        .map((requester, idx) => `${idx + 1}. <@${requester.userId}>: ${requester.plays} plays, ${getHoursString(requester.listeningMs)}`)
+        .join('\n') || 'None',
+    });
+  }
+  embed.addFields({
+    name: 'Busiest Hours (UTC)',
+    value: stats.busiestHours
+      .map(hour => `${getHourRangeString(hour)}: ${stats.playsByHour[hour]} plays`)
+      .join('\n'),
+  });
+  return embed;
+}
+
+const PlayerStatsCommand: Command = {
+  guildOnly: true,
+  slashCommandData: commandBuilder,
+  runCommand: async interaction => {
+    await interaction.deferReply({ ephemeral: true });
+    const { period = StatsPeriod.ALL_TIME, user } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+      period?: StatsPeriod,
+      user?: User,
+    };
+    const stats = await getPlayerStats({
+      guildId: interaction.guildId!,
+      period,
+      userId: user?.id,
+    });
+    await interaction.editReply({
+      embeds: [getStatsEmbed(stats, period, user)],
+    });
+  },
+};
+
+export default PlayerStatsCommand;
@@ -0,0 +1,283 @@
+import type { ChatInputCommandInteraction, GuildBasedChannel } from 'discord.js';
+import type { Command } from 'src/types';
+
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { ChannelType, EmbedBuilder } from 'discord.js';
+import { Colors, MIN_PLAYER_SCHEDULE_INTERVAL } from 'src/constants';
+import { getSubcommand, interactionHasServerPermission, parseInput } from 'src/discord-utils';
+import { getDateString, humanizeDuration, parseDelay, parseUpcomingTime } from 'src/utils';
+import { PlayerSchedules } from 'src/models/player-schedules';
+import { getNextPlayback, removePlayerSchedule, setPlayerSchedule } from 'src/jobs/player-schedules';
+import sessions from './sessions';
+import { checkIsDj } from './dj';
+import { getFavorite } from './player-favorites';
+import { getPlaylist } from './playlists';
+
+const commandBuilder = new SlashCommandBuilder();
+commandBuilder
+  .setName('player')
+  .setDescription('Sleep timers and scheduled playback for the player.');
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('sleep');
+  subcommand.setDescription('Stop playing and leave the voice channel after some time.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('duration')
+      .setDescription('Examples: "45m" or "2 hours". Plain numbers are minutes.')
+      .setRequired(false);
+  });
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('end_of_track')
+      .setDescription('Let the track finish before leaving. Without a duration, leaves after the current track.')
+      .setRequired(false);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('cancel-sleep');
+  subcommand.setDescription('Cancel the sleep timer.');
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('schedule');
+  subcommand.setDescription('Play a favorite or playlist in a voice channel at a certain time.');
+  subcommand.addChannelOption(option => {
+    return option
+      .setName('channel')
+      .setDescription('The voice channel to play in.')
+      .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice)
+      .setRequired(true);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('time')
+      .setDescription('When to start playing. Examples: "Friday at 8pm" or "2 hours".')
+      .setRequired(true);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('favorite')
+      .setDescription('Favorite ID.')
+      .setRequired(false);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('playlist')
+      .setDescription('Playlist ID.')
+      .setRequired(false);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('interval')
+      .setDescription('Interval to play on repeat. Examples: "1 week" or "24 hours".')
+      .setRequired(false);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('time_zone')
+      .setDescription('Time zone name abbreviation. Examples: "America/New_York" or "EST". Defaults to America/Toronto.')
+      .setRequired(false);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('schedules');
+  subcommand.setDescription('List the scheduled playback for this server.');
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('unschedule');
+  subcommand.setDescription('Delete scheduled playback by its ID.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('The ID of the schedule (use "/player schedules" to find it).')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+
+function parseSleepDuration(durationArg: string): number {
+  // Nobody wants a sleep timer in milliseconds
+  if (/^\d+$/.test(durationArg.trim())) return parseInt(durationArg, 10) * 60 * 1000;
+  try {
+    return parseDelay(durationArg);
+  } catch (err) {
+    throw new Error('Could not parse the duration!');
+  }
+}
+
+async function handleSleep(interaction: ChatInputCommandInteraction) {
+  const { duration, end_of_track: endOfTrack = false } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    duration?: string,
+    end_of_track?: boolean,
+  };
+  const session = sessions.get(interaction.guildId!);
+  if (!session) return interaction.editReply('Bot is not connected to a voice channel.');
+  await checkIsDj(interaction.guildId!, interaction.user.id, 'set a sleep timer');
+  if (!duration && !endOfTrack) {
+    return interaction.editReply('Provide a duration, or use `end_of_track` to leave once the current track is over.');
+  }
+  if (!duration && !session.getCurrentTrack()) return interaction.editReply('Nothing is playing.');
+
+  const durationMs = duration ? parseSleepDuration(duration) : null;
+  session.setSleepTimer(durationMs, endOfTrack);
+  if (durationMs == null) return interaction.editReply('The player will leave once the current track is over.');
+  return interaction.editReply(endOfTrack
+    ? `The player will leave once the track that is playing in ${humanizeDuration(durationMs)} is over.`
+    : `The player will leave in ${humanizeDuration(durationMs)}.`);
+}
+
+async function handleCancelSleep(interaction: ChatInputCommandInteraction) {
+  const session = sessions.get(interaction.guildId!);
+  if (!session) return interaction.editReply('Bot is not connected to a voice channel.');
+  await checkIsDj(interaction.guildId!, interaction.user.id, 'cancel the sleep timer');
+  return interaction.editReply(session.clearSleepTimer() ? 'Cancelled the sleep timer.' : 'There is no sleep timer.');
+}
+
+function getScheduleDescription(schedule: PlayerSchedules): string {
+  const source = schedule.favorite_id ? `favorite \`${schedule.favorite_id}\`` : `playlist \`${schedule.playlist_id}\``;
+  const nextPlayback = getNextPlayback(schedule.id);
+  return [
+    `\`${schedule.id}\`: Play ${source} in <#${schedule.channel_id}>`,
+    schedule.interval ? `every ${humanizeDuration(schedule.interval * 1000)}` : null,
+    `(next: ${getDateString(nextPlayback ? Math.floor(nextPlayback / 1000) : schedule.time)})`,
+  ].filter(Boolean).join(' ');
+}
+
+function getSchedulesEmbed(schedules: PlayerSchedules[]): EmbedBuilder {
+  return new EmbedBuilder({
+    author: {
+      name: '⏰ Scheduled Playback',
+    },
+    description: schedules.map(getScheduleDescription).join('\n') || 'Nothing is scheduled.',
+  }).setColor(Colors.SUCCESS);
+}
+
+async function handleSchedule(interaction: ChatInputCommandInteraction) {
+  const {
+    channel,
+    time: timeArg,
+    favorite: favoriteId,
+    playlist: playlistId,
+    interval: intervalArg,
+    time_zone: timeZone,
+  } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    channel: GuildBasedChannel,
+    time: string,
+    favorite?: string,
+    playlist?: string,
+    interval?: string,
+    time_zone?: string,
+  };
+  const guildId = interaction.guildId!;
+  await checkIsDj(guildId, interaction.user.id, 'schedule playback');
+  if (Boolean(favoriteId) === Boolean(playlistId)) {
+    return interaction.editReply('Provide either a favorite or a playlist to play.');
+  }
+  if (!channel.isVoiceBased()) return interaction.editReply('The channel must be a voice channel.');
+  if (favoriteId && !await getFavorite(favoriteId, guildId)) {
+    return interaction.editReply('Favorite could not be found.');
+  }
+  // Throws if the playlist does not exist
+  if (playlistId) await getPlaylist({ playlistId, guildId });
+
+  let interval: number | null;
+  try {
+    interval = intervalArg ? Math.floor(parseDelay(intervalArg) / 1000) : null;
+  } catch (err) {
+    throw new Error('Could not parse interval!');
+  }
+  if (interval && interval < MIN_PLAYER_SCHEDULE_INTERVAL) {
+    throw new Error(`Minimum interval is ${humanizeDuration(MIN_PLAYER_SCHEDULE_INTERVAL * 1000)}.`);
+  }
+  const time = parseUpcomingTime(timeArg, timeZone);
+  if (time < Date.now() / 1000 && !interval) {
+    return interaction.editReply('You cannot schedule playback in the past.');
+  }
+
+  const schedule = await PlayerSchedules.create({
+    guild_id: guildId,
+    channel_id: channel.id,
+    owner_id: interaction.user.id,
+    favorite_id: favoriteId || null,
+    playlist_id: playlistId || null,
+    time,
+    interval,
+  });
+  setPlayerSchedule(schedule);
+  return interaction.editReply({
+    content: 'Scheduled playback.',
+    embeds: [getSchedulesEmbed([schedule])],
+  });
+}
+
+async function handleSchedules(interaction: ChatInputCommandInteraction) {
+  const schedules = await PlayerSchedules.findAll({
+    where: {
+      guild_id: interaction.guildId!,
+    },
+    order: [['time', 'ASC']],
+  });
+  return interaction.editReply({
+    embeds: [getSchedulesEmbed(schedules)],
+  });
+}
+
+async function handleUnschedule(interaction: ChatInputCommandInteraction) {
+  const { id } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+  };
+  const schedule = await PlayerSchedules.findOne({
+    where: {
+      id,
+      guild_id: interaction.guildId!,
+    },
+  // id is an arbitrary string, and may not conform to the syntax for the id
+  }).catch(() => null);
+  if (!schedule) return interaction.editReply('Schedule does not exist!');
+  if (schedule.owner_id !== interaction.user.id && !interactionHasServerPermission({ interaction, permissions: 'ManageGuild' })) {
+    return interaction.editReply('You cannot delete scheduled playback that you don\'t own.');
+  }
+  await removePlayerSchedule(schedule.id);
+  return interaction.editReply('Deleted the scheduled playback.');
+}
+
+const PlayerCommand: Command = {
+  guildOnly: true,
+  slashCommandData: commandBuilder,
+  runCommand: async interaction => {
+    await interaction.deferReply({
+      ephemeral: true,
+    });
+    const subcommand = getSubcommand(interaction);
+    switch (subcommand) {
+      case 'sleep': {
+        await handleSleep(interaction);
+        break;
+      }
+      case 'cancel-sleep': {
+        await handleCancelSleep(interaction);
+        break;
+      }
+      case 'schedule': {
+        await handleSchedule(interaction);
+        break;
+      }
+      case 'schedules': {
+        await handleSchedules(interaction);
+        break;
+      }
+      case 'unschedule': {
+        await handleUnschedule(interaction);
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  },
+};
+
+export default PlayerCommand;
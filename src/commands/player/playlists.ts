@@ -0,0 +1,615 @@
+import type { AnyInteraction, Command, CommandOrModalRunMethod } from 'src/types';
+import type { FindOptions, InferAttributes } from 'sequelize';
+
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { EmbedBuilder, User } from 'discord.js';
+import chunk from 'lodash.chunk';
+import { Colors, MAX_PLAYLIST_LENGTH } from 'src/constants';
+import { client } from 'src/client';
+import { getSubcommand, parseInput, replyWithEmbeds } from 'src/discord-utils';
+import { PlayerPlaylists, PlayerPlaylist } from 'src/models/player-playlists';
+import { PlayerPlaylistTracks } from 'src/models/player-playlist-tracks';
+import { getClockString } from 'src/utils';
+import sessions from './sessions';
+import Track from './track';
+import { play } from './play';
+import { getVideoDetailsWithFallback } from './utils';
+
+const PLAYLIST_TRACKS_PER_EMBED = 20;
+
+const commandBuilder = new SlashCommandBuilder();
+commandBuilder
+  .setName('playlists')
+  .setDescription('Saved playlists for the player.');
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('create');
+  subcommand.setDescription('Create a playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('name')
+      .setDescription('Name of the playlist.')
+      .setRequired(true);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('custom_id')
+      .setDescription('Custom ID to reference the playlist.')
+      .setRequired(false);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('add-current');
+  subcommand.setDescription('Add the track that is currently playing to a playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('add-queue');
+  subcommand.setDescription('Add every track in the queue to a playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('remove');
+  subcommand.setDescription('Remove a track from a playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(true);
+  });
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('position')
+      .setDescription('Position of the track in the playlist.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('reorder');
+  subcommand.setDescription('Move a track in a playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(true);
+  });
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('current_position')
+      .setDescription('The position of the track.')
+      .setRequired(true);
+  });
+  subcommand.addIntegerOption(option => {
+    return option
+      .setName('new_position')
+      .setDescription('The position to move the track to.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('show');
+  subcommand.setDescription('Shows a specific playlist, or all of them.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(false);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('play');
+  subcommand.setDescription('Play a playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(true);
+  });
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('shuffle')
+      .setDescription('Shuffle the queue.')
+      .setRequired(false);
+  });
+  subcommand.addBooleanOption(option => {
+    return option
+      .setName('front')
+      .setDescription('Push the tracks to the front of the queue.')
+      .setRequired(false);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('delete');
+  subcommand.setDescription('Delete an entire playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('add-collaborator');
+  subcommand.setDescription('Allow someone else to edit the tracks in your playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(true);
+  });
+  subcommand.addUserOption(option => {
+    return option
+      .setName('user')
+      .setDescription('The collaborator.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('remove-collaborator');
+  subcommand.setDescription('Stop someone else from editing the tracks in your playlist.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('id')
+      .setDescription('ID of the playlist (custom or default).')
+      .setRequired(true);
+  });
+  subcommand.addUserOption(option => {
+    return option
+      .setName('user')
+      .setDescription('The collaborator.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+
+export const includeOrderedTracks: FindOptions<InferAttributes<PlayerPlaylists>> = {
+  include: {
+    model: PlayerPlaylistTracks,
+    as: 'tracks',
+  },
+  order: [
+    [{ model: PlayerPlaylistTracks, as: 'tracks' }, 'order', 'ASC'],
+  ],
+};
+
+export async function getPlaylist({
+  playlistId,
+  guildId,
+  options,
+}: {
+  playlistId: string,
+  guildId: string,
+  options?: FindOptions<InferAttributes<PlayerPlaylists>>,
+}): Promise<PlayerPlaylist> {
+  let playlist = await PlayerPlaylists.findOne({
+    where: {
+      guild_id: guildId,
+      custom_id: playlistId,
+    },
+    ...options,
+  });
+  if (!playlist) {
+    playlist = await PlayerPlaylists.findOne({
+      where: {
+        guild_id: guildId,
+        id: playlistId,
+      },
+      ...options,
+    // playlistId is an arbitrary string, and may not conform to the syntax for the id
+    }).catch(() => null);
+  }
+  if (!playlist) throw new Error(`Could not find playlist with ID "${playlistId}"`);
+  return playlist;
+}
+
+export async function getPlaylistTracks(playlistId: string, guildId: string): Promise<Track[]> {
+  const playlist = await getPlaylist({ playlistId, guildId, options: includeOrderedTracks });
+  return (playlist.tracks || []).map(track => new Track({
+    value: track.value,
+    variant: track.variant,
+    sourceLink: track.source_link || undefined,
+    details: track.title ? {
+      title: track.title,
+      duration: track.duration ?? undefined,
+    } : undefined,
+  }));
+}
+
+async function canModerate(guildId: string, userId: string): Promise<boolean> {
+  const guild = await client.guilds.fetch(guildId).catch(() => null);
+  const member = await guild?.members.fetch(userId).catch(() => null);
+  return Boolean(member?.permissions.has('ManageMessages'));
+}
+
+/**
+ * Owners and collaborators can change the tracks in a playlist.
+ */
+export function checkCanEditPlaylist(playlist: PlayerPlaylist, userId: string): void {
+  if (playlist.owner_id !== userId && !playlist.collaborator_ids.includes(userId)) {
+    throw new Error(`You are not a collaborator on the playlist "${playlist.name}"`);
+  }
+}
+
+/**
+ * Only owners can manage collaborators or delete a playlist, but moderators can also delete playlists.
+ */
+export async function checkCanManagePlaylist(playlist: PlayerPlaylist, userId: string, isDeleting = false): Promise<void> {
+  if (playlist.owner_id === userId) return;
+  if (isDeleting && await canModerate(playlist.guild_id, userId)) return;
+  throw new Error(`Only the owner of the playlist "${playlist.name}" can do that`);
+}
+
+/**
+ * Appends tracks to the end of a playlist.
+ */
+export async function addTracksToPlaylist({
+  playlist,
+  tracks,
+  userId,
+}: {
+  playlist: PlayerPlaylist,
+  tracks: Track[],
+  userId: string,
+}): Promise<PlayerPlaylistTracks[]> {
+  checkCanEditPlaylist(playlist, userId);
+  const numExisting = await PlayerPlaylistTracks.count({
+    where: {
+      playlist_id: playlist.id,
+    },
+  });
+  if (numExisting + tracks.length > MAX_PLAYLIST_LENGTH) {
+    throw new Error(`Playlists cannot have more than ${MAX_PLAYLIST_LENGTH} tracks.`);
+  }
+  const maxOrder = await PlayerPlaylistTracks.max<number, PlayerPlaylistTracks>('order', {
+    where: {
+      playlist_id: playlist.id,
+    },
+  });
+  const startOrder = maxOrder == null ? 0 : maxOrder + 1;
+  return PlayerPlaylistTracks.bulkCreate(tracks.map((track, idx) => {
+    const { value, variant, sourceLink, details } = track.getSnapshot();
+    return {
+      playlist_id: playlist.id,
+      order: startOrder + idx,
+      value,
+      variant,
+      source_link: sourceLink ?? null,
+      title: details?.title ?? null,
+      duration: details?.duration ?? null,
+      added_by: userId,
+    };
+  }), { validate: true });
+}
+
+async function getOrderedTracks(playlist: PlayerPlaylist): Promise<PlayerPlaylistTracks[]> {
+  return PlayerPlaylistTracks.findAll({
+    where: {
+      playlist_id: playlist.id,
+    },
+    order: [['order', 'ASC']],
+  });
+}
+
+async function saveOrder(tracks: PlayerPlaylistTracks[]): Promise<void> {
+  await Promise.all(tracks.map((track, idx) => {
+    if (track.order === idx) return null;
+    return track.update({ order: idx });
+  }));
+}
+
+/**
+ * @param idx 0-based index of the track in the playlist
+ */
+export async function removePlaylistTrack({
+  playlist,
+  idx,
+  userId,
+}: {
+  playlist: PlayerPlaylist,
+  idx: number,
+  userId: string,
+}): Promise<PlayerPlaylistTracks> {
+  checkCanEditPlaylist(playlist, userId);
+  const tracks = await getOrderedTracks(playlist);
+  const [removed] = tracks.splice(idx, 1);
+  if (!removed) throw new Error('Could not find track.');
+  await removed.destroy();
+  await saveOrder(tracks);
+  return removed;
+}
+
+/**
+ * @param from 0-based index of the track in the playlist
+ * @param to 0-based index of the new position
+ */
+export async function movePlaylistTrack({
+  playlist,
+  from,
+  to,
+  userId,
+}: {
+  playlist: PlayerPlaylist,
+  from: number,
+  to: number,
+  userId: string,
+}): Promise<PlayerPlaylistTracks> {
+  checkCanEditPlaylist(playlist, userId);
+  const tracks = await getOrderedTracks(playlist);
+  const [moved] = tracks.splice(from, 1);
+  if (!moved) throw new Error('Could not find track.');
+  tracks.splice(to, 0, moved);
+  await saveOrder(tracks);
+  return moved;
+}
+
+function getPlaylistEmbeds(playlist: PlayerPlaylist): EmbedBuilder[] {
+  const { tracks = [] } = playlist;
+  const header = new EmbedBuilder({
+    title: playlist.name,
+    description: [
+      tracks.length === 0
+        ? 'There are no tracks in this playlist'
+        : tracks.length === 1
+          ? `There is ${tracks.length} track in this playlist`
+          : `There are ${tracks.length} tracks in this playlist`,
+      `Owner: <@${playlist.owner_id}>`,
+      playlist.collaborator_ids.length > 0 && `Collaborators: ${playlist.collaborator_ids.map(id => `<@${id}>`).join(', ')}`,
+    ].filter(Boolean).join('\n'),
+    footer: {
+      text: `ID: ${playlist.custom_id || playlist.id}`,
+    },
+  }).setColor(Colors.SUCCESS);
+  const trackEmbeds = chunk(tracks, PLAYLIST_TRACKS_PER_EMBED).map((tracksChunk, chunkIdx) => new EmbedBuilder({
+    description: tracksChunk.map((track, idx) => {
+      const position = chunkIdx * PLAYLIST_TRACKS_PER_EMBED + idx + 1;
+      const duration = track.duration ? ` (${getClockString(track.duration)})` : '';
+      return `#${position}: ${track.title || track.value}${duration}`;
+    }).join('\n'),
+  }));
+  return [header, ...trackEmbeds];
+}
+
+async function handleCreate(interaction: AnyInteraction) {
+  const guildId = interaction.guildId!;
+  const { name, custom_id: customId } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    name: string,
+    custom_id?: string,
+  };
+  const playlist = await PlayerPlaylists.create({
+    guild_id: guildId,
+    owner_id: interaction.user.id,
+    name,
+    custom_id: customId,
+  });
+  return interaction.editReply(`Playlist "${playlist.name}" was created with ID: ${playlist.custom_id || playlist.id}`);
+}
+
+async function handleAddCurrent(interaction: AnyInteraction) {
+  const guildId = interaction.guildId!;
+  const { id } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+  };
+  const currentTrack = sessions.get(guildId)?.getCurrentTrack();
+  if (!currentTrack) return interaction.editReply('Nothing is playing.');
+  const playlist = await getPlaylist({ playlistId: id, guildId });
+  // Fetch the details up front so that the title is stored with the track
+  const { title } = await getVideoDetailsWithFallback(currentTrack);
+  await addTracksToPlaylist({
+    playlist,
+    tracks: [currentTrack],
+    userId: interaction.user.id,
+  });
+  return interaction.editReply(`Added "${title}" to playlist "${playlist.name}"`);
+}
+
+async function handleAddQueue(interaction: AnyInteraction) {
+  const guildId = interaction.guildId!;
+  const { id } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+  };
+  const session = sessions.get(guildId);
+  if (!session) return interaction.editReply('Session does not exist.');
+  if (!session.queue.length) return interaction.editReply('The queue is empty.');
+  const playlist = await getPlaylist({ playlistId: id, guildId });
+  const newTracks = await addTracksToPlaylist({
+    playlist,
+    tracks: session.queue.slice(),
+    userId: interaction.user.id,
+  });
+  return interaction.editReply(`Added ${newTracks.length} tracks to playlist "${playlist.name}"`);
+}
+
+async function handleRemove(interaction: AnyInteraction) {
+  const guildId = interaction.guildId!;
+  const { id, position } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+    position: number,
+  };
+  if (position < 1) return interaction.editReply('Playlist position must be at least 1.');
+  const playlist = await getPlaylist({ playlistId: id, guildId });
+  const removed = await removePlaylistTrack({
+    playlist,
+    idx: position - 1,
+    userId: interaction.user.id,
+  });
+  return interaction.editReply(`Removed "${removed.title || removed.value}" from playlist "${playlist.name}"`);
+}
+
+async function handleReorder(interaction: AnyInteraction) {
+  const guildId = interaction.guildId!;
+  const {
+    id,
+    current_position: currentPosition,
+    new_position: newPosition,
+  } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+    current_position: number,
+    new_position: number,
+  };
+  if (currentPosition < 1 || newPosition < 1) return interaction.editReply('Playlist position must be at least 1.');
+  const playlist = await getPlaylist({ playlistId: id, guildId });
+  const moved = await movePlaylistTrack({
+    playlist,
+    from: currentPosition - 1,
+    to: newPosition - 1,
+    userId: interaction.user.id,
+  });
+  return interaction.editReply(`Moved "${moved.title || moved.value}" to position #${newPosition} in playlist "${playlist.name}"`);
+}
+
+async function handleShow(interaction: AnyInteraction) {
+  const guildId = interaction.guildId!;
+  const { id } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id?: string,
+  };
+  if (id) {
+    const playlist = await getPlaylist({ playlistId: id, guildId, options: includeOrderedTracks });
+    return replyWithEmbeds({
+      interaction,
+      embeds: getPlaylistEmbeds(playlist),
+      ephemeral: true,
+    });
+  }
+  const playlists = await PlayerPlaylists.findAll({
+    where: {
+      guild_id: guildId,
+    },
+    order: [['createdAt', 'ASC']],
+  });
+  const embed = new EmbedBuilder({
+    title: 'Playlists',
+    description: [
+      playlists.length === 0
+        ? 'There are no playlists'
+        : playlists.length === 1
+          ? `There is ${playlists.length} playlist:`
+          : `There are ${playlists.length} playlists:`,
+      ...playlists.map(playlist => `- ${playlist.name} (${playlist.custom_id || playlist.id})`),
+    ].join('\n'),
+  });
+  return interaction.editReply({
+    embeds: [embed],
+  });
+}
+
+async function handlePlay(interaction: AnyInteraction) {
+  const { id, shuffle, front } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+    shuffle?: boolean,
+    front?: boolean,
+  };
+  await play({
+    interaction,
+    inputs: {
+      playlistId: id,
+      shuffle: shuffle ?? false,
+      pushToFront: front ?? false,
+    },
+  });
+}
+
+async function handleDelete(interaction: AnyInteraction) {
+  const guildId = interaction.guildId!;
+  const { id } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+  };
+  const playlist = await getPlaylist({ playlistId: id, guildId });
+  await checkCanManagePlaylist(playlist, interaction.user.id, true);
+  await playlist.destroy();
+  return interaction.editReply(`Playlist "${playlist.name}" was deleted.`);
+}
+
+async function handleCollaborator(interaction: AnyInteraction, shouldAdd: boolean) {
+  const guildId = interaction.guildId!;
+  const { id, user } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    id: string,
+    user: User,
+  };
+  const playlist = await getPlaylist({ playlistId: id, guildId });
+  await checkCanManagePlaylist(playlist, interaction.user.id);
+  const collaboratorIds = playlist.collaborator_ids.filter(userId => userId !== user.id);
+  if (shouldAdd) collaboratorIds.push(user.id);
+  await playlist.update({
+    collaborator_ids: collaboratorIds,
+  });
+  return interaction.editReply(shouldAdd
+    ? `<@${user.id}> can now edit playlist "${playlist.name}"`
+    : `<@${user.id}> can no longer edit playlist "${playlist.name}"`);
+}
+
+const run: CommandOrModalRunMethod = async interaction => {
+  await interaction.deferReply({ ephemeral: true });
+  const subcommand = getSubcommand(interaction);
+  switch (subcommand) {
+    case 'create': {
+      await handleCreate(interaction);
+      break;
+    }
+    case 'add-current': {
+      await handleAddCurrent(interaction);
+      break;
+    }
+    case 'add-queue': {
+      await handleAddQueue(interaction);
+      break;
+    }
+    case 'remove': {
+      await handleRemove(interaction);
+      break;
+    }
+    case 'reorder': {
+      await handleReorder(interaction);
+      break;
+    }
+    case 'show': {
+      await handleShow(interaction);
+      break;
+    }
+    case 'play': {
+      await handlePlay(interaction);
+      break;
+    }
+    case 'delete': {
+      await handleDelete(interaction);
+      break;
+    }
+    case 'add-collaborator': {
+      await handleCollaborator(interaction, true);
+      break;
+    }
+    case 'remove-collaborator': {
+      await handleCollaborator(interaction, false);
+      break;
+    }
+    default: {
+      await interaction.editReply('What??');
+    }
+  }
+};
+
+const PlaylistsCommand: Command = {
+  guildOnly: true,
+  slashCommandData: commandBuilder,
+  runCommand: run,
+  runModal: run,
+};
+
+export default PlaylistsCommand;
@@ -0,0 +1,117 @@
+import pLimit from 'p-limit';
+import { CONCURRENCY_LIMIT, MAX_QUEUE_IMPORT_LENGTH } from 'src/constants';
+import { checkVoiceErrors } from 'src/discord-utils';
+import type Session from './session';
+import sessions from './sessions';
+import Track, { TrackVariant } from './track';
+import { getTrackVariantFromLink } from './play';
+
+export interface ExportedTrack {
+  value: string,
+  variant: TrackVariant,
+  sourceLink: string | undefined,
+  title: string | undefined,
+}
+
+export enum QueueFileFormat {
+  M3U = 'm3u',
+  JSON = 'json',
+}
+
+/**
+ * Includes the current track, so that the queue can be picked up from where it left off.
+ */
+export async function exportQueue(session: Session): Promise<ExportedTrack[]> {
+  const currentTrack = session.getCurrentTrack();
+  const tracks = currentTrack ? [currentTrack].concat(session.queue) : session.queue;
+  const limit = pLimit(CONCURRENCY_LIMIT);
+  return Promise.all(tracks.map(track => limit(async () => ({
+    value: track.value,
+    variant: track.variant,
+    sourceLink: track.sourceLink,
+    title: (await track.getVideoDetails().catch(() => null))?.title,
+  }))));
+}
+
+/**
+ * https://en.wikipedia.org/wiki/M3U#Extended_M3U
+ * Text-to-speech tracks are left out, since their values are not links.
+ */
+export function getM3u(tracks: ExportedTrack[]): string {
+  return ['#EXTM3U'].concat(tracks
+    .filter(track => track.variant !== TrackVariant.TEXT)
+    .flatMap(track => [`#EXTINF:-1,${track.title || track.value}`, track.value]))
+    .join('\n');
+}
+
+function parseM3u(content: string): Pick<ExportedTrack, 'value'>[] {
+  return content.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(value => ({ value }));
+}
+
+function parseJson(content: string): Partial<ExportedTrack>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(data)) throw new Error('The JSON file must contain an array of tracks.');
+  return data.map(entry => (entry && typeof entry === 'object' ? entry : {}));
+}
+
+/**
+ * Every entry is validated with the same link detection that is used by /play.
+ * Entries which are not links to a single track (e.g. text-to-speech or Spotify links) are considered invalid.
+ */
+export function parseQueueFile(content: string): { tracks: Track[], numInvalid: number } {
+  const trimmedContent = content.trim();
+  const entries: Partial<ExportedTrack>[] = trimmedContent.startsWith('[') ? parseJson(trimmedContent) : parseM3u(trimmedContent);
+  if (entries.length > MAX_QUEUE_IMPORT_LENGTH) {
+    throw new Error(`Queues can only be imported with up to ${MAX_QUEUE_IMPORT_LENGTH} tracks.`);
+  }
+  const tracks = entries.reduce((acc, entry) => {
+    const variant = typeof entry.value === 'string' ? getTrackVariantFromLink(entry.value) : null;
+    if (variant == null) return acc;
+    acc.push(new Track({
+      value: entry.value!,
+      // Livestreams have the same links as videos, so the exported variant is trusted for those
+      variant: variant === TrackVariant.YOUTUBE_VOD && entry.variant === TrackVariant.YOUTUBE_LIVESTREAM
+        ? TrackVariant.YOUTUBE_LIVESTREAM
+        : variant,
+      sourceLink: typeof entry.sourceLink === 'string' ? entry.sourceLink : undefined,
+    }));
+    return acc;
+  }, [] as Track[]);
+  return {
+    tracks,
+    numInvalid: entries.length - tracks.length,
+  };
+}
+
+export async function importQueue({
+  guildId,
+  userId,
+  content,
+}: {
+  guildId: string,
+  userId: string,
+  content: string,
+}): Promise<{ numQueued: number, numInvalid: number, numDropped: number }> {
+  const { tracks, numInvalid } = parseQueueFile(content);
+  if (!tracks.length) throw new Error('The file does not contain any tracks that can be played.');
+
+  const channel = await checkVoiceErrors({ userId, guildId });
+  const session = sessions.get(guildId) || await sessions.create(channel);
+  tracks.forEach(track => {
+    track.requesterId = userId;
+  });
+  const enqueuedTracks = await session.enqueue(tracks);
+  return {
+    numQueued: enqueuedTracks.length,
+    numInvalid,
+    numDropped: tracks.length - enqueuedTracks.length,
+  };
+}
@@ -1,11 +1,18 @@
 import type { AnyInteraction, Command, CommandOrModalRunMethod, EmbedFields, IntentionalAny } from 'src/types';
 import { SlashCommandBuilder } from '@discordjs/builders';
+import axios from 'axios';
+import { Attachment, AttachmentBuilder, ButtonStyle, EmbedBuilder } from 'discord.js';
 import pLimit from 'p-limit';
 import { ContextMenuTypes } from 'src/types';
-import { CONCURRENCY_LIMIT, QUEUE_SNIPPET_LENGTH } from 'src/constants';
-import { checkVoiceErrorsByInteraction, getSubcommand, parseInput } from 'src/discord-utils';
+import { Colors, CONCURRENCY_LIMIT, MAX_QUEUE_IMPORT_FILE_SIZE, PLAYER_HISTORY_PAGE_SIZE, QUEUE_PAGE_SIZE } from 'src/constants';
+import { checkVoiceErrorsByInteraction, getSubcommand, parseInput, replyWithPages } from 'src/discord-utils';
+import { filterOutFalsy, getClockString } from 'src/utils';
 import type Session from './session';
+import type Track from './track';
 import sessions from './sessions';
+import { getHistory, replayHistoryEntry } from './history';
+import { checkCanManageTrack, checkIsDj } from './dj';
+import { exportQueue, getM3u, importQueue } from './queue-files';
 import { replyWithSessionButtons, attachPlayerButtons, getVideoDetailsWithFallback, getTrackDurationAndSpeedFromSession } from './utils';
 
 const commandBuilder = new SlashCommandBuilder();
@@ -66,46 +73,104 @@ commandBuilder.addSubcommand(subcommand => {
   subcommand.setDescription('Clear the entire queue.');
   return subcommand;
 });
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('history');
+  subcommand.setDescription('List recently played tracks.');
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('export');
+  subcommand.setDescription('Export the queue as M3U and JSON files.');
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('import');
+  subcommand.setDescription('Add the tracks from an exported queue (M3U or JSON) to the queue.');
+  subcommand.addAttachmentOption(option => {
+    return option
+      .setName('file')
+      .setDescription('M3U or JSON file.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
 
-export async function handleList(interaction: AnyInteraction, session: Session): Promise<IntentionalAny> {
-  await replyWithSessionButtons({
+/**
+ * Approximates how long it will take for the queue to run out, including the rest of the current track.
+ * The queue loop is not included, since it repeats indefinitely.
+ */
+export async function getRemainingQueueDuration(session: Session): Promise<{ durationMs: number, numUnknown: number }> {
+  const limit = pLimit(CONCURRENCY_LIMIT);
+  const getDuration = (track: Track) => limit(() => track.getVideoDetails().then(details => details.duration ?? null, () => null));
+  const currentTrack = session.getCurrentTrack();
+  const [currentTrackDuration, durations] = await Promise.all([
+    currentTrack ? getDuration(currentTrack) : null,
+    Promise.all(session.queue.map(getDuration)),
+  ]);
+  const currentTrackRemainingMs = currentTrackDuration ? Math.max(0, currentTrackDuration - session.getCurrentTrackPlayTime()) : 0;
+  const durationMs = durations.reduce((sum: number, duration) => sum + (duration ?? 0), currentTrackRemainingMs);
+  return {
+    durationMs: durationMs / session.getPlaybackSpeed(),
+    numUnknown: durations.filter(duration => duration == null).length,
+  };
+}
+
+/**
+ * @param isFollowUp Whether the queue should be sent as a new message (e.g. from the "Show Queue" button)
+ */
+export async function handleList(interaction: AnyInteraction, isFollowUp = false): Promise<IntentionalAny> {
+  // This is a guild-only command
+  const guildId = interaction.guildId!;
+  await replyWithPages({
     interaction,
-    run: async s => {
-      const currentTrack = s.getCurrentTrack();
-      if (!currentTrack) {
+    isFollowUp,
+    getPage: async pageIdx => {
+      // The session is fetched every time, since it may have ended while the queue was being browsed
+      const session = sessions.get(guildId);
+      const currentTrack = session?.getCurrentTrack();
+      if (!session || !currentTrack) {
         return {
-          description: 'Nothing is playing',
-          hideButtons: true,
+          data: {
+            content: session ? 'Nothing is playing.' : 'Session does not exist.',
+            embeds: [],
+          },
+          numPages: 0,
         };
       }
-      const combinedQueue = s.isLooped() ? s.queue.concat(s.queueLoop) : s.queue;
-      type QueueSnippet = {
-        title: string,
-        position: number,
-      }[];
+      const combinedQueue = session.getCombinedQueue();
+      const offset = pageIdx * QUEUE_PAGE_SIZE;
+      const pageTracks = combinedQueue.slice(offset, offset + QUEUE_PAGE_SIZE);
       // Concurrency limit can be used if there is audio hitching while making requests.
       // This was an issue in older implementations, but not anymore, which is why the limit is currently at 10.
       const limit = pLimit(CONCURRENCY_LIMIT);
-      const queueSnippet = (await Promise.all(combinedQueue
-        .slice(0, QUEUE_SNIPPET_LENGTH)
-        .map((track, idx) => limit(async () => {
-          try {
-            const details = await getVideoDetailsWithFallback(track);
-            return {
-              title: details.title,
-              position: idx + 1,
-            };
-          } catch {
-            return null;
-          }
-        })))).filter(Boolean) as QueueSnippet;
-      const nowPlayingTitle = (await getVideoDetailsWithFallback(currentTrack)).title;
-      const totalQueued = s.isLooped() ? s.queueLoop.length : s.queue.length;
+      const [pageDetails, nowPlayingDetails, remainingDuration, footerText] = await Promise.all([
+        Promise.all(pageTracks.map(track => limit(() => getVideoDetailsWithFallback(track)))),
+        getVideoDetailsWithFallback(currentTrack),
+        getRemainingQueueDuration(session),
+        getTrackDurationAndSpeedFromSession(session),
+      ]);
+      const getRequesterText = (requesterId: string | undefined) => (requesterId ? ` (<@${requesterId}>)` : '');
+      const entries = pageTracks.map((track, idx) => {
+        const position = offset + idx + 1;
+        const { title, duration } = pageDetails[idx];
+        return {
+          track,
+          title,
+          position,
+          // Tracks past the end of the queue are from the next iteration of the queue loop
+          isFromLoop: offset + idx >= session.queue.length,
+          text: [
+            `#${position}: ${title}`,
+            duration ? ` (${getClockString(duration)})` : '',
+            getRequesterText(track.requesterId),
+          ].join(''),
+        };
+      });
 
       const fields: EmbedFields = [
         {
           name: '🔊 Now Playing',
-          value: nowPlayingTitle,
+          value: `${nowPlayingDetails.title}${getRequesterText(currentTrack.requesterId)}`,
           inline: false,
         },
         {
@@ -118,25 +183,84 @@ export async function handleList(interaction: AnyInteraction, session: Session):
           value: session.isShuffled() ? 'Yes' : 'No',
           inline: true,
         },
-      ];
-
-      if (queueSnippet.length > 0) {
-        fields.push({
+        {
           name: 'Length of Queue',
-          value: String(totalQueued),
+          value: String(session.queue.length),
           inline: true,
-        }, {
-          name: 'Queue (max 10 are shown)',
-          value: queueSnippet.map(details => `#${details.position}: ${details.title}`).join('\n'),
-          inline: false,
-        });
-      }
+        },
+        {
+          name: 'Remaining Duration',
+          value: `${getClockString(remainingDuration.durationMs)}${
+            remainingDuration.numUnknown ? ` (+${remainingDuration.numUnknown} tracks of unknown length)` : ''
+          }`,
+          inline: true,
+        },
+      ];
+      const loopStartIdx = entries.findIndex(entry => entry.isFromLoop);
+      const queueText = entries.map((entry, idx) => (idx === loopStartIdx ? `**Queue loop**\n${entry.text}` : entry.text)).join('\n');
 
-      const footerText = await getTrackDurationAndSpeedFromSession(session);
-      return {
+      const embed = new EmbedBuilder({
+        author: {
+          name: '🎵 Queue List 🎵',
+        },
+        description: queueText || 'The queue is empty.',
         fields,
-        title: '🎵 Queue List 🎵',
-        footerText,
+        footer: footerText ? {
+          text: footerText,
+        } : undefined,
+      }).setColor(Colors.SUCCESS);
+
+      // Only tracks in the queue itself can be acted on (not copies of them in the queue loop)
+      const options = entries.filter(entry => !entry.isFromLoop).map(entry => ({
+        label: `#${entry.position}: ${entry.title}`,
+        value: entry.track.id,
+      }));
+      const getQueueIdx = (trackId: string) => {
+        const idx = session.queue.findIndex(track => track.id === trackId);
+        if (idx < 0) throw new Error('Could not find track.');
+        return idx;
+      };
+      return {
+        data: {
+          content: '',
+          embeds: [embed],
+        },
+        numPages: Math.max(1, Math.ceil(combinedQueue.length / QUEUE_PAGE_SIZE)),
+        selectMenus: [
+          {
+            id: 'queue-jump',
+            placeholder: 'Jump to a track',
+            options,
+            cb: async (trackId, i) => {
+              await checkVoiceErrorsByInteraction(i);
+              const idx = getQueueIdx(trackId);
+              await checkIsDj(guildId, i.user.id, 'play a track immediately');
+              await session.jumpTo(idx);
+            },
+          },
+          {
+            id: 'queue-remove',
+            placeholder: 'Remove a track',
+            options,
+            cb: async (trackId, i) => {
+              await checkVoiceErrorsByInteraction(i);
+              const idx = getQueueIdx(trackId);
+              await checkCanManageTrack(guildId, i.user.id, session.queue[idx]);
+              session.remove(idx);
+            },
+          },
+          {
+            id: 'queue-move-to-front',
+            placeholder: 'Move a track to the front of the queue',
+            options,
+            cb: async (trackId, i) => {
+              await checkVoiceErrorsByInteraction(i);
+              const idx = getQueueIdx(trackId);
+              await checkCanManageTrack(guildId, i.user.id, session.queue[idx]);
+              session.move(idx, 0);
+            },
+          },
+        ],
       };
     },
   });
@@ -158,6 +282,7 @@ async function handleLoop(interaction: AnyInteraction, session: Session): Promis
 }
 
 async function handleShuffle(interaction: AnyInteraction, session: Session): Promise<IntentionalAny> {
+  await checkIsDj(interaction.guildId!, interaction.user.id, 'shuffle the queue');
   session.shuffle();
   await interaction.editReply('Queue shuffled.');
   attachPlayerButtons(interaction, session);
@@ -167,6 +292,7 @@ async function handleRemove(interaction: AnyInteraction, session: Session): Prom
   const inputs = await parseInput({ slashCommandData: commandBuilder, interaction });
   const position: number = inputs.position;
   if (position < 1) return interaction.editReply('Queue position must be at least 1.');
+  await checkCanManageTrack(interaction.guildId!, interaction.user.id, session.queue[position - 1]);
   const removedTrack = session.remove(position - 1);
   if (!removedTrack) return interaction.editReply('Could not find track.');
   try {
@@ -184,6 +310,7 @@ async function handleMove(interaction: AnyInteraction, session: Session): Promis
   const currentPosition: number = inputs.current_position;
   const newPosition: number = inputs.new_position;
   if (currentPosition < 1 || newPosition < 1) return interaction.editReply('Queue position must be at least 1.');
+  await checkCanManageTrack(interaction.guildId!, interaction.user.id, session.queue[currentPosition - 1]);
   const movedTrack = session.move(currentPosition - 1, newPosition - 1);
   if (!movedTrack) return interaction.editReply('Could not find track.');
   try {
@@ -197,14 +324,109 @@ async function handleMove(interaction: AnyInteraction, session: Session): Promis
 }
 
 async function handleClear(interaction: AnyInteraction, session: Session): Promise<IntentionalAny> {
+  await checkIsDj(interaction.guildId!, interaction.user.id, 'clear the queue');
   session.clear();
   await interaction.editReply('Queue cleared.');
   attachPlayerButtons(interaction, session);
 }
 
+async function handleHistory(interaction: AnyInteraction): Promise<IntentionalAny> {
+  // This is a guild-only command
+  const guildId = interaction.guildId!;
+  await replyWithPages({
+    interaction,
+    getPage: async pageIdx => {
+      const offset = pageIdx * PLAYER_HISTORY_PAGE_SIZE;
+      const { entries, total } = await getHistory({
+        guildId,
+        offset,
+        limit: PLAYER_HISTORY_PAGE_SIZE,
+      });
+      const embed = new EmbedBuilder({
+        author: {
+          name: '🕘 Recently Played',
+        },
+        description: entries.length
+          ? entries.map((entry, idx) => {
+            const startedAt = Math.floor(entry.started_at.getTime() / 1000);
+            return [
+              `#${offset + idx + 1}: ${entry.title || entry.value}`,
+              entry.duration ? ` (${getClockString(entry.duration)})` : '',
+              `\n<t:${startedAt}:R>`,
+              entry.user_id ? ` requested by <@${entry.user_id}>` : '',
+              entry.was_skipped ? ' (skipped)' : '',
+            ].join('');
+          }).join('\n')
+          : 'Nothing has been played yet.',
+      }).setColor(Colors.SUCCESS);
+      return {
+        data: {
+          embeds: [embed],
+        },
+        numPages: Math.ceil(total / PLAYER_HISTORY_PAGE_SIZE),
+        buttons: entries.map((entry, idx) => ({
+          id: entry.id,
+          label: `Replay #${offset + idx + 1}`,
+          style: ButtonStyle.Primary,
+          cb: async i => {
+            await replayHistoryEntry({ entry, userId: i.user.id });
+            await i.followUp({
+              ephemeral: true,
+              content: `Queued: ${entry.title || entry.value}`,
+            });
+          },
+        })),
+      };
+    },
+  });
+}
+
+async function handleExport(interaction: AnyInteraction, session: Session): Promise<IntentionalAny> {
+  const tracks = await exportQueue(session);
+  if (!tracks.length) return interaction.editReply('The queue is empty.');
+  return interaction.editReply({
+    content: `Exported ${tracks.length} tracks.`,
+    files: [
+      new AttachmentBuilder(Buffer.from(getM3u(tracks)), { name: 'queue.m3u' }),
+      new AttachmentBuilder(Buffer.from(JSON.stringify(tracks, null, 2)), { name: 'queue.json' }),
+    ],
+  });
+}
+
+async function handleImport(interaction: AnyInteraction): Promise<IntentionalAny> {
+  const inputs = await parseInput({ slashCommandData: commandBuilder, interaction });
+  const file: Attachment = inputs.file;
+  if (file.size > MAX_QUEUE_IMPORT_FILE_SIZE) {
+    return interaction.editReply(`The file must be smaller than ${MAX_QUEUE_IMPORT_FILE_SIZE / 1024} KB.`);
+  }
+  const res = await axios.get(file.url, { responseType: 'text' });
+  const { numQueued, numInvalid, numDropped } = await importQueue({
+    // This is a guild-only command
+    guildId: interaction.guildId!,
+    userId: interaction.user.id,
+    content: String(res.data),
+  });
+  return interaction.editReply(filterOutFalsy([
+    `Queued ${numQueued} tracks.`,
+    numInvalid > 0 && `${numInvalid} entries were skipped because they are not links to tracks that can be played.`,
+    numDropped > 0 && `${numDropped} track(s) were not queued because of the queue limits.`,
+  ]).join('\n'));
+}
+
 const run: CommandOrModalRunMethod = async interaction => {
   await interaction.deferReply({ ephemeral: true });
 
+  // The history does not depend on there being an active session
+  if (getSubcommand(interaction) === 'history') {
+    await handleHistory(interaction);
+    return;
+  }
+  // Importing will create a session if there isn't one already
+  if (getSubcommand(interaction) === 'import') {
+    await handleImport(interaction);
+    return;
+  }
+
   // This is a guild-only command
   const guild = interaction.guild!;
   const session = sessions.get(guild.id);
@@ -227,7 +449,7 @@ const run: CommandOrModalRunMethod = async interaction => {
   }
   switch (subcommand) {
     case 'list': {
-      await handleList(interaction, session);
+      await handleList(interaction);
       break;
     }
     case 'loop': {
@@ -250,6 +472,10 @@ const run: CommandOrModalRunMethod = async interaction => {
       await handleClear(interaction, session);
       break;
     }
+    case 'export': {
+      await handleExport(interaction, session);
+      break;
+    }
     default: {
       await interaction.editReply('What??');
     }
@@ -275,7 +501,7 @@ const QueueCommand: Command = {
       await interaction.editReply('Session does not exist.');
       return;
     }
-    await handleList(interaction, session);
+    await handleList(interaction);
   },
 };
 
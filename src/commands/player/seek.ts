@@ -1,10 +1,11 @@
 import type { Command, CommandOrModalRunMethod } from 'src/types';
 
 import { SlashCommandBuilder } from '@discordjs/builders';
-import { getSecondsFromClockString } from 'src/utils';
+import { getClockString, getSecondsFromClockString } from 'src/utils';
 import { checkVoiceErrorsByInteraction, parseInput } from 'src/discord-utils';
 import sessions from './sessions';
 import { attachPlayerButtons } from './utils';
+import type { Chapter } from './types';
 
 const commandBuilder = new SlashCommandBuilder()
   .setName('seek')
@@ -17,12 +18,28 @@ const commandBuilder = new SlashCommandBuilder()
     .setRequired(false))
   .addStringOption(option => option.setName('fast-forward')
     .setDescription('In seconds, or a string of the form xx:xx:xx')
+    .setRequired(false))
+  .addStringOption(option => option.setName('chapter')
+    .setDescription('Name of a chapter in the current video')
+    .setAutocomplete(true)
     .setRequired(false));
 
+// Discord only allows 25 autocomplete choices
+const maxChapterChoices = 25;
+
 function getNumSeconds(input: string): number {
   return Number.isNaN(Number(input)) ? getSecondsFromClockString(input) : Number(input);
 }
 
+/**
+ * @param input The index of the chapter (from the autocomplete), or part of its title (if typed out, e.g. in the modal)
+ */
+function findChapter(chapters: Chapter[], input: string): Chapter | undefined {
+  if (/^\d+$/.test(input) && chapters[Number(input)]) return chapters[Number(input)];
+  const lowerCaseInput = input.toLowerCase();
+  return chapters.find(chapter => chapter.title.toLowerCase().includes(lowerCaseInput));
+}
+
 const run: CommandOrModalRunMethod = async interaction => {
   await interaction.deferReply({
     ephemeral: true,
@@ -38,12 +55,27 @@ const run: CommandOrModalRunMethod = async interaction => {
   const timestamp: string | undefined = inputs.timestamp;
   const rewind: string | undefined = inputs.rewind;
   const fastForward: string | undefined = inputs['fast-forward'];
+  const chapterInput: string | undefined = inputs.chapter;
 
   const timestampSeconds = timestamp ? getNumSeconds(timestamp) : null;
   const rewindSeconds = rewind ? getNumSeconds(rewind) : null;
   const fastForwardSeconds = fastForward ? getNumSeconds(fastForward) : null;
 
-  if (timestampSeconds != null) {
+  if (chapterInput) {
+    const { chapters } = await session.getChapters();
+    if (!chapters.length) {
+      await interaction.editReply('The current track does not have chapters.');
+      return;
+    }
+    const chapter = findChapter(chapters, chapterInput);
+    if (!chapter) {
+      await interaction.editReply('Could not find that chapter.');
+      return;
+    }
+    await session.seek(Math.floor(chapter.startMs / 1000));
+    await interaction.editReply(`Seeking to ${chapter.title} (${getClockString(chapter.startMs, 2)}).`);
+    attachPlayerButtons(interaction, session);
+  } else if (timestampSeconds != null) {
     await session.seek(timestampSeconds);
     await interaction.editReply(`Seeking to ${timestampSeconds} seconds.`);
     attachPlayerButtons(interaction, session);
@@ -68,17 +100,38 @@ const SeekCommand: Command = {
   runCommand: run,
   runModal: run,
   showModalWithNoArgs: true,
+  runAutocomplete: async interaction => {
+    const focusedOption = interaction.options.getFocused(true);
+    const session = interaction.guildId ? sessions.get(interaction.guildId) : null;
+    if (focusedOption.name !== 'chapter' || !session) {
+      await interaction.respond([]);
+      return;
+    }
+    const { chapters } = await session.getChapters();
+    const lowerCaseQuery = focusedOption.value.toLowerCase();
+    const choices = chapters
+      .map((chapter, idx) => ({
+        // Choice names can be at most 100 characters
+        name: `${getClockString(chapter.startMs, 2)} ${chapter.title}`.slice(0, 100),
+        value: String(idx),
+      }))
+      .filter(choice => choice.name.toLowerCase().includes(lowerCaseQuery))
+      .slice(0, maxChapterChoices);
+    await interaction.respond(choices);
+  },
   modalLabels: {
     timestamp: 'Time in video',
     rewind: 'Rewind',
     // eslint-disable-next-line @typescript-eslint/naming-convention
     'fast-forward': 'Fast Forward',
+    chapter: 'Chapter',
   },
   modalPlaceholders: {
     timestamp: 'In seconds, or a string of the form xx:xx:xx',
     rewind: 'In seconds, or a string of the form xx:xx:xx',
     // eslint-disable-next-line @typescript-eslint/naming-convention
     'fast-forward': 'In seconds, or a string of the form xx:xx:xx',
+    chapter: 'Part of the chapter name',
   },
 };
 
@@ -1,5 +1,6 @@
 import {
   AudioPlayer,
+  AudioResource,
   createAudioPlayer,
   entersState,
   VoiceConnectionStatus,
@@ -12,20 +13,72 @@ import {
 import type { VoiceBasedChannel, VoiceState } from 'discord.js';
 
 import { promisify } from 'util';
+import debounce from 'lodash.debounce';
+import pLimit from 'p-limit';
 
-import { QUEUE_SNIPPET_LENGTH } from 'src/constants';
+import {
+  CONCURRENCY_LIMIT,
+  DEFAULT_PLAYER_ALONE_TIMEOUT_MINUTES,
+  DEFAULT_PLAYER_IDLE_TIMEOUT_MINUTES,
+  PLAYER_PREBUFFER_TIME,
+  PLAYER_SESSION_SAVE_DEBOUNCE,
+  PLAYER_SESSION_SAVE_INTERVAL,
+  PLAYER_TRANSITION_CHECK_INTERVAL,
+  QUEUE_SNIPPET_LENGTH,
+} from 'src/constants';
 import { client } from 'src/client';
 import { PlayerSettings } from 'src/models/player-settings';
+import { PlayerSessions } from 'src/models/player-sessions';
+import type { PlayerHistory } from 'src/models/player-history';
 import { log, error } from 'src/logging';
-import { shuffleArray } from 'src/utils';
+import { filterOutFalsy, shuffleArray } from 'src/utils';
 import { getChannel, isText } from 'src/discord-utils';
 import { emit } from 'src/api/sockets';
 import { SocketEventTypes } from 'src/types/sockets';
 import sessions from './sessions';
-import Track, { AudioResourceOptions } from './track';
+import broadcasts from './broadcasts';
+import Track, { AudioResourceOptions, TrackSnapshot, TrackVariant } from './track';
+import { AudioFilters, getAudioFiltersSpeed } from './audio-filters';
 import { getMessageData, listenForPlayerButtons } from './utils';
 import { runNowPlaying } from './now-playing';
-import { PlayerStatus, TrackData, CurrentTrackPlayTime } from './types';
+import { recordTrackEnded, recordTrackStarted } from './history';
+import { getAutoplayTrack } from './autoplay';
+import { createAnnouncementTrack } from './text-to-speech';
+import { getChapterIndex } from './chapters';
+import {
+  Chapter,
+  PlayerStatus,
+  TrackData,
+  CurrentTrackPlayTime,
+  SkipVoteTally,
+} from './types';
+
+interface PrebufferedResource {
+  track: Track,
+  resource: Promise<AudioResource>,
+  // The audio resource options that the resource was created with, since it cannot be used if they have changed since
+  optionsKey: string,
+  isReady: boolean,
+}
+
+/**
+ * Something that plays in place of the current track (e.g. text-to-speech), after which the current track continues.
+ */
+interface Interruption {
+  // The audio resource to continue with, if it was already loaded. Otherwise, the current track is resumed by seeking.
+  resource: AudioResource | null,
+  seekMs: number,
+}
+
+interface SleepTimer {
+  timeout: ReturnType<typeof setTimeout> | null,
+  // Null if the player should leave as soon as the current track is over
+  endsAt: number | null,
+  // Whether the current track should finish playing before leaving once the time is up
+  waitForTrack: boolean,
+  // Whether the player should leave as soon as the current track is over
+  hasRunOut: boolean,
+}
 
 // https://github.com/discordjs/voice/blob/f1869a9af5a44ec9a4f52c2dd282352b1521427d/examples/music-bot/src/music/subscription.ts
 export default class Session {
@@ -39,8 +92,34 @@ export default class Session {
   private queueLock = false;
   private readyLock = false;
   private playbackSpeed = 1;
+  private filters: AudioFilters = {};
   // Store this redundantly to avoid the need to fetch it from the database every time a new track starts
   private shouldNormalizeAudio = false;
+  // Also stored redundantly, as a percentage of listeners
+  private skipVoteThreshold: number;
+  // Also stored redundantly. 0 to play tracks back to back without fading between them.
+  private crossfadeMs: number;
+  // The next track's audio resource, which is loaded before the current track ends so that there is no gap between them
+  private prebuffered: PrebufferedResource | null = null;
+  private readonly transitionInterval: ReturnType<typeof setInterval>;
+  private interruption: Interruption | null = null;
+  // IDs of users who voted to skip the current track
+  private readonly skipVotes = new Set<string>();
+  // Position to start the next track at, which is used when restoring a persisted session
+  private pendingSeekMs: number | null = null;
+  private isPersistenceStopped = false;
+  private readonly persistInterval: ReturnType<typeof setInterval>;
+  private readonly debouncedPersist = debounce(() => this.persist(), PLAYER_SESSION_SAVE_DEBOUNCE);
+  // For leaving the voice channel automatically
+  private aloneTimeout: ReturnType<typeof setTimeout> | null = null;
+  private idleTimeout: ReturnType<typeof setTimeout> | null = null;
+  private sleepTimer: SleepTimer | null = null;
+  // Whether the player was paused because everyone left, so that it can resume when someone rejoins
+  private wasAutoPaused = false;
+  // Play history entry for the current track, which is completed once the track ends
+  private historyEntry: Promise<PlayerHistory | null> | null = null;
+  // The session whose audio is relayed into this session's voice channel, while this session follows a broadcast
+  private broadcastController: Session | null = null;
 
   // DiscordJS does not provide this for us, so we manually keep track of an approximate duration in the current track
   private currentTrackPlayTime: CurrentTrackPlayTime = {
@@ -51,7 +130,15 @@ export default class Session {
     speed: 1,
   };
 
-  public constructor(channel: VoiceBasedChannel, shouldNormalizeAudio: boolean) {
+  public constructor(channel: VoiceBasedChannel, {
+    shouldNormalizeAudio,
+    skipVoteThreshold,
+    crossfadeSeconds,
+  }: {
+    shouldNormalizeAudio: boolean,
+    skipVoteThreshold: number,
+    crossfadeSeconds: number,
+  }) {
     const voiceConnection = joinVoiceChannel({
       channelId: channel.id,
       guildId: channel.guild.id,
@@ -59,6 +146,8 @@ export default class Session {
     });
 
     this.shouldNormalizeAudio = shouldNormalizeAudio;
+    this.skipVoteThreshold = skipVoteThreshold;
+    this.crossfadeMs = crossfadeSeconds * 1000;
     this.channelId = channel.id;
     this.guildId = channel.guild.id;
     this.audioPlayer = createAudioPlayer();
@@ -131,7 +220,11 @@ export default class Session {
     this.audioPlayer.on('stateChange', (oldState, newState) => {
       if (newState.status === AudioPlayerStatus.Idle && oldState.status !== AudioPlayerStatus.Idle) {
         // If the Idle state is entered from a non-Idle state, it means that an audio resource has finished playing.
-        this.processQueue();
+        if (this.interruption) {
+          this.endInterruption().catch(error);
+        } else {
+          this.processQueue();
+        }
       }
     });
 
@@ -142,15 +235,194 @@ export default class Session {
     // Bind this function to the class context
     this.handleVoiceStateChange = this.handleVoiceStateChange.bind(this);
     client.on('voiceStateUpdate', this.handleVoiceStateChange);
+
+    // Periodically save the session so the position in the current track is reasonably up-to-date if the bot crashes
+    this.persistInterval = setInterval(() => {
+      if (this.currentTrack && !this.isPaused()) this.debouncedPersist();
+    }, PLAYER_SESSION_SAVE_INTERVAL);
+
+    this.transitionInterval = setInterval(() => {
+      this.prepareTransition().catch(error);
+    }, PLAYER_TRANSITION_CHECK_INTERVAL);
+
+    // In case nothing is ever queued (e.g. after connecting)
+    this.startIdleTimeout().catch(error);
   }
 
   private handleVoiceStateChange(oldState: VoiceState, newState: VoiceState): void {
     if (newState.id === client.user?.id && newState.channelId) {
       this.channelId = newState.channelId;
+      this.debouncedPersist();
+    }
+    if (newState.guild.id === this.guildId
+      && (oldState.channelId === this.channelId || newState.channelId === this.channelId)) {
+      this.handleListenersChange().catch(error);
+    }
+  }
+
+  /**
+   * Pauses and eventually leaves when nobody is listening, and resumes when someone rejoins.
+   */
+  private async handleListenersChange(): Promise<void> {
+    if (this.getListenerIds().length > 0) {
+      if (this.aloneTimeout) clearTimeout(this.aloneTimeout);
+      this.aloneTimeout = null;
+      if (this.wasAutoPaused) {
+        this.wasAutoPaused = false;
+        this.resume();
+      }
+      return;
+    }
+    // Followers of a broadcast may still be listening
+    if (broadcasts.getFollowers(this.guildId).length) return;
+    if (this.currentTrack && !this.isPaused()) {
+      this.wasAutoPaused = this.pause();
+    }
+    if (this.aloneTimeout) return;
+    const playerSettings = await PlayerSettings.findByPk(this.guildId);
+    const timeoutMinutes = playerSettings?.alone_timeout_minutes ?? DEFAULT_PLAYER_ALONE_TIMEOUT_MINUTES;
+    // Someone may have rejoined while fetching the settings
+    if (!timeoutMinutes || this.aloneTimeout || this.getListenerIds().length > 0) return;
+    this.aloneTimeout = setTimeout(() => {
+      this.leave(`Left <#${this.channelId}> since nobody was listening for ${timeoutMinutes} minute(s).`);
+    }, timeoutMinutes * 60 * 1000);
+  }
+
+  private async startIdleTimeout(): Promise<void> {
+    if (this.idleTimeout) return;
+    const playerSettings = await PlayerSettings.findByPk(this.guildId);
+    const timeoutMinutes = playerSettings?.idle_timeout_minutes ?? DEFAULT_PLAYER_IDLE_TIMEOUT_MINUTES;
+    // Something may have been queued (or a broadcast may have been joined) while fetching the settings
+    if (!timeoutMinutes || this.idleTimeout || this.currentTrack || this.queue.length || this.broadcastController) return;
+    this.idleTimeout = setTimeout(() => {
+      this.leave(`Left <#${this.channelId}> since nothing was played for ${timeoutMinutes} minute(s).`);
+    }, timeoutMinutes * 60 * 1000);
+  }
+
+  private clearTimeouts(): void {
+    if (this.aloneTimeout) clearTimeout(this.aloneTimeout);
+    if (this.idleTimeout) clearTimeout(this.idleTimeout);
+    this.aloneTimeout = null;
+    this.idleTimeout = null;
+    this.clearSleepTimer();
+  }
+
+  /**
+   * @param durationMs If null, the player leaves once the current track is over
+   * @param waitForTrack Whether the current track should finish playing once the duration is up
+   */
+  public setSleepTimer(durationMs: number | null, waitForTrack: boolean): void {
+    this.clearSleepTimer();
+    const sleepTimer: SleepTimer = {
+      timeout: null,
+      endsAt: durationMs == null ? null : Date.now() + durationMs,
+      waitForTrack,
+      hasRunOut: durationMs == null,
+    };
+    if (durationMs != null) {
+      sleepTimer.timeout = setTimeout(() => {
+        sleepTimer.timeout = null;
+        if (waitForTrack && this.currentTrack) {
+          sleepTimer.hasRunOut = true;
+          this.discardPrebuffered();
+        } else {
+          this.sleep().catch(error);
+        }
+      }, durationMs);
+    }
+    this.sleepTimer = sleepTimer;
+  }
+
+  /**
+   * @returns Whether there was a sleep timer to clear
+   */
+  public clearSleepTimer(): boolean {
+    const { sleepTimer } = this;
+    if (sleepTimer?.timeout) clearTimeout(sleepTimer.timeout);
+    this.sleepTimer = null;
+    return Boolean(sleepTimer);
+  }
+
+  private sleep(): Promise<void> {
+    return this.leave(`Left <#${this.channelId}> since the sleep timer ran out.`);
+  }
+
+  private async leave(reason: string): Promise<void> {
+    log(`Leaving voice channel ${this.channelId} in guild ${this.guildId}:`, reason);
+    sessions.destroy(this.guildId);
+    await this.sendUpdate(reason);
+  }
+
+  /**
+   * Sends a message to the guild's player updates channel, if there is one.
+   */
+  private async sendUpdate(content: string): Promise<void> {
+    try {
+      const playerSettings = await PlayerSettings.findByPk(this.guildId);
+      if (!playerSettings?.updates_channel_id) return;
+      const channel = await getChannel(playerSettings.updates_channel_id);
+      if (channel && isText(channel)) await channel.send(content);
+    } catch (err) {
+      error(err);
+    }
+  }
+
+  /**
+   * Saves the state of the session to the database, so that it can be restored if the bot restarts or crashes.
+   */
+  private async persist(): Promise<void> {
+    if (this.isPersistenceStopped) return;
+    try {
+      if (!this.currentTrack && !this.queue.length) {
+        await PlayerSessions.destroy({ where: { guild_id: this.guildId } });
+        return;
+      }
+      await PlayerSessions.upsert({
+        guild_id: this.guildId,
+        channel_id: this.channelId,
+        current_track: this.currentTrack?.getSnapshot() ?? null,
+        current_time_ms: Math.round(this.getCurrentTrackPlayTime()),
+        queue: this.queue.map(track => track.getSnapshot()),
+        queue_loop: this.queueLoop.map(track => track.getSnapshot()),
+        is_shuffled: this.shuffled,
+        playback_speed: this.playbackSpeed,
+        filters: this.filters,
+      });
+    } catch (err) {
+      error(err);
     }
   }
 
+  private stopPersisting(): void {
+    this.isPersistenceStopped = true;
+    clearInterval(this.persistInterval);
+    this.debouncedPersist.cancel();
+  }
+
+  /**
+   * Restores the state of a session which was persisted before the bot restarted or crashed.
+   * The current track will resume from (approximately) the same position.
+   */
+  public restore(snapshot: PlayerSessions): Promise<void> {
+    const toTracks = (snapshots: TrackSnapshot[]) => snapshots.map(trackSnapshot => new Track(trackSnapshot));
+    this.playbackSpeed = snapshot.playback_speed;
+    this.filters = snapshot.filters ?? {};
+    this.queueLoop.splice(0, this.queueLoop.length, ...toTracks(snapshot.queue_loop));
+    if (snapshot.current_track) {
+      this.queue.push(...toTracks([snapshot.current_track]));
+      this.pendingSeekMs = snapshot.current_time_ms || null;
+    }
+    this.queue.push(...toTracks(snapshot.queue));
+    this.shuffled = snapshot.is_shuffled;
+    return this.processQueue();
+  }
+
   public destroy(): void {
+    this.stopPersisting();
+    this.clearTimeouts();
+    this.stopTransitions();
+    // The session was intentionally ended, so there is nothing to restore
+    PlayerSessions.destroy({ where: { guild_id: this.guildId } }).catch(error);
     client.removeListener('voiceStateUpdate', this.handleVoiceStateChange);
     const voiceConnection = this.getVoiceConnection();
     if (voiceConnection) voiceConnection.destroy();
@@ -164,34 +436,94 @@ export default class Session {
     }, [room]);
   }
 
-  public async getPlayerStatus(): Promise<PlayerStatus> {
-    const getTrackData: (track: Track) => Promise<TrackData> = async track => ({
+  private getRequester(track: Track): TrackData['requester'] {
+    if (!track.requesterId) return null;
+    const member = client.guilds.cache.get(this.guildId)?.members.cache.get(track.requesterId);
+    return {
+      id: track.requesterId,
+      name: member?.displayName ?? client.users.cache.get(track.requesterId)?.username ?? 'Unknown',
+    };
+  }
+
+  public async getTrackData(track: Track): Promise<TrackData> {
+    return {
       id: track.id,
       value: track.value,
       sourceLink: track.sourceLink,
       variant: track.variant,
+      requester: this.getRequester(track),
+      isAutoplay: track.isAutoplay,
       ...await track.getVideoDetails().catch(() => ({
         title: 'Unknown',
       })),
-    });
-    const queue = this.isLooped() ? this.queue.concat(this.queueLoop) : this.queue;
+    };
+  }
+
+  /**
+   * The upcoming tracks, including the next iteration of the queue loop (if the queue is looped).
+   */
+  public getCombinedQueue(): Track[] {
+    return this.isLooped() ? this.queue.concat(this.queueLoop) : this.queue;
+  }
+
+  public getChannelId(): string {
+    return this.channelId;
+  }
+
+  public getBroadcastController(): Session | null {
+    return this.broadcastController;
+  }
+
+  /**
+   * Plays the audio of the controller's audio player in this session's voice channel, instead of this session's own audio.
+   */
+  public followBroadcast(controller: Session): void {
+    this.broadcastController = controller;
+    if (this.idleTimeout) clearTimeout(this.idleTimeout);
+    this.idleTimeout = null;
+    this.getVoiceConnection()?.subscribe(controller.audioPlayer);
+    this.emitPlayerStatus();
+  }
+
+  public unfollowBroadcast(): void {
+    this.broadcastController = null;
+    this.getVoiceConnection()?.subscribe(this.audioPlayer);
+    this.emitPlayerStatus();
+    this.startIdleTimeout().catch(error);
+  }
+
+  public async getPlayerStatus(): Promise<PlayerStatus> {
+    // Followers mirror everything that the controller plays
+    if (this.broadcastController) return this.broadcastController.getPlayerStatus();
+    const queue = this.getCombinedQueue();
+    const { chapters, currentIdx } = await this.getChapters();
     return {
-      currentTrack: this.currentTrack ? await getTrackData(this.currentTrack) : null,
+      currentTrack: this.currentTrack ? await this.getTrackData(this.currentTrack) : null,
       currentTime: {
         ...this.currentTrackPlayTime,
         // Even if seeking was not invoked on the session, the track URL may have a seek time in it
         seekedMs: this.currentTrackPlayTime.seekedMs ?? this.currentTrack?.getSeekTimeMs() ?? null,
       },
       playbackSpeed: this.playbackSpeed,
-      queue: await Promise.all(queue.slice(0, QUEUE_SNIPPET_LENGTH).map(track => getTrackData(track))),
+      queue: await Promise.all(queue.slice(0, QUEUE_SNIPPET_LENGTH).map(track => this.getTrackData(track))),
       totalQueueSize: queue.length,
       isPaused: this.isPaused(),
       isLooped: this.isLooped(),
       isShuffled: this.isShuffled(),
+      skipVotes: this.getSkipVoteTally(),
+      filters: this.filters,
+      broadcast: broadcasts.getData(this.guildId),
+      chapters,
+      currentChapter: chapters[currentIdx] ?? null,
+      sleepTimer: this.sleepTimer && {
+        endsAt: this.sleepTimer.endsAt,
+        waitForTrack: this.sleepTimer.waitForTrack,
+      },
     };
   }
 
   private async emitPlayerStatus(): Promise<void> {
+    this.debouncedPersist();
     const channel = await getChannel(this.channelId);
     if (channel && !channel.isDMBased()) {
       const room = `${this.guildId}_${this.channelId}_CONNECT`;
@@ -206,6 +538,7 @@ export default class Session {
         },
       }, [room]);
     }
+    broadcasts.getFollowers(this.guildId).forEach(follower => follower.emitPlayerStatus());
   }
 
   /**
@@ -217,6 +550,8 @@ export default class Session {
       value: track.value,
       variant: track.variant,
       sourceLink: track.sourceLink,
+      requesterId: track.requesterId,
+      isAutoplay: track.isAutoplay,
     }));
   }
 
@@ -291,21 +626,106 @@ export default class Session {
     return track;
   }
 
-  public enqueue(tracks: Track[], pushToFront = false): Promise<void> {
-    if (this.isShuffled()) shuffleArray(tracks);
+  /**
+   * Skips the current track and plays the track at the given position in the queue instead.
+   */
+  public async jumpTo(idx: number): Promise<Track | undefined> {
+    if (!this.queue[idx]) return undefined;
+    const track = this.move(idx, 0);
+    await this.skip();
+    return track;
+  }
+
+  /**
+   * Drops the tracks which would put their requester over the guild's per-user queue limits.
+   */
+  private async applyQueueLimits(tracks: Track[], playerSettings: PlayerSettings | null): Promise<Track[]> {
+    const maxTracks = playerSettings?.max_tracks_per_user;
+    const maxDurationMs = playerSettings?.max_minutes_per_user ? playerSettings.max_minutes_per_user * 60 * 1000 : null;
+    if (!maxTracks && !maxDurationMs) return tracks;
+
+    const limit = pLimit(CONCURRENCY_LIMIT);
+    const getDurationMs = (track: Track) => limit(async () => {
+      // Only fetch details when they are needed, since it can be slow for a lot of tracks
+      if (!maxDurationMs || !track.requesterId) return 0;
+      const details = await track.getVideoDetails().catch(() => null);
+      return details?.duration ?? 0;
+    });
+    const [queuedDurations, newDurations] = await Promise.all([
+      Promise.all(this.queue.map(getDurationMs)),
+      Promise.all(tracks.map(getDurationMs)),
+    ]);
+
+    const numQueued = new Map<string, number>();
+    const durationQueued = new Map<string, number>();
+    const addToTotals = (track: Track, durationMs: number) => {
+      if (!track.requesterId) return;
+      numQueued.set(track.requesterId, (numQueued.get(track.requesterId) ?? 0) + 1);
+      durationQueued.set(track.requesterId, (durationQueued.get(track.requesterId) ?? 0) + durationMs);
+    };
+    this.queue.forEach((track, idx) => addToTotals(track, queuedDurations[idx]));
+
+    const allowedTracks = tracks.filter((track, idx) => {
+      if (!track.requesterId) return true;
+      const newNumQueued = (numQueued.get(track.requesterId) ?? 0) + 1;
+      const newDurationQueued = (durationQueued.get(track.requesterId) ?? 0) + newDurations[idx];
+      if ((maxTracks && newNumQueued > maxTracks) || (maxDurationMs && newDurationQueued > maxDurationMs)) return false;
+      addToTotals(track, newDurations[idx]);
+      return true;
+    });
+    if (tracks.length > 0 && allowedTracks.length === 0) {
+      const limits = filterOutFalsy([
+        maxTracks && `${maxTracks} tracks`,
+        playerSettings?.max_minutes_per_user && `${playerSettings.max_minutes_per_user} minutes`,
+      ]);
+      throw new Error(`You cannot queue more than ${limits.join(' or ')} at once.`);
+    }
+    return allowedTracks;
+  }
+
+  /**
+   * Inserts a track so that requesters take turns, e.g. if user A queues 3 tracks and then user B queues 2 tracks,
+   * the queue will be A, B, A, B, A. Each requester's tracks stay in the same order relative to each other.
+   */
+  private insertFairly(track: Track): void {
+    const numSeen = new Map<string | undefined, number>();
+    // The round of a track is how many tracks the same requester has queued before it
+    const rounds = this.queue.map(queuedTrack => {
+      const round = numSeen.get(queuedTrack.requesterId) ?? 0;
+      numSeen.set(queuedTrack.requesterId, round + 1);
+      return round;
+    });
+    const newRound = numSeen.get(track.requesterId) ?? 0;
+    const insertIdx = rounds.reduce((acc, round, idx) => (round <= newRound ? idx + 1 : acc), 0);
+    this.queue.splice(insertIdx, 0, track);
+  }
+
+  /**
+   * @returns The tracks which were enqueued, which may be fewer than were provided due to the guild's queue limits
+   */
+  public async enqueue(tracks: Track[], pushToFront = false): Promise<Track[]> {
+    if (this.broadcastController) {
+      throw new Error('This server is listening to a broadcast. Leave it with /broadcast leave to play something else.');
+    }
+    const playerSettings = await PlayerSettings.findByPk(this.guildId);
+    const allowedTracks = await this.applyQueueLimits(tracks, playerSettings);
+    if (this.isShuffled()) shuffleArray(allowedTracks);
     if (pushToFront) {
-      this.queue.unshift(...tracks);
+      this.queue.unshift(...allowedTracks);
+    } else if (playerSettings?.fair_queue) {
+      allowedTracks.forEach(track => this.insertFairly(track));
     } else {
-      this.queue.push(...tracks);
+      this.queue.push(...allowedTracks);
     }
     if (this.isLooped()) {
       if (pushToFront) {
-        this.queueLoop.unshift(...this.duplicateTracks(tracks));
+        this.queueLoop.unshift(...this.duplicateTracks(allowedTracks));
       } else {
-        this.queueLoop.push(...this.duplicateTracks(tracks));
+        this.queueLoop.push(...this.duplicateTracks(allowedTracks));
       }
     }
-    return this.processQueue();
+    await this.processQueue();
+    return allowedTracks;
   }
 
   public pause(): boolean {
@@ -321,7 +741,14 @@ export default class Session {
   }
 
   private stop(): void {
+    // Do not persist the stopped state, since the session may be restored later
+    // (e.g. when the connection is destroyed because the bot is shutting down)
+    this.stopPersisting();
+    this.clearTimeouts();
+    this.stopTransitions();
+    this.endHistoryEntry(true);
     this.queueLock = true;
+    this.interruption = null;
     this.queue.splice(0, this.queue.length);
     this.audioPlayer.stop(true);
     this.currentTrackPlayTime = {
@@ -329,7 +756,7 @@ export default class Session {
       pauseStarted: null,
       totalPauseTimeMs: 0,
       seekedMs: null,
-      speed: this.playbackSpeed,
+      speed: this.getEffectiveSpeed(),
     };
   }
 
@@ -341,14 +768,71 @@ export default class Session {
     return this.processQueue(true);
   }
 
+  public setSkipVoteThreshold(skipVoteThreshold: number): void {
+    this.skipVoteThreshold = skipVoteThreshold;
+    this.emitPlayerStatus();
+  }
+
+  private getListenerIds(): string[] {
+    const channel = client.channels.cache.get(this.channelId);
+    if (!channel || !channel.isVoiceBased()) return [];
+    return channel.members.filter(member => !member.user.bot).map(member => member.id);
+  }
+
+  /**
+   * Only votes from users who are still listening are counted.
+   */
+  public getSkipVoteTally(): SkipVoteTally {
+    const listenerIds = this.getListenerIds();
+    return {
+      votes: listenerIds.filter(id => this.skipVotes.has(id)).length,
+      required: Math.max(1, Math.ceil((listenerIds.length * this.skipVoteThreshold) / 100)),
+    };
+  }
+
+  public voteSkip(userId: string): SkipVoteTally {
+    this.skipVotes.add(userId);
+    this.emitPlayerStatus();
+    return this.getSkipVoteTally();
+  }
+
   public setPlaybackSpeed(speed: number): void {
     this.playbackSpeed = speed;
+    this.debouncedPersist();
   }
 
   public getPlaybackSpeed(): number {
     return this.currentTrackPlayTime.speed;
   }
 
+  /**
+   * Some filters (e.g. nightcore) change the speed of the audio, on top of the playback speed.
+   */
+  private getEffectiveSpeed(): number {
+    return this.playbackSpeed * getAudioFiltersSpeed(this.filters);
+  }
+
+  public getFilters(): AudioFilters {
+    return this.filters;
+  }
+
+  /**
+   * Filters are baked into the audio resource, so the current track is re-created from its current position.
+   */
+  public async setFilters(filters: AudioFilters): Promise<void> {
+    const currentTimeMs = this.getCurrentTrackPlayTime();
+    this.filters = filters;
+    if (this.currentTrack) {
+      await this.seek(Math.floor(currentTimeMs / 1000));
+    } else {
+      this.emitPlayerStatus();
+    }
+  }
+
+  public setCrossfadeSeconds(crossfadeSeconds: number): void {
+    this.crossfadeMs = crossfadeSeconds * 1000;
+  }
+
   public setShouldNormalizeAudio(shouldNormalizeAudio: boolean): void {
     this.shouldNormalizeAudio = shouldNormalizeAudio;
   }
@@ -361,11 +845,114 @@ export default class Session {
     return {
       speed: this.playbackSpeed !== 1 ? this.playbackSpeed : undefined,
       shouldNormalizeAudio: this.shouldNormalizeAudio,
+      filters: this.filters,
     };
   }
 
+  private getAudioResourceOptionsKey(): string {
+    return JSON.stringify(this.getAudioResourceOptions());
+  }
+
+  private discardPrebuffered(): void {
+    const { prebuffered } = this;
+    this.prebuffered = null;
+    // Destroying the resource cleans up the processes that it comes from
+    prebuffered?.resource.then(resource => resource.playStream.destroy(), () => null);
+  }
+
+  private stopTransitions(): void {
+    clearInterval(this.transitionInterval);
+    this.discardPrebuffered();
+  }
+
+  /**
+   * Loading the next track early also finds out whether it can be played before the current track ends,
+   * so that it can be skipped without leaving a gap.
+   */
+  private prebuffer(track: Track): void {
+    this.discardPrebuffered();
+    const prebuffered: PrebufferedResource = {
+      track,
+      resource: track.getAudioResource(this.getAudioResourceOptions()),
+      optionsKey: this.getAudioResourceOptionsKey(),
+      isReady: false,
+    };
+    this.prebuffered = prebuffered;
+    prebuffered.resource.then(() => {
+      prebuffered.isReady = true;
+    }, err => {
+      // If the track already started, the error is handled when it is played instead
+      if (this.prebuffered !== prebuffered) return;
+      this.prebuffered = null;
+      error(err);
+      log('Could not play track', track.value, track.variant);
+      const idx = this.queue.indexOf(track);
+      if (idx >= 0) this.remove(idx);
+    });
+  }
+
+  /**
+   * @returns The prebuffered audio resource for the track, if it was created with the current audio resource options
+   */
+  private takePrebuffered(track: Track): Promise<AudioResource> | null {
+    const { prebuffered } = this;
+    if (prebuffered?.track !== track || prebuffered.optionsKey !== this.getAudioResourceOptionsKey()) {
+      this.discardPrebuffered();
+      return null;
+    }
+    this.prebuffered = null;
+    return prebuffered.resource;
+  }
+
+  /**
+   * Loads the next track when the current track is about to end, and crossfades into it if crossfading is enabled.
+   */
+  private async prepareTransition(): Promise<void> {
+    const { currentTrack } = this;
+    const nextTrack = this.queue[0];
+    if (!currentTrack || !nextTrack || this.queueLock || this.interruption || this.isPaused() || this.currentTrackPlayTime.started == null) return;
+    // The player is going to leave instead of moving on to the next track
+    if (this.sleepTimer?.hasRunOut) return;
+    const details = await currentTrack.getVideoDetails().catch(() => null);
+    // Livestreams have no duration, so there is no way to know when they will end
+    if (!details?.duration || currentTrack !== this.currentTrack) return;
+    const remainingMs = (details.duration - this.getCurrentTrackPlayTime()) / this.currentTrackPlayTime.speed;
+    if (remainingMs > PLAYER_PREBUFFER_TIME) return;
+
+    const { prebuffered } = this;
+    if (prebuffered?.track !== nextTrack || prebuffered.optionsKey !== this.getAudioResourceOptionsKey()) {
+      this.prebuffer(nextTrack);
+      return;
+    }
+    if (this.crossfadeMs && remainingMs <= this.crossfadeMs && prebuffered.isReady) {
+      await this.crossfade(Math.max(remainingMs, 0));
+    }
+  }
+
+  /**
+   * Mixes the PCM audio from the FFmpeg pipelines of the current track and the prebuffered next track,
+   * and moves on to the next track without waiting for the current one to end.
+   */
+  private async crossfade(durationMs: number): Promise<void> {
+    const { currentTrack, prebuffered } = this;
+    if (!currentTrack || !prebuffered) return;
+    // Fading in or out of text-to-speech would make it harder to hear
+    if ([currentTrack, prebuffered.track].some(track => track.variant === TrackVariant.TEXT)) return;
+    if (!currentTrack.canTakePcmStream() || !prebuffered.track.canTakePcmStream()) return;
+    const nextResource = await prebuffered.resource;
+    // Something may have changed while waiting
+    if (this.queueLock || this.currentTrack !== currentTrack || this.prebuffered !== prebuffered || this.queue[0] !== prebuffered.track) return;
+
+    this.prebuffered = null;
+    const resource = prebuffered.track.crossfadeFrom(currentTrack.takePcmStream()!, durationMs);
+    // The PCM stream was taken over by the crossfade, so this only destroys the unused Opus encoder
+    nextResource.playStream.destroy();
+    await this.processQueue(false, resource);
+  }
+
   public async seek(amountSeconds: number): Promise<void> {
     if (!this.currentTrack) return;
+    this.interruption = null;
     const resource = await this.currentTrack.getAudioResource({
       ...this.getAudioResourceOptions(),
       seek: amountSeconds,
@@ -377,11 +964,105 @@ export default class Session {
       seekedMs: amountSeconds * 1000,
       pauseStarted: null,
       totalPauseTimeMs: 0,
-      speed: this.playbackSpeed,
+      speed: this.getEffectiveSpeed(),
+    };
+    this.emitPlayerStatus();
+  }
+
+  /**
+   * Plays the track (e.g. text-to-speech) over the current track, which then continues from the same position.
+   * If nothing is playing, the track is played right away instead.
+   */
+  public async interrupt(track: Track): Promise<void> {
+    if (this.broadcastController) {
+      throw new Error('This server is listening to a broadcast. Leave it with /broadcast leave to play something else.');
+    }
+    if (!this.currentTrack) {
+      await this.enqueue([track], true);
+      return;
+    }
+    if (this.interruption || this.queueLock) {
+      throw new Error('The player is busy, try again in a moment.');
+    }
+    const resource = await track.getAudioResource(this.getAudioResourceOptions());
+    const { currentTrack } = this;
+    // Something may have changed while loading
+    if (!currentTrack || this.interruption || this.queueLock) {
+      resource.playStream.destroy();
+      throw new Error('The player is busy, try again in a moment.');
+    }
+    const isLivestream = [TrackVariant.YOUTUBE_LIVESTREAM, TrackVariant.TWITCH_LIVESTREAM].includes(currentTrack.variant);
+    this.interruption = {
+      resource: null,
+      // Livestreams pick up from where they currently are instead
+      seekMs: isLivestream ? 0 : this.getCurrentTrackPlayTime(),
+    };
+    this.audioPlayer.play(resource);
+    log('Interrupted track', currentTrack.value, currentTrack.variant);
+  }
+
+  private async endInterruption(): Promise<void> {
+    const { interruption } = this;
+    this.interruption = null;
+    if (!interruption || !this.currentTrack) return;
+    if (!interruption.resource) {
+      await this.seek(Math.floor(interruption.seekMs / 1000));
+      return;
+    }
+    this.audioPlayer.play(interruption.resource);
+    // Time spent on the interruption does not count towards the time played in the track
+    this.currentTrackPlayTime = {
+      ...this.currentTrackPlayTime,
+      started: null,
+      pauseStarted: null,
+      totalPauseTimeMs: 0,
     };
     this.emitPlayerStatus();
   }
 
+  /**
+   * @returns The spoken title of the track, if the guild has announcements enabled
+   */
+  private async getAnnouncement(track: Track): Promise<AudioResource | null> {
+    if (track.variant === TrackVariant.TEXT) return null;
+    const playerSettings = await PlayerSettings.findByPk(this.guildId);
+    if (!playerSettings?.announce_tracks) return null;
+    try {
+      const announcementTrack = await createAnnouncementTrack(track);
+      const resource = await announcementTrack.getAudioResource(this.getAudioResourceOptions());
+      return resource;
+    } catch (err) {
+      error(err);
+      return null;
+    }
+  }
+
+  /**
+   * @returns The chapters of the current track, along with the index of the one that is playing (or -1 if there are none)
+   */
+  public async getChapters(): Promise<{ chapters: Chapter[], currentIdx: number }> {
+    const { currentTrack } = this;
+    if (!currentTrack) return { chapters: [], currentIdx: -1 };
+    const chapters = await currentTrack.getChapters();
+    return {
+      chapters,
+      currentIdx: getChapterIndex(chapters, this.getCurrentTrackPlayTime()),
+    };
+  }
+
+  /**
+   * @param offset e.g. 1 for the next chapter, or -1 for the previous chapter
+   * @returns The chapter that was skipped to
+   */
+  public async seekToChapter(offset: number): Promise<Chapter> {
+    const { chapters, currentIdx } = await this.getChapters();
+    if (!chapters.length) throw new Error('The current track does not have chapters.');
+    const chapter = chapters[currentIdx + offset];
+    if (!chapter) throw new Error(offset > 0 ? 'This is the last chapter.' : 'This is the first chapter.');
+    await this.seek(Math.floor(chapter.startMs / 1000));
+    return chapter;
+  }
+
   /**
    * @returns An approximation of the time played in the current resource
    */
@@ -400,26 +1081,51 @@ export default class Session {
     return timePlayed + trackUrlSeek;
   }
 
+  private endHistoryEntry(wasSkipped: boolean): void {
+    const { historyEntry } = this;
+    this.historyEntry = null;
+    historyEntry?.then(entry => entry && recordTrackEnded(entry, wasSkipped)).catch(error);
+  }
+
   public getVoiceConnection(): VoiceConnection | undefined {
     return getVoiceConnection(this.guildId);
   }
 
-  private async processQueue(forceSkip = false): Promise<void> {
+  /**
+   * @param crossfadeResource The audio resource of the next track, which is already mixed with the end of the current track
+   */
+  private async processQueue(forceSkip = false, crossfadeResource: AudioResource | null = null): Promise<void> {
     if (this.queueLock) {
       log('Queue lock prevented a problem.');
       return;
     }
-    if (!forceSkip && this.audioPlayer.state.status !== AudioPlayerStatus.Idle) {
+    if (!forceSkip && !crossfadeResource && this.audioPlayer.state.status !== AudioPlayerStatus.Idle) {
       this.emitPlayerStatus();
       return;
     }
 
+    if (this.sleepTimer?.hasRunOut) {
+      await this.sleep();
+      return;
+    }
+
     this.queueLock = true;
+    this.interruption = null;
+
+    // If the track was not forcefully skipped, then it must have finished playing
+    this.endHistoryEntry(forceSkip);
 
     if (!this.queue.length && !this.isLooped()) {
       this.shuffled = false;
     }
 
+    // The queue has run out after playing something, so keep the music going if autoplay is enabled
+    if (!this.queue.length && !this.isLooped() && this.currentTrack) {
+      const playerSettings = await PlayerSettings.findByPk(this.guildId);
+      const autoplayTrack = playerSettings?.autoplay ? await getAutoplayTrack(this.guildId) : null;
+      if (autoplayTrack) this.queue.push(autoplayTrack);
+    }
+
     // We have exhausted the queue, so refill it and re-shuffle the queue loop if applicable
     if (!this.queue.length && this.isLooped()) {
       this.queue.push(...this.queueLoop);
@@ -429,25 +1135,46 @@ export default class Session {
     }
 
     this.currentTrack = this.queue.shift();
+    this.skipVotes.clear();
     if (!this.currentTrack) {
       if (forceSkip) this.audioPlayer.stop(true);
       this.queueLock = false;
       this.emitPlayerStatus();
+      this.startIdleTimeout().catch(error);
       return;
     }
 
+    if (this.idleTimeout) clearTimeout(this.idleTimeout);
+    this.idleTimeout = null;
+
+    const seekMs = this.pendingSeekMs;
+    this.pendingSeekMs = null;
+
     try {
-      const resource = await this.currentTrack.getAudioResource(this.getAudioResourceOptions());
-      this.audioPlayer.play(resource);
+      const resource = await (crossfadeResource
+        ?? (seekMs == null ? this.takePrebuffered(this.currentTrack) : null)
+        ?? this.currentTrack.getAudioResource({
+          ...this.getAudioResourceOptions(),
+          seek: seekMs != null ? Math.floor(seekMs / 1000) : undefined,
+        }));
+      // The announcement would be talking over the previous track while crossfading
+      const announcement = crossfadeResource ? null : await this.getAnnouncement(this.currentTrack);
+      if (announcement) {
+        this.interruption = { resource, seekMs: seekMs ?? 0 };
+        this.audioPlayer.play(announcement);
+      } else {
+        this.audioPlayer.play(resource);
+      }
       log('Playing new track', this.currentTrack.value, this.currentTrack.variant);
+      this.historyEntry = recordTrackStarted(this.guildId, this.currentTrack);
 
       this.currentTrackPlayTime = {
         // It could buffer before starting, so we don't initialize the start time just yet
         started: null,
         pauseStarted: null,
         totalPauseTimeMs: 0,
-        seekedMs: null,
-        speed: this.playbackSpeed,
+        seekedMs: seekMs != null ? Math.floor(seekMs / 1000) * 1000 : null,
+        speed: this.getEffectiveSpeed(),
       };
 
       this.emitPlayerStatus();
@@ -1,13 +1,19 @@
 import { VoiceBasedChannel } from 'discord.js';
+import { DEFAULT_VOTE_SKIP_THRESHOLD } from 'src/constants';
 import { PlayerSettings } from 'src/models/player-settings';
 import Session from './session';
+import broadcasts from './broadcasts';
 
 export class Sessions {
   private sessions = new Map<string, Session>();
 
   public async create(channel: VoiceBasedChannel): Promise<Session> {
     const playerSettings = await PlayerSettings.findByPk(channel.guildId);
-    const session = new Session(channel, playerSettings?.normalize ?? true);
+    const session = new Session(channel, {
+      shouldNormalizeAudio: playerSettings?.normalize ?? true,
+      skipVoteThreshold: playerSettings?.vote_skip_threshold ?? DEFAULT_VOTE_SKIP_THRESHOLD,
+      crossfadeSeconds: playerSettings?.crossfade_seconds ?? 0,
+    });
     this.sessions.set(channel.guild.id, session);
     return session;
   }
@@ -19,6 +25,7 @@ export class Sessions {
   public destroy(guildId: string): void {
     const session = this.get(guildId);
     if (session) {
+      broadcasts.handleSessionDestroyed(guildId);
       session.destroy();
       this.sessions.delete(guildId);
     }
@@ -5,6 +5,7 @@ import type { Command } from 'src/types';
 import { ContextMenuTypes } from 'src/types';
 import { attachPlayerButtons } from './utils';
 import sessions from './sessions';
+import { skipOrVote } from './dj';
 
 async function run(interaction: CommandInteraction | ContextMenuCommandInteraction, shouldAttachButtons: boolean) {
   await interaction.deferReply({ ephemeral: true });
@@ -18,7 +19,13 @@ async function run(interaction: CommandInteraction | ContextMenuCommandInteracti
     extraSkips = Math.max(0, amount - 1);
   }
 
-  await session.skip(extraSkips);
+  const { skipped, votes, required } = await skipOrVote({
+    session,
+    guildId: interaction.guild!.id,
+    userId: interaction.user.id,
+    extraSkips,
+  });
+  if (!skipped) return interaction.editReply(`Voted to skip (${votes}/${required} votes).`);
   const newTrack = await session.getCurrentTrack();
   if (!newTrack) return interaction.editReply('Skipped.');
 
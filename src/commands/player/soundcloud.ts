@@ -0,0 +1,54 @@
+import play, { SoundCloudPlaylist, SoundCloudTrack } from 'play-dl';
+import { MAX_QUEUE_LENGTH } from 'src/constants';
+import Track, { TrackVariant, VideoDetails } from './track';
+
+/**
+ * play-dl needs a client ID for SoundCloud, which it can get from the SoundCloud website without an account.
+ */
+export const setUpSoundCloud = (() => {
+  let promise: Promise<void> | null = null;
+  return (): Promise<void> => {
+    if (!promise) {
+      promise = play.getFreeClientID().then(clientId => play.setToken({
+        soundcloud: {
+          client_id: clientId,
+        },
+      }));
+      // Allow it to be retried if the client ID could not be fetched
+      promise.catch(() => {
+        promise = null;
+      });
+    }
+    return promise;
+  };
+})();
+
+function getDetailsFromSoundCloudTrack(track: SoundCloudTrack): VideoDetails {
+  const artist = track.publisher?.artist || track.user.name;
+  return {
+    title: artist ? `${artist} - ${track.name}` : track.name,
+    duration: track.durationInMs,
+  };
+}
+
+export async function getSoundCloudDetails(link: string): Promise<VideoDetails> {
+  await setUpSoundCloud();
+  const data = await play.soundcloud(link);
+  if (data.type !== 'track') throw new Error('That is not a SoundCloud track.');
+  return getDetailsFromSoundCloudTrack(data as SoundCloudTrack);
+}
+
+/**
+ * SoundCloud playlists and albums are both called sets.
+ */
+export async function parseSoundCloudSet(link: string): Promise<Track[]> {
+  await setUpSoundCloud();
+  const data = await play.soundcloud(link);
+  if (data.type !== 'playlist') throw new Error('That is not a SoundCloud playlist or album.');
+  const tracks = await (data as SoundCloudPlaylist).all_tracks();
+  return tracks.slice(0, MAX_QUEUE_LENGTH).map(track => new Track({
+    value: track.permalink,
+    variant: TrackVariant.SOUNDCLOUD,
+    details: getDetailsFromSoundCloudTrack(track),
+  }));
+}
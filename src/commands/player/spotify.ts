@@ -24,6 +24,8 @@ export enum LinkType {
   ALBUM,
   TRACK,
   ARTIST,
+  SHOW,
+  EPISODE,
 }
 
 interface ParsedLink {
@@ -31,6 +33,14 @@ interface ParsedLink {
   id: string,
 }
 
+type QueriesFetchedCallback = (newQueries: Query[]) => Promise<void>;
+
+export interface SpotifyQueries {
+  queries: Query[],
+  // Fetches the rest of the pages in the background, if there are more than fit in the first page
+  fetchRemaining?: (queriesFetchedCb: QueriesFetchedCallback) => Promise<void>,
+}
+
 // TODO: Type the Spotify API responses
 
 const resolveSpotifyShortenedLink = (() => {
@@ -84,6 +94,18 @@ export async function parseSpotifyLink(link: string): Promise<ParsedLink> {
         id,
       };
     }
+    case 'show': {
+      return {
+        type: LinkType.SHOW,
+        id,
+      };
+    }
+    case 'episode': {
+      return {
+        type: LinkType.EPISODE,
+        id,
+      };
+    }
     default: {
       throw new Error('Could not parse Spotify link.');
     }
@@ -143,6 +165,26 @@ export function getQueryFromSpotifyTrack(track: IntentionalAny): Query {
   };
 }
 
+/**
+ * Podcasts are not available on YouTube as auto-generated tracks, so the episode and show names are searched instead.
+ */
+export function getQueryFromSpotifyEpisode(episode: IntentionalAny, showName?: string): Query {
+  const sourceLink: string | undefined = get(episode, [
+    'external_urls',
+    'spotify',
+  ]);
+  return {
+    query: `${episode.name} ${showName ?? episode.show?.name ?? ''}`.trim(),
+    sourceLink,
+    type: QueryType.SPOTIFY_LINK,
+  };
+}
+
+// Playlists can contain podcast episodes as well as tracks
+function getQueryFromSpotifyPlaylistItem(item: IntentionalAny): Query {
+  return item.type === 'episode' ? getQueryFromSpotifyEpisode(item) : getQueryFromSpotifyTrack(item);
+}
+
 async function fetchSpotify(route: string, params: [string, string][] = []): Promise<IntentionalAny> {
   const url = new URL(`${SPOTIFY_API_ROOT}${route}`);
   params.forEach(([name, value]) => {
@@ -174,6 +216,30 @@ async function paginate(next: string | null): Promise<IntentionalAny[]> {
   return items;
 }
 
+/**
+ * Unlike paginate, this fetches every page (up to the queue length), one page at a time,
+ * so that the queries from each page can be queued before the next page is fetched.
+ * @param numItems The number of items that were already fetched
+ */
+async function paginateInBackground(
+  next: string | null,
+  numItems: number,
+  itemsFetchedCb: (items: IntentionalAny[]) => Promise<void>,
+): Promise<void> {
+  while (next && numItems < MAX_QUEUE_LENGTH) {
+    // The access token can expire while a large playlist is being fetched
+    const accessToken = await getSpotifyAccessToken();
+    const res = await axios.get(next, {
+      headers: {
+        authorization: `Bearer ${accessToken}`,
+      },
+    });
+    next = res.data.next;
+    numItems += res.data.items.length;
+    await itemsFetchedCb(res.data.items);
+  }
+}
+
 async function paginateSpotifyApi(route: string, params: [string, string][] = []): Promise<IntentionalAny[]> {
   const url = new URL(`${SPOTIFY_API_ROOT}${route}`);
   url.searchParams.set('limit', String(SPOTIFY_PAGE_SIZE));
@@ -189,16 +255,34 @@ async function getSpotifyTracksFallback(link: string): Promise<Query[]> {
   return tracks.map(track => getQueryFromSpotifyTrack(track));
 }
 
-export async function parseSpotifyPlaylist(link: string): Promise<Query[]> {
+/**
+ * Only the first page is fetched up front, so that playback can start while the rest of the playlist is fetched.
+ */
+export async function parseSpotifyPlaylist(link: string): Promise<SpotifyQueries> {
   const { id: playlistId } = await parseSpotifyLink(link);
+  const getQueries = (items: IntentionalAny[]) => items
+    // Tracks which are no longer available have no data
+    .filter(item => item.track)
+    .map(item => getQueryFromSpotifyPlaylistItem(item.track));
   try {
-    const items = await paginateSpotifyApi(`/playlists/${playlistId}/tracks`, [
-      ['fields', 'next,items(track(name,artists,external_urls))'],
+    const firstPage = await fetchSpotify(`/playlists/${playlistId}/tracks`, [
+      ['limit', String(SPOTIFY_PAGE_SIZE)],
+      ['additional_types', 'track,episode'],
+      ['fields', 'next,items(track(type,name,artists,show(name),external_urls))'],
     ]);
-    return items.map((item: IntentionalAny) => getQueryFromSpotifyTrack(item.track));
+    return {
+      queries: getQueries(firstPage.items),
+      fetchRemaining: queriesFetchedCb => paginateInBackground(
+        firstPage.next,
+        firstPage.items.length,
+        items => queriesFetchedCb(getQueries(items)),
+      ),
+    };
   } catch (err) {
     error(err);
-    return getSpotifyTracksFallback(link);
+    return {
+      queries: await getSpotifyTracksFallback(link),
+    };
   }
 }
 
@@ -263,3 +347,37 @@ export async function parseSpotifyTrack(link: string): Promise<Query> {
     return getQueryFromSpotifyTrack(res);
   }
 }
+
+/**
+ * Episodes are listed from newest to oldest. Like playlists, only the first page is fetched up front.
+ */
+export async function parseSpotifyShow(link: string): Promise<SpotifyQueries> {
+  const { id: showId } = await parseSpotifyLink(link);
+  // Shows and episodes are only available with a market when using client credentials
+  const show = await fetchSpotify(`/shows/${showId}`, [
+    ['market', 'US'],
+  ]);
+  const firstPage = await fetchSpotify(`/shows/${showId}/episodes`, [
+    ['market', 'US'],
+    ['limit', String(SPOTIFY_PAGE_SIZE)],
+  ]);
+  const getQueries = (items: IntentionalAny[]) => items
+    .filter(Boolean)
+    .map(episode => getQueryFromSpotifyEpisode(episode, show.name));
+  return {
+    queries: getQueries(firstPage.items),
+    fetchRemaining: queriesFetchedCb => paginateInBackground(
+      firstPage.next,
+      firstPage.items.length,
+      items => queriesFetchedCb(getQueries(items)),
+    ),
+  };
+}
+
+export async function parseSpotifyEpisode(link: string): Promise<Query> {
+  const { id: episodeId } = await parseSpotifyLink(link);
+  const data = await fetchSpotify(`/episodes/${episodeId}`, [
+    ['market', 'US'],
+  ]);
+  return getQueryFromSpotifyEpisode(data);
+}
@@ -0,0 +1,180 @@
+import { QueryTypes } from 'sequelize';
+import { PlayerHistory } from 'src/models/player-history';
+import { PLAYER_STATS_LEADERBOARD_SIZE } from 'src/constants';
+import { TrackVariant } from './track';
+
+export enum StatsPeriod {
+  WEEK = 'week',
+  MONTH = 'month',
+  ALL_TIME = 'all',
+}
+
+export interface TopTrack {
+  value: string,
+  sourceLink: string | null,
+  title: string | null,
+  plays: number,
+}
+
+export interface TopRequester {
+  userId: string,
+  plays: number,
+  listeningMs: number,
+}
+
+export interface PlayerStats {
+  totalPlays: number,
+  totalListeningMs: number,
+  topTracks: TopTrack[],
+  // Listening time is attributed to the user who requested each track, since listeners are not recorded
+  topRequesters: TopRequester[],
+  // Number of plays that started in each hour of the day (UTC), from 0 to 23
+  playsByHour: number[],
+  // Hours of the day (UTC) with the most plays first, leaving out hours without any
+  busiestHours: number[],
+}
+
+const numBusiestHours = 3;
+
+/**
+ * @returns The earliest time that plays are counted from, or null to count every play
+ */
+export function getPeriodStart(period: StatsPeriod, now = new Date()): Date | null {
+  switch (period) {
+    case StatsPeriod.WEEK: {
+      return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    }
+    case StatsPeriod.MONTH: {
+      return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+/**
+ * Time spent paused counts towards the time between starting and ending, so it is capped at the track's duration.
+ * Plays that never ended (e.g. because the bot crashed) are assumed to have played in full.
+ * LEAST ignores nulls, so plays without a duration are not capped.
+ */
+export const listeningMsSql = `CASE WHEN ended_at IS NULL THEN COALESCE(duration, 0)
+  ELSE LEAST(GREATEST(EXTRACT(EPOCH FROM ended_at - started_at) * 1000, 0), duration) END`;
+
+// Postgres returns counts, sums and extracted fields as strings
+export interface HourRow {
+  hour: string,
+  plays: string,
+  listening_ms: string | null,
+}
+
+export interface TrackRow {
+  value: string,
+  plays: string,
+  title: string | null,
+  source_link: string | null,
+}
+
+export interface RequesterRow {
+  user_id: string,
+  plays: string,
+  listening_ms: string | null,
+}
+
+/**
+ * @param playsByHour Number of plays that started in each hour of the day
+ * @returns Hours of the day with the most plays first, leaving out hours without any
+ */
+export function getBusiestHours(playsByHour: number[]): number[] {
+  return playsByHour
+    .map((numPlays, hour) => ({ numPlays, hour }))
+    .filter(({ numPlays }) => numPlays > 0)
+    .sort((a, b) => b.numPlays - a.numPlays || a.hour - b.hour)
+    .slice(0, numBusiestHours)
+    .map(({ hour }) => hour);
+}
+
+export function toPlayerStats({
+  hourRows,
+  trackRows,
+  requesterRows,
+}: {
+  hourRows: HourRow[],
+  trackRows: TrackRow[],
+  requesterRows: RequesterRow[],
+}): PlayerStats {
+  const playsByHour: number[] = Array(24).fill(0);
+  hourRows.forEach(row => {
+    playsByHour[Number(row.hour)] = Number(row.plays);
+  });
+  return {
+    totalPlays: hourRows.reduce((acc, row) => acc + Number(row.plays), 0),
+    totalListeningMs: Math.round(hourRows.reduce((acc, row) => acc + Number(row.listening_ms ?? 0), 0)),
+    topTracks: trackRows.map(row => ({
+      value: row.value,
+      sourceLink: row.source_link,
+      title: row.title,
+      plays: Number(row.plays),
+    })),
+    topRequesters: requesterRows.map(row => ({
+      userId: row.user_id,
+      plays: Number(row.plays),
+      listeningMs: Math.round(Number(row.listening_ms ?? 0)),
+    })),
+    playsByHour,
+    busiestHours: getBusiestHours(playsByHour),
+  };
+}
+
+export async function getPlayerStats({
+  guildId,
+  period,
+  userId,
+}: {
+  guildId: string,
+  period: StatsPeriod,
+  // Only counts the tracks that were requested by this user
+  userId?: string,
+}): Promise<PlayerStats> {
+  const periodStart = getPeriodStart(period);
+  const conditions = ['guild_id = :guildId'];
+  if (periodStart) conditions.push('started_at >= :periodStart');
+  if (userId) conditions.push('user_id = :userId');
+  const where = conditions.join(' AND ');
+  const queryOptions = {
+    type: QueryTypes.SELECT,
+    replacements: {
+      guildId,
+      periodStart,
+      userId: userId ?? null,
+      textVariant: TrackVariant.TEXT,
+      limit: PLAYER_STATS_LEADERBOARD_SIZE,
+    },
+  } as const;
+  // The plays are aggregated in the database, since a guild can have played a lot of tracks over all time
+  const sequelize = PlayerHistory.sequelize!;
+  const [hourRows, trackRows, requesterRows] = await Promise.all([
+    sequelize.query<HourRow>(`SELECT EXTRACT(HOUR FROM started_at AT TIME ZONE 'UTC') AS hour,
+        COUNT(id) AS plays, SUM(${listeningMsSql}) AS listening_ms
+      FROM player_history
+      WHERE ${where}
+      GROUP BY hour`, queryOptions),
+    // The value of a text-to-speech track is whatever was said, which is not a track that anyone would want to see ranked.
+    // Titles can change over time, so the latest one is shown.
+    sequelize.query<TrackRow>(`SELECT value, COUNT(id) AS plays,
+        (ARRAY_AGG(title ORDER BY started_at DESC) FILTER (WHERE title IS NOT NULL))[1] AS title,
+        (ARRAY_AGG(source_link ORDER BY started_at DESC) FILTER (WHERE source_link IS NOT NULL))[1] AS source_link
+      FROM player_history
+      WHERE ${where} AND variant != :textVariant
+      GROUP BY value
+      ORDER BY plays DESC, MAX(started_at) DESC
+      LIMIT :limit`, queryOptions),
+    sequelize.query<RequesterRow>(`SELECT user_id, COUNT(id) AS plays, SUM(${listeningMsSql}) AS listening_ms
+      FROM player_history
+      WHERE ${where} AND user_id IS NOT NULL
+      GROUP BY user_id
+      ORDER BY plays DESC, listening_ms DESC
+      LIMIT :limit`, queryOptions),
+  ]);
+  return toPlayerStats({ hourRows, trackRows, requesterRows });
+}
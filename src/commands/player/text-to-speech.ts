@@ -0,0 +1,67 @@
+import { client } from 'src/client';
+import { MAX_TEXT_TO_SPEECH_LENGTH } from 'src/constants';
+import { PlayerSettings } from 'src/models/player-settings';
+import { PlayerTtsPreferences, TextToSpeechProvider } from 'src/models/player-tts-preferences';
+import Track, { TextToSpeechOptions, TrackVariant } from './track';
+import { cleanTrackTitle } from './lyrics';
+import { getVideoDetailsWithFallback } from './utils';
+
+/**
+ * Text-to-speech costs money, so only members with the guild's text-to-speech role can use it.
+ * Members who can manage the server always can.
+ */
+export async function canUseTextToSpeech(guildId: string, userId: string): Promise<boolean> {
+  const playerSettings = await PlayerSettings.findByPk(guildId);
+  const guild = await client.guilds.fetch(guildId).catch(() => null);
+  const member = await guild?.members.fetch(userId).catch(() => null);
+  if (!member) return false;
+  if (member.permissions.has('ManageGuild')) return true;
+  return Boolean(playerSettings?.tts_role_id && member.roles.cache.has(playerSettings.tts_role_id));
+}
+
+export async function checkCanUseTextToSpeech(guildId: string, userId: string): Promise<void> {
+  if (!await canUseTextToSpeech(guildId, userId)) {
+    throw new Error('You are not permitted to use text-to-speech.');
+  }
+}
+
+/**
+ * @returns The user's saved preferences, or the defaults if they have none
+ */
+export async function getTextToSpeechOptions(userId: string | undefined): Promise<TextToSpeechOptions> {
+  const preferences = userId ? await PlayerTtsPreferences.findByPk(userId) : null;
+  return {
+    provider: preferences?.provider ?? TextToSpeechProvider.GOOGLE,
+    voice: preferences?.voice ?? undefined,
+    language: preferences?.language ?? undefined,
+    speakingRate: preferences?.speaking_rate ?? undefined,
+  };
+}
+
+/**
+ * @returns The track, along with the part of the text that was cut off for being too long
+ */
+export async function createTextToSpeechTrack(text: string, userId: string): Promise<{ track: Track, excessText: string }> {
+  const track = new Track({
+    value: text.slice(0, MAX_TEXT_TO_SPEECH_LENGTH),
+    variant: TrackVariant.TEXT,
+    requesterId: userId,
+    textToSpeech: await getTextToSpeechOptions(userId),
+  });
+  return {
+    track,
+    excessText: text.slice(MAX_TEXT_TO_SPEECH_LENGTH),
+  };
+}
+
+/**
+ * Spoken with the voice of the user who queued the track, if they have one saved.
+ */
+export async function createAnnouncementTrack(track: Track): Promise<Track> {
+  const { title } = await getVideoDetailsWithFallback(track);
+  return new Track({
+    value: `Now playing: ${cleanTrackTitle(title)}`,
+    variant: TrackVariant.TEXT,
+    textToSpeech: await getTextToSpeechOptions(track.requesterId),
+  });
+}
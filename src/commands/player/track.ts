@@ -1,5 +1,6 @@
 import 'openai/shims/node';
 
+import path from 'node:path';
 import { Readable, PassThrough } from 'node:stream';
 import { kill as killNodeProcess } from 'node:process';
 import { AudioResource, StreamType, createAudioResource } from '@discordjs/voice';
@@ -9,8 +10,20 @@ import ytdlExec from 'youtube-dl-exec';
 import prism from 'prism-media';
 import play from 'play-dl';
 import { error } from 'src/logging';
+import {
+  DEFAULT_TEXT_TO_SPEECH_LANGUAGE,
+  MAX_TEXT_TO_SPEECH_SPEED,
+  MIN_TEXT_TO_SPEECH_SPEED,
+  OPENAI_TEXT_TO_SPEECH_VOICES,
+} from 'src/constants';
+import { TextToSpeechProvider } from 'src/models/player-tts-preferences';
 import { filterOutFalsy, getSecondsFromUrlTimestamp, getUniqueId } from 'src/utils';
-import { getDetailsFromUrl as getYoutubeDetailsFromUrl } from './youtube';
+import { getChaptersFromUrl as getYoutubeChaptersFromUrl, getDetailsFromUrl as getYoutubeDetailsFromUrl } from './youtube';
+import { AudioFilters, getFfmpegAudioFilters } from './audio-filters';
+import { getMediaDetails, resolveMusicFile } from './local-files';
+import { getSoundCloudDetails, setUpSoundCloud } from './soundcloud';
+import { createCrossfadeMixer } from './crossfade';
+import type { Chapter } from './types';
 
 const apiKey = process.env.OPENAI_SECRET_KEY;
 const openai = apiKey ? new OpenAI({ apiKey }) : null;
@@ -24,6 +37,23 @@ export interface AudioResourceOptions {
   seek?: number, // in seconds
   speed?: number, // multiplier
   shouldNormalizeAudio?: boolean,
+  filters?: AudioFilters,
+}
+
+/**
+ * Raw audio (48kHz, stereo, signed 16-bit little-endian) that is decoded by FFmpeg, before it gets encoded to Opus.
+ */
+export interface PcmStream {
+  stream: Readable,
+  // Stops the processes that the audio comes from
+  destroy: () => void,
+}
+
+export interface TextToSpeechOptions {
+  provider: TextToSpeechProvider,
+  voice?: string,
+  language?: string,
+  speakingRate?: number,
 }
 
 export enum TrackVariant {
@@ -35,6 +65,10 @@ export enum TrackVariant {
   REDDIT,
   ARBITRARY,
   TEXT,
+  ATTACHMENT,
+  LOCAL_FILE, // path relative to the music directory
+  SOUNDCLOUD,
+  BANDCAMP,
 }
 
 interface TrackConstructorOptions {
@@ -42,16 +76,47 @@ interface TrackConstructorOptions {
   variant: TrackVariant,
   details?: VideoDetails,
   sourceLink?: string,
+  // ID of the user who queued the track
+  requesterId?: string,
+  // Whether the track was picked automatically after the queue ran out
+  isAutoplay?: boolean,
+  // Only used by text-to-speech tracks
+  textToSpeech?: TextToSpeechOptions,
 }
 
+/**
+ * Serializable representation of a track, which can be used to reconstruct it later (e.g. from the database).
+ */
+export type TrackSnapshot = TrackConstructorOptions;
+
 const YOUTUBE_COOKIES = process.env.YOUTUBE_COOKIES;
 
+// Works for any site that yt-dlp supports
+async function getDetailsWithYtdlp(link: string): Promise<VideoDetails> {
+  const data = await ytdlExec(link, {
+    dumpSingleJson: true,
+    noWarnings: true,
+  });
+  if (typeof data === 'string' || !data.title) throw new Error('Could not fetch title');
+  return {
+    title: data.title,
+    duration: data.duration ? Math.round(data.duration * 1000) : undefined,
+  };
+}
+
 export default class Track {
   public readonly id: string;
   public readonly value: string;
   public readonly variant: TrackVariant;
   public readonly sourceLink: string | undefined;
+  public requesterId: string | undefined;
+  public readonly isAutoplay: boolean;
+  public readonly textToSpeech: TextToSpeechOptions | undefined;
   private details: VideoDetails | undefined;
+  private chapters: Promise<Chapter[]> | null = null;
+  private loadedChapters: Chapter[] = [];
+  // Takes over the PCM stream of the latest audio resource, which is used to mix it with another track
+  private detachPcmStream: (() => PcmStream) | null = null;
 
   public constructor(options: TrackConstructorOptions) {
     this.id = String(getUniqueId());
@@ -59,6 +124,21 @@ export default class Track {
     this.variant = options.variant;
     this.details = options.details;
     this.sourceLink = options.sourceLink;
+    this.requesterId = options.requesterId;
+    this.isAutoplay = options.isAutoplay ?? false;
+    this.textToSpeech = options.textToSpeech;
+  }
+
+  public getSnapshot(): TrackSnapshot {
+    return {
+      value: this.value,
+      variant: this.variant,
+      sourceLink: this.sourceLink,
+      requesterId: this.requesterId,
+      isAutoplay: this.isAutoplay,
+      details: this.details ? { ...this.details } : undefined,
+      textToSpeech: this.textToSpeech ? { ...this.textToSpeech } : undefined,
+    };
   }
 
   public getSeekTimeMs(): number | null {
@@ -83,8 +163,29 @@ export default class Track {
     }
   }
 
-  private encodeStream(stream: Readable | NodeJS.ReadableStream, options: AudioResourceOptions): AudioResource<Track> {
-    const { speed, shouldNormalizeAudio = true } = options;
+  public canTakePcmStream(): boolean {
+    return Boolean(this.detachPcmStream);
+  }
+
+  /**
+   * After this, the latest audio resource no longer outputs anything, and the caller is responsible for destroying the stream.
+   */
+  public takePcmStream(): PcmStream | null {
+    const { detachPcmStream } = this;
+    this.detachPcmStream = null;
+    return detachPcmStream ? detachPcmStream() : null;
+  }
+
+  /**
+   * @param input A stream, or a file path / URL that FFmpeg can read from directly (which also allows seeking)
+   * @param onDestroy Cleans up the processes that the input stream comes from
+   */
+  private encodeStream(
+    input: Readable | NodeJS.ReadableStream | string,
+    options: AudioResourceOptions,
+    onDestroy?: () => void,
+  ): AudioResource<Track> {
+    const { speed, shouldNormalizeAudio = true, filters = {} } = options;
 
     // https://ffmpeg.org/ffmpeg-filters.html#loudnorm
     // https://k.ylo.ph/2016/04/04/loudnorm.html
@@ -96,7 +197,10 @@ export default class Track {
 
     const audioFilters: [string, string][] = filterOutFalsy([
       this.variant !== TrackVariant.TEXT && Boolean(speed) && ['atempo', String(speed)],
+      ...(this.variant !== TrackVariant.TEXT ? getFfmpegAudioFilters(filters) : []),
       this.variant !== TrackVariant.TEXT && shouldNormalizeAudio && ['loudnorm', `${loudNormOptions.join(':')}`],
+      // Volume is applied last so that normalizing the audio does not undo it
+      filters.volume != null && filters.volume !== 1 && ['volume', String(filters.volume)],
     ]);
 
     const audioFilterArg: [string, string] | null = audioFilters.length
@@ -104,6 +208,8 @@ export default class Track {
       : null;
 
     const ffmpegArgs: ([string, string] | [string] | false | null)[] = [
+      typeof input === 'string' && Boolean(options.seek) && ['-ss', String(options.seek)],
+      typeof input === 'string' && ['-i', input],
       ['-analyzeduration', '0'],
       ['-loglevel', '0'],
       ['-f', 's16le'],
@@ -114,17 +220,49 @@ export default class Track {
     const transcoder = new prism.FFmpeg({
       args: filterOutFalsy(ffmpegArgs.flat()),
     });
-    const s16le = stream.pipe(transcoder);
+    const s16le = typeof input === 'string' ? transcoder : input.pipe(transcoder);
+    return this.encodePcm(s16le, () => {
+      transcoder.destroy();
+      onDestroy?.();
+    });
+  }
+
+  /**
+   * @param destroy Cleans up the processes that the PCM stream comes from
+   */
+  private encodePcm(s16le: Readable, destroy: () => void): AudioResource<Track> {
     const encoder = new prism.opus.Encoder({ rate: 48000, channels: 2, frameSize: 960 });
     const opus = s16le.pipe(encoder);
     const resource = createAudioResource(opus, { metadata: this, inputType: StreamType.Opus });
+    let isPcmStreamTaken = false;
+    const detachPcmStream = () => {
+      isPcmStreamTaken = true;
+      s16le.unpipe(encoder);
+      return { stream: s16le, destroy };
+    };
+    this.detachPcmStream = detachPcmStream;
     resource.playStream.on('close', () => {
+      if (this.detachPcmStream === detachPcmStream) this.detachPcmStream = null;
       // Clean up processes to avoid memory leaks
-      transcoder.destroy();
+      if (!isPcmStreamTaken) destroy();
     });
     return resource;
   }
 
+  /**
+   * Takes over the PCM stream of this track's latest audio resource (which should not have started playing yet),
+   * and mixes the end of another track into the start of it.
+   */
+  public crossfadeFrom(from: PcmStream, durationMs: number): AudioResource<Track> {
+    const to = this.takePcmStream();
+    if (!to) throw new Error('The track has no audio to crossfade into.');
+    const mixer = createCrossfadeMixer(from, to.stream, durationMs);
+    return this.encodePcm(mixer, () => {
+      mixer.destroy();
+      to.destroy();
+    });
+  }
+
   private async tryPlayDl(options: AudioResourceOptions): Promise<AudioResource<Track>> {
     // Cookies for play-dl are set in .data/youtube.data
     const source = options.seek
@@ -139,6 +277,16 @@ export default class Track {
     return audioResource;
   }
 
+  /**
+   * play-dl cannot seek SoundCloud streams, so yt-dlp should be used instead when seeking.
+   */
+  private async tryPlayDlSoundCloud(options: AudioResourceOptions): Promise<AudioResource<Track>> {
+    await setUpSoundCloud();
+    const source = await play.stream(this.value);
+    // Encoded like the yt-dlp stream so that the speed, filters and normalization still apply
+    return this.encodeStream(source.stream, options);
+  }
+
   private async tryYtdlExec(options: AudioResourceOptions): Promise<AudioResource<Track>> {
     // https://github.com/discordjs/voice/blob/f1869a9af5a44ec9a4f52c2dd282352b1521427d/examples/music-bot/src/music/track.ts#L46-L76
     return new Promise((resolve, reject) => {
@@ -193,24 +341,29 @@ export default class Track {
         // 3. Manipulating the stream in various ways with FFmpeg (e.g. seeking, playback speed, loudness normalization)
         // 4. Feeding the raw audio data (s16le) into an Opus encoder with the correct settings for Discord's API
         // 5. Creating an audio resource with that Opus encoder
-        const resource = this.encodeStream(stream, options);
-        resource.playStream.on('close', () => {
-          // Clean up processes to avoid memory leaks
-          killProcesses();
-        });
+        // The processes are cleaned up when the resource is destroyed, to avoid memory leaks
+        const resource = this.encodeStream(stream, options, killProcesses);
         return resolve(resource);
       });
     });
   }
 
-  private async openAiTextToSpeech(options: AudioResourceOptions): Promise<AudioResource<Track>> {
+  private getTextToSpeechSpeed(options: AudioResourceOptions): number {
+    const speed = (this.textToSpeech?.speakingRate ?? 1) * (options.speed || 1);
+    return Math.min(Math.max(speed, MIN_TEXT_TO_SPEECH_SPEED), MAX_TEXT_TO_SPEECH_SPEED);
+  }
+
+  /**
+   * @param voice Falls back to the default voice if it is not an OpenAI voice
+   */
+  private async openAiTextToSpeech(options: AudioResourceOptions, voice: string | undefined): Promise<AudioResource<Track>> {
     if (!openai) throw new Error('OpenAI not configured');
     const response = await openai.audio.speech.create({
       model: 'tts-1',
-      voice: 'alloy',
+      voice: OPENAI_TEXT_TO_SPEECH_VOICES.find(openAiVoice => openAiVoice === voice) || 'alloy',
       input: this.value,
       response_format: 'opus',
-      speed: options.speed || 1.0,
+      speed: this.getTextToSpeechSpeed(options),
     });
     if (!response || !response.body) {
       throw new Error('Could not get speech');
@@ -219,18 +372,23 @@ export default class Track {
     return this.encodeStream(stream, options);
   }
 
-  private async googleTextToSpeech(options: AudioResourceOptions): Promise<AudioResource<Track>> {
+  /**
+   * @param voice If not provided, Google picks a voice for the language
+   */
+  private async googleTextToSpeech(options: AudioResourceOptions, voice: string | undefined): Promise<AudioResource<Track>> {
     const client = new GoogleTextToSpeechClient();
     const [response] = await client.synthesizeSpeech({
       input: {
         text: this.value,
       },
       voice: {
-        languageCode: 'en-US',
-        ssmlGender: 'NEUTRAL',
+        languageCode: this.textToSpeech?.language || DEFAULT_TEXT_TO_SPEECH_LANGUAGE,
+        name: voice,
+        ssmlGender: voice ? undefined : 'NEUTRAL',
       },
       audioConfig: {
         audioEncoding: 'OGG_OPUS',
+        speakingRate: this.getTextToSpeechSpeed(options),
       },
     });
     if (!response.audioContent || typeof response.audioContent === 'string') {
@@ -246,13 +404,40 @@ export default class Track {
     // We want to fall through if play-dl doesn't work, or the speed option is provided
     /* eslint-disable no-fallthrough */
     switch (this.variant) {
+      case TrackVariant.ATTACHMENT: {
+        return this.encodeStream(this.value, options);
+      }
+      case TrackVariant.LOCAL_FILE: {
+        return this.encodeStream(resolveMusicFile(this.value), options);
+      }
       case TrackVariant.TEXT: {
+        // The other provider is used as a fallback, but voices are specific to each provider
+        const voice = this.textToSpeech?.voice;
+        if (this.textToSpeech?.provider === TextToSpeechProvider.OPENAI) {
+          try {
+            const resource = await this.openAiTextToSpeech(options, voice);
+            return resource;
+          } catch (err) {
+            error(err);
+            return this.googleTextToSpeech(options, undefined);
+          }
+        }
         try {
-          const resource = await this.googleTextToSpeech(options);
+          const resource = await this.googleTextToSpeech(options, voice);
           return resource;
         } catch (err) {
           error(err);
-          return this.openAiTextToSpeech(options);
+          return this.openAiTextToSpeech(options, undefined);
+        }
+      }
+      case TrackVariant.SOUNDCLOUD: {
+        if (!options.seek) {
+          try {
+            const audioResource = await this.tryPlayDlSoundCloud(options);
+            return audioResource;
+          } catch (err) {
+            error('Error playing resource from play-dl', err);
+          }
         }
       }
       case TrackVariant.YOUTUBE_LIVESTREAM:
@@ -274,6 +459,31 @@ export default class Track {
     /* eslint-enable no-fallthrough */
   }
 
+  /**
+   * Only YouTube videos have chapters. They are fetched the first time that they are needed.
+   */
+  public getChapters(): Promise<Chapter[]> {
+    if (this.chapters) return this.chapters;
+    const promise = this.variant === TrackVariant.YOUTUBE_VOD
+      ? getYoutubeChaptersFromUrl(this.value).catch(err => {
+        error(err);
+        return [];
+      })
+      : Promise.resolve([]);
+    this.chapters = promise.then(chapters => {
+      this.loadedChapters = chapters;
+      return chapters;
+    });
+    return this.chapters;
+  }
+
+  /**
+   * @returns The chapters if they were already fetched, for when they can't be waited on (e.g. to decide which buttons to show)
+   */
+  public getLoadedChapters(): Chapter[] {
+    return this.loadedChapters;
+  }
+
   public async getVideoDetails(): Promise<VideoDetails> {
     if (this.details) return { ...this.details };
     switch (this.variant) {
@@ -310,6 +520,25 @@ export default class Track {
         };
         break;
       }
+      case TrackVariant.ATTACHMENT: {
+        this.details = await getMediaDetails(this.value, decodeURIComponent(new URL(this.value).pathname.split('/').pop() || 'Attachment'));
+        break;
+      }
+      case TrackVariant.LOCAL_FILE: {
+        this.details = await getMediaDetails(resolveMusicFile(this.value), path.basename(this.value));
+        break;
+      }
+      case TrackVariant.SOUNDCLOUD: {
+        this.details = await getSoundCloudDetails(this.value).catch(err => {
+          error(err);
+          return getDetailsWithYtdlp(this.value);
+        });
+        break;
+      }
+      case TrackVariant.BANDCAMP: {
+        this.details = await getDetailsWithYtdlp(this.value);
+        break;
+      }
       case TrackVariant.ARBITRARY:
       default: {
         // TODO: Add support for fetching title from URL of arbitrary website (HTML title tag probably)
@@ -0,0 +1,167 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import type { CreationAttributes } from 'sequelize';
+import type { Command } from 'src/types';
+
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { checkVoiceErrors, getSubcommand, parseInput } from 'src/discord-utils';
+import { error } from 'src/logging';
+import { MAX_TEXT_TO_SPEECH_SPEED, MIN_TEXT_TO_SPEECH_SPEED, OPENAI_TEXT_TO_SPEECH_VOICES } from 'src/constants';
+import { PlayerTtsPreferences, TextToSpeechProvider } from 'src/models/player-tts-preferences';
+import sessions from './sessions';
+import { checkCanUseTextToSpeech, createTextToSpeechTrack } from './text-to-speech';
+
+const commandBuilder = new SlashCommandBuilder();
+commandBuilder
+  .setName('tts')
+  .setDescription('Speak with text-to-speech in the voice channel, and choose the voice that is used.');
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('say');
+  subcommand.setDescription('Speak over whatever is playing, which then continues from where it was.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('text')
+      .setDescription('What to say.')
+      .setRequired(true);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('voice');
+  subcommand.setDescription('Choose how your text-to-speech sounds. Shows your current choices if no options are given.');
+  subcommand.addStringOption(option => {
+    return option
+      .setName('provider')
+      .setDescription('The text-to-speech service to use.')
+      .addChoices(
+        { name: 'Google', value: TextToSpeechProvider.GOOGLE },
+        { name: 'OpenAI', value: TextToSpeechProvider.OPENAI },
+      )
+      .setRequired(false);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('voice')
+      .setDescription(`Google voice name (e.g. en-US-Wavenet-D) or OpenAI voice (${OPENAI_TEXT_TO_SPEECH_VOICES.join(', ')}).`)
+      .setRequired(false);
+  });
+  subcommand.addStringOption(option => {
+    return option
+      .setName('language')
+      .setDescription('Language code for Google, e.g. en-US or fr-FR. OpenAI detects the language by itself.')
+      .setRequired(false);
+  });
+  subcommand.addNumberOption(option => {
+    return option
+      .setName('speed')
+      .setDescription(`How fast to speak, between ${MIN_TEXT_TO_SPEECH_SPEED} and ${MAX_TEXT_TO_SPEECH_SPEED}.`)
+      .setMinValue(MIN_TEXT_TO_SPEECH_SPEED)
+      .setMaxValue(MAX_TEXT_TO_SPEECH_SPEED)
+      .setRequired(false);
+  });
+  return subcommand;
+});
+commandBuilder.addSubcommand(subcommand => {
+  subcommand.setName('reset-voice');
+  subcommand.setDescription('Go back to the default text-to-speech voice.');
+  return subcommand;
+});
+
+async function handleSay(interaction: ChatInputCommandInteraction) {
+  const { text } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    text: string,
+  };
+  const guildId = interaction.guildId!;
+  const userId = interaction.user.id;
+  await checkCanUseTextToSpeech(guildId, userId);
+  const channel = await checkVoiceErrors({ userId, guildId });
+  const session = sessions.get(guildId) || await sessions.create(channel);
+  const { track, excessText } = await createTextToSpeechTrack(text, userId);
+  await session.interrupt(track);
+  await interaction.editReply('Speaking.');
+  if (excessText) {
+    await interaction.followUp({
+      ephemeral: true,
+      content: `Your text was too long, so this part was not spoken:\n${excessText}`,
+    }).catch(error);
+  }
+}
+
+function getPreferencesDescription(preferences: PlayerTtsPreferences | null): string {
+  if (!preferences) return 'You are using the default text-to-speech voice.';
+  return [
+    `Provider: ${preferences.provider === TextToSpeechProvider.OPENAI ? 'OpenAI' : 'Google'}`,
+    `Voice: ${preferences.voice || 'Default'}`,
+    `Language: ${preferences.language || 'Default'}`,
+    `Speed: ${preferences.speaking_rate ?? 1}x`,
+  ].join('\n');
+}
+
+async function handleVoice(interaction: ChatInputCommandInteraction) {
+  const {
+    provider,
+    voice,
+    language,
+    speed,
+  } = await parseInput({ slashCommandData: commandBuilder, interaction }) as {
+    provider?: TextToSpeechProvider,
+    voice?: string,
+    language?: string,
+    speed?: number,
+  };
+  const userId = interaction.user.id;
+  if (provider == null && voice == null && language == null && speed == null) {
+    const preferences = await PlayerTtsPreferences.findByPk(userId);
+    return interaction.editReply(getPreferencesDescription(preferences));
+  }
+  const newPreferences: CreationAttributes<PlayerTtsPreferences> = {
+    user_id: userId,
+  };
+  if (provider != null) newPreferences.provider = provider;
+  if (voice != null) newPreferences.voice = voice.trim() || null;
+  if (language != null) newPreferences.language = language.trim() || null;
+  if (speed != null) newPreferences.speaking_rate = speed;
+  await PlayerTtsPreferences.upsert(newPreferences);
+  const preferences = await PlayerTtsPreferences.findByPk(userId);
+  return interaction.editReply(`Text-to-speech preferences updated.\n${getPreferencesDescription(preferences)}`);
+}
+
+async function handleResetVoice(interaction: ChatInputCommandInteraction) {
+  const numDestroyed = await PlayerTtsPreferences.destroy({
+    where: {
+      user_id: interaction.user.id,
+    },
+  });
+  return interaction.editReply(numDestroyed
+    ? 'You are now using the default text-to-speech voice.'
+    : 'You were already using the default text-to-speech voice.');
+}
+
+const TtsCommand: Command = {
+  guildOnly: true,
+  slashCommandData: commandBuilder,
+  runCommand: async interaction => {
+    await interaction.deferReply({
+      ephemeral: true,
+    });
+    const subcommand = getSubcommand(interaction);
+    switch (subcommand) {
+      case 'say': {
+        await handleSay(interaction);
+        break;
+      }
+      case 'voice': {
+        await handleVoice(interaction);
+        break;
+      }
+      case 'reset-voice': {
+        await handleResetVoice(interaction);
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  },
+};
+
+export default TtsCommand;
@@ -1,4 +1,5 @@
 import { TrackVariant, VideoDetails } from './track';
+import type { AudioFilters } from './audio-filters';
 
 export enum QueryType {
   SPOTIFY_LINK,
@@ -17,6 +18,16 @@ export interface TrackData extends VideoDetails {
   value: string,
   sourceLink: string | undefined,
   variant: TrackVariant,
+  requester: {
+    id: string,
+    name: string,
+  } | null,
+  isAutoplay: boolean,
+}
+
+export interface Chapter {
+  title: string,
+  startMs: number,
 }
 
 export interface CurrentTrackPlayTime {
@@ -28,6 +39,24 @@ export interface CurrentTrackPlayTime {
   speed: number,
 }
 
+export interface SkipVoteTally {
+  votes: number,
+  required: number,
+}
+
+export interface BroadcastMember {
+  guildId: string,
+  guildName: string,
+  channelId: string,
+  channelName: string,
+}
+
+export interface BroadcastData {
+  code: string,
+  controller: BroadcastMember,
+  followers: BroadcastMember[],
+}
+
 export interface PlayerStatus {
   currentTime: CurrentTrackPlayTime,
   playbackSpeed: number,
@@ -37,4 +66,14 @@ export interface PlayerStatus {
   currentTrack: TrackData | null,
   queue: TrackData[],
   totalQueueSize: number,
+  skipVotes: SkipVoteTally,
+  filters: AudioFilters,
+  broadcast: BroadcastData | null,
+  chapters: Chapter[],
+  currentChapter: Chapter | null,
+  sleepTimer: {
+    // Null if the player is leaving once the current track is over
+    endsAt: number | null,
+    waitForTrack: boolean,
+  } | null,
 }
@@ -8,6 +8,8 @@ import Session from './session';
 import sessions from './sessions';
 import Track, { VideoDetails } from './track';
 import { handleList } from './queue';
+import { checkIsDj, skipOrVote } from './dj';
+import { getLyricsForTrack, replyWithLyrics } from './lyrics';
 
 const SHOW_QUEUE_ID = 'show-queue';
 
@@ -19,6 +21,7 @@ export function getPlayerButtons(session: Session, interaction?: AnyInteraction)
       : null;
   const customId = interaction && 'customId' in interaction ? interaction.customId : null;
   const showQueueButton = commandName !== 'queue list' && customId !== SHOW_QUEUE_ID;
+  const hasChapters = Boolean(session.getCurrentTrack()?.getLoadedChapters().length);
   const firstRow = new Discord.ActionRowBuilder<ButtonBuilder>({
     components: [
       session.isPaused()
@@ -79,6 +82,21 @@ export function getPlayerButtons(session: Session, interaction?: AnyInteraction)
       //   label: `⏩ ${FAST_FORWARD_BUTTON_TIME / 1000}s`,
       //   style: ButtonStyle.Secondary,
       // }),
+      new ButtonBuilder({
+        customId: 'lyrics',
+        label: 'Lyrics',
+        style: ButtonStyle.Secondary,
+      }),
+      hasChapters && new ButtonBuilder({
+        customId: 'previous-chapter',
+        label: '⏮ Chapter',
+        style: ButtonStyle.Secondary,
+      }),
+      hasChapters && new ButtonBuilder({
+        customId: 'next-chapter',
+        label: '⏭ Chapter',
+        style: ButtonStyle.Secondary,
+      }),
       showQueueButton && new ButtonBuilder({
         customId: SHOW_QUEUE_ID,
         label: 'Show Queue',
@@ -152,7 +170,9 @@ export async function listenForPlayerButtons({
           case 'pause':
           case 'resume':
           case 'rewind':
-          case 'fast-forward': {
+          case 'fast-forward':
+          case 'previous-chapter':
+          case 'next-chapter': {
             await checkVoiceErrorsByInteraction(i);
             break;
           }
@@ -160,6 +180,7 @@ export async function listenForPlayerButtons({
         }
         switch (i.customId) {
           case 'shuffle': {
+            await checkIsDj(guildId!, i.user.id, 'shuffle the queue');
             session.shuffle();
             if (cb) cb();
             break;
@@ -175,12 +196,23 @@ export async function listenForPlayerButtons({
             break;
           }
           case 'clear': {
+            await checkIsDj(guildId!, i.user.id, 'clear the queue');
             session.clear();
             if (cb) cb();
             break;
           }
           case 'skip': {
-            await session.skip();
+            const { skipped, votes, required } = await skipOrVote({
+              session,
+              guildId: guildId!,
+              userId: i.user.id,
+            });
+            if (!skipped) {
+              await i.followUp({
+                ephemeral: true,
+                content: `Voted to skip (${votes}/${required} votes).`,
+              });
+            }
             if (cb) cb();
             break;
           }
@@ -208,8 +240,26 @@ export async function listenForPlayerButtons({
             if (cb) cb();
             break;
           }
+          case 'previous-chapter': {
+            await session.seekToChapter(-1);
+            if (cb) cb();
+            break;
+          }
+          case 'next-chapter': {
+            await session.seekToChapter(1);
+            if (cb) cb();
+            break;
+          }
           case SHOW_QUEUE_ID: {
-            await handleList(i, session);
+            await handleList(i, true);
+            break;
+          }
+          case 'lyrics': {
+            const currentTrack = session.getCurrentTrack();
+            if (!currentTrack) throw new Error('Nothing is playing.');
+            const lyrics = await getLyricsForTrack(currentTrack);
+            if (!lyrics) throw new Error('Could not find lyrics.');
+            await replyWithLyrics({ interaction: i, lyrics, isFollowUp: true });
             break;
           }
           default: {
@@ -1,85 +1,194 @@
 import axios from 'axios';
 import YouTubeSr from 'youtube-sr';
+import ytdlExec from 'youtube-dl-exec';
 import pLimit from 'p-limit';
 import chunk from 'lodash.chunk';
 import { parse as parseIso8601Duration, toSeconds } from 'iso8601-duration';
 
 import type { GenericMapping, IntentionalAny } from 'src/types';
-import { CONCURRENCY_LIMIT, MAX_YT_PLAYLIST_PAGE_FETCHES, YT_PLAYLIST_PAGE_SIZE } from 'src/constants';
+import {
+  CONCURRENCY_LIMIT,
+  MAX_YT_PLAYLIST_PAGE_FETCHES,
+  MIN_YTDLP_CHAPTERS_DURATION,
+  YT_PLAYLIST_PAGE_SIZE,
+} from 'src/constants';
 import { log, error } from 'src/logging';
+import { PlayerSpotifyMappings } from 'src/models/player-spotify-mappings';
 import { filterOutFalsy } from 'src/utils';
 import Track, { TrackVariant, VideoDetails } from './track';
-import { Query, QueryType } from './types';
+import { Chapter, Query, QueryType } from './types';
+import { LinkType, parseSpotifyLink } from './spotify';
+import { parseChaptersFromDescription } from './chapters';
 
 type TracksFetchedCallback = (newTracks: Track[]) => void;
 
-export const getTracksFromQueries = (() => {
-  const queryCache = new Map<string, string>();
-  return async (queries: Query[], tracksFetchedCb?: TracksFetchedCallback): Promise<Track[]> => {
-    // Arbitrary concurrency limit to prevent rate limiting or audio hitching.
-    const limit = pLimit(CONCURRENCY_LIMIT);
-    const promises = queries.map(({ query, sourceLink, type }) => limit(async () => {
-      try {
-        if (queryCache.has(query)) {
-          return new Track({
-            value: queryCache.get(query)!,
-            variant: TrackVariant.YOUTUBE_VOD,
-            sourceLink,
-          });
-        }
-        const [firstResult, secondResult] = await YouTubeSr.search(query, {
-          type: 'video',
-          limit: 2,
-        });
-        // For some queries, like "Justin Bieber What Do You Mean", the first result has no indiciation that it's a music video,
-        // but we need to somehow still prefer the second result, so we've decided that if the second result includes "lyrics", that is preferred
-        const firstResultIsMusicVideo = [
-          'music video',
-          'hd video',
-        ].some(match => firstResult?.title?.toLowerCase().includes(match));
-        const secondResultIsLyrics = secondResult?.title?.toLowerCase().includes('lyrics');
-        const shouldUseSecondResult = secondResult
-          && type === QueryType.SPOTIFY_LINK
-          && (firstResultIsMusicVideo || secondResultIsLyrics);
-        const res = shouldUseSecondResult ? secondResult : firstResult;
-        const youtubeLink = `https://youtube.com/watch?v=${res.id}`;
-        const youtubeTitle = res.title;
-        const youtubeDuration = res.duration;
-        queryCache.set(query, youtubeLink);
-        const newTrack = new Track({
+interface CachedResult {
+  youtubeLink: string,
+  details?: VideoDetails,
+}
+
+// Keyed by the Spotify link for Spotify queries (since those are also persisted), otherwise by the query
+const queryCache = new Map<string, CachedResult>();
+
+function getCacheKey({ query, sourceLink, type }: Query): string {
+  return type === QueryType.SPOTIFY_LINK && sourceLink ? sourceLink : query;
+}
+
+export function getYoutubeVideoId(link: string): string | null {
+  try {
+    const url = new URL(link);
+    if (url.hostname === 'youtu.be') return url.pathname.slice(1) || null;
+    return url.searchParams.get('v');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Loads the YouTube videos that Spotify tracks were matched with before the bot was restarted into the query cache.
+ */
+async function loadSpotifyMappings(queries: Query[]): Promise<void> {
+  const spotifyLinks = queries
+    .filter(query => query.type === QueryType.SPOTIFY_LINK && query.sourceLink && !queryCache.has(query.sourceLink))
+    .map(query => query.sourceLink!);
+  if (!spotifyLinks.length) return;
+  try {
+    const mappings = await PlayerSpotifyMappings.findAll({
+      where: {
+        spotify_link: spotifyLinks,
+      },
+    });
+    mappings.forEach(mapping => {
+      queryCache.set(mapping.spotify_link, {
+        youtubeLink: mapping.youtube_link,
+        details: mapping.title ? {
+          title: mapping.title,
+          duration: mapping.duration ?? undefined,
+        } : undefined,
+      });
+    });
+  } catch (err) {
+    // YouTube can still be searched if this fails
+    error(err);
+  }
+}
+
+function saveSpotifyMapping(spotifyLink: string, { youtubeLink, details }: CachedResult): void {
+  PlayerSpotifyMappings.upsert({
+    spotify_link: spotifyLink,
+    youtube_link: youtubeLink,
+    title: details?.title ?? null,
+    duration: details?.duration ?? null,
+  }).catch(error);
+}
+
+/**
+ * Makes the matched YouTube videos be searched again the next time they are played, e.g. if a bad match was found.
+ * @param link A link to a Spotify track or episode, or to a YouTube video that Spotify tracks were matched with
+ * @returns The number of Spotify links that were removed from the cache
+ */
+export async function invalidateSpotifyMappings(link: string): Promise<number> {
+  const youtubeVideoId = YouTubeSr.validate(link, 'VIDEO') ? getYoutubeVideoId(link) : null;
+  let isMatch: (key: string, result: CachedResult) => boolean;
+  let where: { spotify_link: string } | { youtube_link: string };
+  if (youtubeVideoId) {
+    const youtubeLink = `https://youtube.com/watch?v=${youtubeVideoId}`;
+    isMatch = (key, result) => getYoutubeVideoId(result.youtubeLink) === youtubeVideoId;
+    where = { youtube_link: youtubeLink };
+  } else {
+    const { type, id } = await parseSpotifyLink(link);
+    if (type !== LinkType.TRACK && type !== LinkType.EPISODE) {
+      throw new Error('Provide a link to a Spotify track or episode, or to the YouTube video it was matched with.');
+    }
+    // The links that are cached come from the Spotify API, which never includes query parameters
+    const spotifyLink = `https://open.spotify.com/${type === LinkType.TRACK ? 'track' : 'episode'}/${id}`;
+    isMatch = key => key === spotifyLink;
+    where = { spotify_link: spotifyLink };
+  }
+
+  const removedLinks = new Set<string>();
+  const mappings = await PlayerSpotifyMappings.findAll({ where });
+  await PlayerSpotifyMappings.destroy({ where });
+  mappings.forEach(mapping => removedLinks.add(mapping.spotify_link));
+  queryCache.forEach((result, key) => {
+    if (!isMatch(key, result)) return;
+    queryCache.delete(key);
+    if (key.startsWith('https://open.spotify.com/')) removedLinks.add(key);
+  });
+  return removedLinks.size;
+}
+
+export async function getTracksFromQueries(queries: Query[], tracksFetchedCb?: TracksFetchedCallback): Promise<Track[]> {
+  await loadSpotifyMappings(queries);
+  // Arbitrary concurrency limit to prevent rate limiting or audio hitching.
+  const limit = pLimit(CONCURRENCY_LIMIT);
+  const promises = queries.map(queryData => limit(async () => {
+    const { query, sourceLink, type } = queryData;
+    const cacheKey = getCacheKey(queryData);
+    try {
+      if (queryCache.has(cacheKey)) {
+        const { youtubeLink, details } = queryCache.get(cacheKey)!;
+        return new Track({
           value: youtubeLink,
           variant: TrackVariant.YOUTUBE_VOD,
-          details: youtubeTitle ? {
-            title: youtubeTitle,
-            duration: youtubeDuration,
-          } : undefined,
+          details,
           sourceLink,
         });
-        // We can't do this because this messes with the order of the queries that get enqueued
-        // if (tracksFetchedCb) {
-        //   tracksFetchedCb([newTrack]);
-        // }
-        return newTrack;
-      } catch (err) {
-        log('Could not fetch YouTube link for query', query);
-        return null;
       }
-    }));
+      const [firstResult, secondResult] = await YouTubeSr.search(query, {
+        type: 'video',
+        limit: 2,
+      });
+      // For some queries, like "Justin Bieber What Do You Mean", the first result has no indiciation that it's a music video,
+      // but we need to somehow still prefer the second result, so we've decided that if the second result includes "lyrics", that is preferred
+      const firstResultIsMusicVideo = [
+        'music video',
+        'hd video',
+      ].some(match => firstResult?.title?.toLowerCase().includes(match));
+      const secondResultIsLyrics = secondResult?.title?.toLowerCase().includes('lyrics');
+      const shouldUseSecondResult = secondResult
+        && type === QueryType.SPOTIFY_LINK
+        && (firstResultIsMusicVideo || secondResultIsLyrics);
+      const res = shouldUseSecondResult ? secondResult : firstResult;
+      const result: CachedResult = {
+        youtubeLink: `https://youtube.com/watch?v=${res.id}`,
+        details: res.title ? {
+          title: res.title,
+          duration: res.duration,
+        } : undefined,
+      };
+      queryCache.set(cacheKey, result);
+      if (type === QueryType.SPOTIFY_LINK && sourceLink) saveSpotifyMapping(sourceLink, result);
+      const newTrack = new Track({
+        value: result.youtubeLink,
+        variant: TrackVariant.YOUTUBE_VOD,
+        details: result.details,
+        sourceLink,
+      });
+      // We can't do this because this messes with the order of the queries that get enqueued
+      // if (tracksFetchedCb) {
+      //   tracksFetchedCb([newTrack]);
+      // }
+      return newTrack;
+    } catch (err) {
+      log('Could not fetch YouTube link for query', query);
+      return null;
+    }
+  }));
 
-    // Chunk this and do it sequentially so we can maintain the original queueing order,
-    // but still provide incremental progress while we continually fetch
-    const chunks = chunk(promises, CONCURRENCY_LIMIT);
-    for (let i = 0; i < chunks.length; i++) {
-      const tracks = await Promise.all(chunks[i]);
-      if (tracksFetchedCb) {
-        tracksFetchedCb(filterOutFalsy(tracks));
-      }
+  // Chunk this and do it sequentially so we can maintain the original queueing order,
+  // but still provide incremental progress while we continually fetch
+  const chunks = chunk(promises, CONCURRENCY_LIMIT);
+  for (let i = 0; i < chunks.length; i++) {
+    const tracks = await Promise.all(chunks[i]);
+    if (tracksFetchedCb) {
+      tracksFetchedCb(filterOutFalsy(tracks));
     }
+  }
 
-    const newQueryTracks = await Promise.all(promises);
-    return filterOutFalsy(newQueryTracks);
-  };
-})();
+  const newQueryTracks = await Promise.all(promises);
+  return filterOutFalsy(newQueryTracks);
+}
 
 export async function parseYoutubePlaylistFromApi(playlistUrl: string): Promise<Track[]> {
   if (!process.env.YOUTUBE_API_KEY) throw new Error('YouTube API key not configured.');
@@ -162,17 +271,55 @@ export async function parseYoutubePlaylist(playlistUrl: string): Promise<Track[]
   }
 }
 
-export const getDetailsFromUrl = (() => {
+// Both the details and the chapters of a video come from its page, so it is only fetched once
+const getVideo = (() => {
   const limit = pLimit(CONCURRENCY_LIMIT);
-  const cache = new Map<string, Promise<VideoDetails>>();
-  return async (url: string): Promise<VideoDetails> => {
+  const cache = new Map<string, ReturnType<typeof YouTubeSr.getVideo>>();
+  return (url: string): ReturnType<typeof YouTubeSr.getVideo> => {
+    if (cache.has(url)) return cache.get(url)!;
+    log('Fetching YouTube video', url);
+    const promise = limit(() => YouTubeSr.getVideo(url));
+    cache.set(url, promise);
+    return promise;
+  };
+})();
+
+export async function getDetailsFromUrl(url: string): Promise<VideoDetails> {
+  const { title, duration } = await getVideo(url);
+  if (!title) throw new Error('Could not fetch title');
+  return { title, duration };
+}
+
+async function getChaptersWithYtdlp(url: string): Promise<Chapter[]> {
+  const data = await ytdlExec(url, {
+    dumpSingleJson: true,
+    noWarnings: true,
+  });
+  if (typeof data === 'string') return [];
+  // The types from youtube-dl-exec are missing the chapters
+  const { chapters } = data as unknown as { chapters: { title: string, start_time: number }[] | null };
+  return (chapters || []).map(chapter => ({
+    title: chapter.title,
+    startMs: Math.round(chapter.start_time * 1000),
+  }));
+}
+
+/**
+ * Chapters are parsed from the description where possible, since yt-dlp is much slower.
+ * yt-dlp also knows about chapters that YouTube generated automatically, so it is used for long videos without any in their description.
+ */
+export const getChaptersFromUrl = (() => {
+  const cache = new Map<string, Promise<Chapter[]>>();
+  return (url: string): Promise<Chapter[]> => {
     if (cache.has(url)) return cache.get(url)!;
-    log('Fetching YouTube title for video', url);
-    const promise: Promise<VideoDetails> = limit(() => YouTubeSr.getVideo(url)).then(videoRes => {
-      const { title, duration } = videoRes;
-      if (!title) throw new Error('Could not fetch title');
-      return { title, duration };
+    const promise = getVideo(url).then(video => {
+      const chapters = parseChaptersFromDescription(video.description || '');
+      if (chapters.length || video.duration < MIN_YTDLP_CHAPTERS_DURATION) return chapters;
+      log('Fetching chapters with yt-dlp for video', url);
+      return getChaptersWithYtdlp(url);
     });
+    // Don't cache failures, so that they can be retried
+    promise.catch(() => cache.delete(url));
     cache.set(url, promise);
     return promise;
   };
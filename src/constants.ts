@@ -31,6 +31,20 @@ export const YT_PLAYLIST_PAGE_SIZE = 50;
 export const MAX_YT_PLAYLIST_PAGE_FETCHES = 4;
 
 export const MOVIE_DATABASE_API_ROOT = 'https://www.omdbapi.com';
+export const MIN_MOVIE_RATING = 1;
+export const MAX_MOVIE_RATING = 10;
+export const MOVIE_HISTORY_PAGE_SIZE = 10;
+export const MAX_MOVIE_IMPORT_LENGTH = 500;
+export const MAX_MOVIE_IMPORT_FILE_SIZE = 1024 * 1024; // in bytes
+export const DEFAULT_MOVIE_NIGHT_POLL_CANDIDATES = 4;
+export const MAX_MOVIE_NIGHT_POLL_CANDIDATES = 10;
+export const DEFAULT_MOVIE_NIGHT_POLL_DURATION = 60 * 60 * 1000;
+export const MAX_MOVIE_NIGHT_POLL_DURATION = 14 * 24 * 60 * 60 * 1000; // timers overflow after about 24.8 days
+export const MOVIE_NIGHT_REMINDER_TIMES = [30 * ONE_MINUTE_MS, 5 * ONE_MINUTE_MS]; // how long before a movie night to ping
+export const DEFAULT_MOVIE_NIGHT_LENGTH = 3 * 60 * ONE_MINUTE_MS; // for scheduled events, if the movie's length is unknown
+export const MISSED_MOVIE_NIGHT_GRACE_PERIOD = 15 * ONE_MINUTE_MS; // movie nights missed by longer than this are skipped
+
+export const LYRICS_API_ROOT = 'https://lrclib.net/api';
 
 export const SPOTIFY_API_ROOT = 'https://api.spotify.com/v1';
 export const SPOTIFY_ABLUMS_FETCH_SIZE = 20;
@@ -39,8 +53,36 @@ export const MAX_SPOTIFY_PAGE_FETCHES = 4;
 
 export const MAX_QUEUE_LENGTH = 300;
 export const QUEUE_SNIPPET_LENGTH = 10;
+export const PLAYER_SESSION_SAVE_INTERVAL = 30 * 1000;
+export const PLAYER_SESSION_SAVE_DEBOUNCE = 2 * 1000;
+export const MAX_PLAYLIST_LENGTH = 500;
+export const PLAYER_HISTORY_PAGE_SIZE = 10;
+export const QUEUE_PAGE_SIZE = 10;
+export const MAX_QUEUE_FETCH = 100;
+export const MAX_QUEUE_IMPORT_LENGTH = 500;
+export const MAX_QUEUE_IMPORT_FILE_SIZE = 1024 * 1024; // in bytes
+export const MAX_PLAYER_HISTORY_FETCH = 100;
+export const PLAYER_STATS_LEADERBOARD_SIZE = 10;
+export const MIN_PLAYER_SCHEDULE_INTERVAL = 60 * 60; // in seconds
+export const MISSED_PLAYER_SCHEDULE_GRACE_PERIOD = 5 * 60 * 1000; // one-time schedules missed by longer than this are skipped
+export const DEFAULT_VOTE_SKIP_THRESHOLD = 50; // percentage of listeners
+export const DEFAULT_PLAYER_ALONE_TIMEOUT_MINUTES = 5;
+export const DEFAULT_PLAYER_IDLE_TIMEOUT_MINUTES = 10;
+export const PLAYER_PREBUFFER_TIME = 15 * 1000; // how long before the end of a track to start loading the next one
+export const PLAYER_TRANSITION_CHECK_INTERVAL = 1000;
+export const MAX_CROSSFADE_SECONDS = 12;
+export const AUTOPLAY_HISTORY_SIZE = 25; // autoplay avoids repeating this many recent plays
+export const LYRICS_PAGE_LENGTH = 4000; // embed descriptions can be at most 4096 characters
+export const LYRICS_CACHE_SIZE = 200;
+export const MUSIC_DIRECTORY_CACHE_TIME = 60 * 1000;
+export const MIN_YTDLP_CHAPTERS_DURATION = 10 * 60 * 1000; // shorter videos are not worth looking up chapters for with yt-dlp
 
 export const MAX_TEXT_TO_SPEECH_LENGTH = 4000;
+// Both Google and OpenAI support speaking rates in this range
+export const MIN_TEXT_TO_SPEECH_SPEED = 0.25;
+export const MAX_TEXT_TO_SPEECH_SPEED = 4;
+export const OPENAI_TEXT_TO_SPEECH_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+export const DEFAULT_TEXT_TO_SPEECH_LANGUAGE = 'en-US';
 
 export const CONCURRENCY_LIMIT = 10;
 
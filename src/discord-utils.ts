@@ -24,6 +24,7 @@ import {
   ButtonStyle,
   InteractionType,
   ContextMenuCommandInteraction,
+  AutocompleteInteraction,
   ButtonInteraction,
   ComponentType,
   ApplicationCommandOptionType,
@@ -38,6 +39,8 @@ import {
   TextInputStyle,
   ModalBuilder,
   TextInputBuilder,
+  InteractionCollector,
+  CollectedMessageInteraction,
 } from 'discord.js';
 
 import type {
@@ -59,7 +62,7 @@ import dotenv from 'dotenv';
 import emojiRegex from 'emoji-regex/RGI_Emoji';
 import get from 'lodash.get';
 import chunk from 'lodash.chunk';
-import { RateLimiterMemory } from 'rate-limiter-flexible';
+import { RateLimiterMemory, RateLimiterRes } from 'rate-limiter-flexible';
 
 import {
   BULK_MESSAGES_LIMIT,
@@ -75,7 +78,7 @@ import {
 } from 'src/constants';
 import { error, log } from 'src/logging';
 import { client } from 'src/client';
-import { array, chunkString, filterOutFalsy, humanizeDuration } from 'src/utils';
+import { array, chunkString, filterOutFalsy, humanizeDuration, sleep } from 'src/utils';
 import { APIApplicationCommandOption, ChannelType } from 'discord-api-types/v10';
 import { Reminder } from './models/reminders';
 
@@ -109,6 +112,9 @@ export function isButton(interaction: Interaction): interaction is ButtonInterac
 export function isContextMenu(interaction: BaseInteraction): interaction is ContextMenuCommandInteraction {
   return interaction.type === InteractionType.ApplicationCommand && interaction.isContextMenuCommand();
 }
+export function isAutocomplete(interaction: BaseInteraction): interaction is AutocompleteInteraction {
+  return interaction.type === InteractionType.ApplicationCommandAutocomplete;
+}
 
 export function getErrorMsg(err: unknown): string {
   const name: string | undefined = get(err, 'name');
@@ -1184,8 +1190,24 @@ export function getRateLimiter(options: {
     }
   };
 
+  const consumeOrWait = async (rateLimiter: RateLimiterMemory, key: string, points: number): Promise<void> => {
+    try {
+      await rateLimiter.consume(key, points);
+    } catch (err) {
+      if (!(err instanceof RateLimiterRes)) throw err;
+      await sleep(err.msBeforeNext);
+      await consumeOrWait(rateLimiter, key, points);
+    }
+  };
+
+  const wait: RateLimitAttemptFn = async ({ userId, guildId }, points = 1) => {
+    if (userRateLimiter) await consumeOrWait(userRateLimiter, userId, points);
+    if (guildId && guildRateLimiter) await consumeOrWait(guildRateLimiter, guildId, points);
+  };
+
   return {
     attempt,
+    wait,
   };
 }
 
@@ -1256,12 +1278,15 @@ type ListenForButtonsOptions = {
   interaction?: AnyInteraction,
 });
 
+/**
+ * @returns The collector, so that it can be stopped before the message is done with
+ */
 export async function listenForButtons({
   interaction,
   message,
   handlers,
   cleanupCb,
-}: ListenForButtonsOptions): Promise<void> {
+}: ListenForButtonsOptions): Promise<InteractionCollector<CollectedMessageInteraction> | null> {
   const time = interaction
     ? interaction.createdTimestamp + INTERACTION_MAX_TIMEOUT - Date.now()
     : undefined;
@@ -1300,9 +1325,11 @@ export async function listenForButtons({
       log('Ended collection of message components.', 'Reason:', reason);
       removeButtons({ interaction, message }).catch(error);
     });
+    return collector ?? null;
   } catch (err) {
     log('Entered catch block for player buttons collector.');
     removeButtons({ interaction, message }).catch(error);
+    return null;
   }
 }
 
@@ -1363,6 +1390,144 @@ export async function replyWithButtons({
   return message;
 }
 
+const PREVIOUS_PAGE_ID = 'previous-page';
+const NEXT_PAGE_ID = 'next-page';
+const PAGE_NUMBER_ID = 'page-number';
+
+interface PageSelectMenu {
+  id: string,
+  placeholder: string,
+  options: SelectMenuComponentOptionData[],
+  cb: (value: string, i: AnyInteraction) => Promise<unknown>,
+}
+
+interface Page {
+  data: Omit<InteractionEditReplyOptions, 'components'>,
+  numPages: number,
+  buttons?: ButtonConfigWithHandler[],
+  selectMenus?: PageSelectMenu[],
+}
+
+/**
+ * Replies with previous/next buttons to page through content.
+ * The page is fetched again after any button is clicked, since the page's own buttons may have changed the content.
+ * Note: A message can only have 5 rows of components, and the page navigation takes up one of them.
+ *
+ * @param isFollowUp Whether the pages should be sent as a new message instead of replacing the original one
+ */
+export async function replyWithPages({
+  interaction,
+  getPage,
+  isFollowUp,
+}: {
+  interaction: AnyInteraction,
+  getPage: (pageIdx: number) => Promise<Page>,
+  isFollowUp?: boolean,
+}): Promise<void> {
+  let pageIdx = 0;
+  let page = await getPage(pageIdx);
+  let message: Message | undefined;
+
+  const render = () => {
+    const rows: (ActionRowBuilder<ButtonBuilder> | ActionRowBuilder<StringSelectMenuBuilder>)[] = [
+      ...(page.selectMenus || []).filter(menu => menu.options.length).map(menu => new ActionRowBuilder<StringSelectMenuBuilder>({
+        components: [
+          new StringSelectMenuBuilder({
+            customId: menu.id,
+            placeholder: menu.placeholder,
+            options: menu.options.map(o => ({
+              ...o,
+              label: o.label.slice(0, 100),
+            })).slice(0, 25),
+          }),
+        ],
+      })),
+      ...chunk(page.buttons || [], 5).map(buttons => getButtonsRow(buttons)),
+    ];
+    if (page.numPages > 1) {
+      rows.push(new ActionRowBuilder<ButtonBuilder>({
+        components: [
+          new ButtonBuilder({
+            customId: PREVIOUS_PAGE_ID,
+            label: 'Previous',
+            style: ButtonStyle.Secondary,
+            disabled: pageIdx === 0,
+          }),
+          new ButtonBuilder({
+            customId: PAGE_NUMBER_ID,
+            label: `${pageIdx + 1}/${page.numPages}`,
+            style: ButtonStyle.Secondary,
+            disabled: true,
+          }),
+          new ButtonBuilder({
+            customId: NEXT_PAGE_ID,
+            label: 'Next',
+            style: ButtonStyle.Secondary,
+            disabled: pageIdx >= page.numPages - 1,
+          }),
+        ],
+      }));
+    }
+    if (message && isFollowUp) {
+      return interaction.webhook.editMessage(message.id, {
+        ...page.data,
+        components: rows,
+      });
+    }
+    if (isFollowUp) {
+      return interaction.followUp({
+        ...page.data,
+        content: page.data.content ?? undefined,
+        ephemeral: true,
+        components: rows,
+      });
+    }
+    return interaction.editReply({
+      ...page.data,
+      components: rows,
+    });
+  };
+
+  message = await render();
+  const collector = interaction.channel?.createMessageComponentCollector({
+    filter: i => i.message.id === message?.id,
+    time: interaction.createdTimestamp + INTERACTION_MAX_TIMEOUT - Date.now(),
+  });
+  collector?.on('collect', async i => {
+    await i.deferUpdate().catch(() => {
+      log('Could not defer update for interaction', i.customId);
+    });
+    try {
+      if (i.customId === PREVIOUS_PAGE_ID) {
+        pageIdx = Math.max(0, pageIdx - 1);
+      } else if (i.customId === NEXT_PAGE_ID) {
+        pageIdx = Math.min(page.numPages - 1, pageIdx + 1);
+      } else if (i.isStringSelectMenu()) {
+        const menu = page.selectMenus?.find(m => m.id === i.customId);
+        if (menu) await menu.cb(i.values[0], i);
+      } else {
+        const button = page.buttons?.find(b => b.id === i.customId);
+        if (button) await button.cb(i);
+      }
+      page = await getPage(pageIdx);
+      // The number of pages may have decreased since the last render
+      if (page.numPages > 0 && pageIdx >= page.numPages) {
+        pageIdx = page.numPages - 1;
+        page = await getPage(pageIdx);
+      }
+      await render();
+    } catch (err) {
+      await i.followUp({
+        ephemeral: true,
+        content: getErrorMsg(err),
+      }).catch(error);
+    }
+  });
+  collector?.on('end', () => {
+    removeButtons({ interaction, message: isFollowUp ? message : undefined }).catch(error);
+  });
+}
+
 export async function getResponseFromModal({
   interaction,
   id,
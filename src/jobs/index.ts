@@ -1,11 +1,21 @@
 import ReactionRolesJobs from './reaction-roles';
 import RemindersJobs from './reminders';
+import PlayerSessionsJobs from './player-sessions';
+import PlayerSchedulesJobs from './player-schedules';
+import MovieNightPollsJobs from './movie-night-polls';
+import MovieNightsJobs from './movie-nights';
+import MovieWatchesJobs from './movie-watches';
 
 type Jobs = (() => Promise<void>)[];
 
 const jobs: Jobs = [
   ...ReactionRolesJobs,
   ...RemindersJobs,
+  ...PlayerSessionsJobs,
+  ...PlayerSchedulesJobs,
+  ...MovieNightPollsJobs,
+  ...MovieNightsJobs,
+  ...MovieWatchesJobs,
 ];
 
 export default jobs;
@@ -0,0 +1,46 @@
+import { CronJob } from 'cron';
+import { MovieNightPolls, MovieNightPoll } from 'src/models/movie-night-polls';
+import { error } from 'src/logging';
+import { closePoll, restorePoll } from 'src/commands/movies/movie-night-polls';
+
+type Deadlines = {
+  [pollId: string]: CronJob;
+};
+const deadlines: Deadlines = {};
+
+export function clearPollDeadline(id: string): void {
+  if (deadlines[id]) {
+    deadlines[id].stop();
+    delete deadlines[id];
+  }
+}
+
+export function setPollDeadline(poll: MovieNightPoll): void {
+  clearPollDeadline(poll.id);
+  // The CronJob breaks if it is created at precisely the same time that it is scheduled for
+  if (poll.closes_at * 1000 - Date.now() < 1000) {
+    closePoll(poll).catch(error);
+    return;
+  }
+  deadlines[poll.id] = new CronJob({
+    cronTime: new Date(poll.closes_at * 1000),
+    start: true,
+    unrefTimeout: true,
+    onTick: () => {
+      closePoll(poll).catch(error);
+    },
+  });
+}
+
+async function loadMovieNightPolls(): Promise<void> {
+  const polls = await MovieNightPolls.findAll({
+    where: {
+      closed_at: null,
+    },
+  });
+  polls.forEach(poll => {
+    restorePoll(poll).catch(error);
+  });
+}
+
+export default [loadMovieNightPolls];
@@ -0,0 +1,98 @@
+import { CronJob } from 'cron';
+import { Op } from 'sequelize';
+import { MovieNights, MovieNight } from 'src/models/movie-nights';
+import { MISSED_MOVIE_NIGHT_GRACE_PERIOD, MOVIE_NIGHT_REMINDER_TIMES } from 'src/constants';
+import { error } from 'src/logging';
+import {
+  endMovieNight,
+  restoreMovieNight,
+  sendMovieNightReminder,
+  skipMovieNight,
+  startMovieNight,
+} from 'src/commands/movies/movie-nights';
+
+type Jobs = {
+  [movieNightId: string]: CronJob[];
+};
+const jobs: Jobs = {};
+
+export function clearMovieNightJobs(id: string): void {
+  if (jobs[id]) {
+    jobs[id].forEach(job => job.stop());
+    delete jobs[id];
+  }
+}
+
+/**
+ * Schedules the reminders before the movie night and its start.
+ */
+export function setMovieNightJobs(movieNight: MovieNight): void {
+  clearMovieNightJobs(movieNight.id);
+  const startMs = movieNight.time * 1000;
+  // The time passed while the bot was offline
+  if (Date.now() - startMs > MISSED_MOVIE_NIGHT_GRACE_PERIOD) {
+    skipMovieNight(movieNight).catch(error);
+    return;
+  }
+  // The CronJob breaks if it is created at precisely the same time that it is scheduled for
+  if (startMs - Date.now() < 1000) {
+    startMovieNight(movieNight).catch(error);
+    return;
+  }
+  const reminderJobs = MOVIE_NIGHT_REMINDER_TIMES
+    .filter(offset => startMs - offset - Date.now() >= 1000)
+    .map(offset => new CronJob({
+      cronTime: new Date(startMs - offset),
+      start: true,
+      unrefTimeout: true,
+      onTick: () => {
+        sendMovieNightReminder(movieNight).catch(error);
+      },
+    }));
+  const startJob = new CronJob({
+    cronTime: new Date(startMs),
+    start: true,
+    unrefTimeout: true,
+    onTick: () => {
+      startMovieNight(movieNight).catch(error);
+    },
+  });
+  jobs[movieNight.id] = [...reminderJobs, startJob];
+}
+
+/**
+ * @param endMs When the movie is over, in epoch time
+ */
+export function setMovieNightEndJob(movieNight: MovieNight, endMs: number): void {
+  clearMovieNightJobs(movieNight.id);
+  if (!movieNight.event_id) return;
+  if (endMs - Date.now() < 1000) {
+    endMovieNight(movieNight).catch(error);
+    return;
+  }
+  jobs[movieNight.id] = [new CronJob({
+    cronTime: new Date(endMs),
+    start: true,
+    unrefTimeout: true,
+    onTick: () => {
+      endMovieNight(movieNight).catch(error);
+    },
+  })];
+}
+
+async function loadMovieNights(): Promise<void> {
+  // Movie nights that have started still have a scheduled event to complete, until it is cleared
+  const movieNights = await MovieNights.findAll({
+    where: {
+      [Op.or]: [
+        { started_at: null },
+        { event_id: { [Op.ne]: null } },
+      ],
+    },
+  });
+  movieNights.forEach(movieNight => {
+    restoreMovieNight(movieNight).catch(error);
+  });
+}
+
+export default [loadMovieNights];
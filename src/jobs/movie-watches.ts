@@ -0,0 +1,3 @@
+import { migrateWatchedMovies } from 'src/commands/movies/watches';
+
+export default [migrateWatchedMovies];
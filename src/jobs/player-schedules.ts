@@ -0,0 +1,104 @@
+import { CronJob } from 'cron';
+import { PlayerSchedules } from 'src/models/player-schedules';
+import { PlayerSettings } from 'src/models/player-settings';
+import { MISSED_PLAYER_SCHEDULE_GRACE_PERIOD } from 'src/constants';
+import { log, error } from 'src/logging';
+import { getChannel, getErrorMsg, isText } from 'src/discord-utils';
+import { play } from 'src/commands/player/play';
+import { getNextInvocationDate } from './reminders';
+
+type Jobs = {
+  [scheduleId: string]: CronJob;
+};
+const jobs: Jobs = {};
+
+export function getNextPlayback(id: string): number | undefined {
+  const job = jobs[id];
+  if (!job) return undefined;
+  return job.nextDate().unix() * 1000;
+}
+
+export async function removePlayerSchedule(id: string): Promise<void> {
+  await PlayerSchedules.destroy({ where: { id } });
+  if (jobs[id]) {
+    jobs[id].stop();
+    delete jobs[id];
+  }
+}
+
+async function sendUpdate(guildId: string, content: string): Promise<void> {
+  const playerSettings = await PlayerSettings.findByPk(guildId);
+  if (!playerSettings?.updates_channel_id) return;
+  const channel = await getChannel(playerSettings.updates_channel_id);
+  if (channel && isText(channel)) await channel.send(content);
+}
+
+/**
+ * If the player is already connected somewhere else in the guild, the tracks are queued there instead.
+ */
+async function playSchedule(schedule: PlayerSchedules): Promise<void> {
+  const channel = await getChannel(schedule.channel_id);
+  if (!channel || !channel.isVoiceBased()) {
+    log(`Could not find voice channel ${schedule.channel_id} in guild ${schedule.guild_id} for player schedule ${schedule.id}`);
+    await removePlayerSchedule(schedule.id);
+    return;
+  }
+  try {
+    await play({
+      invoker: {
+        userId: schedule.owner_id,
+        guildId: schedule.guild_id,
+        channel,
+      },
+      inputs: {
+        favoriteId: schedule.favorite_id,
+        playlistId: schedule.playlist_id,
+      },
+    });
+    log('Started scheduled playback', schedule.id, 'in guild', schedule.guild_id);
+  } catch (err) {
+    error(err);
+    await sendUpdate(schedule.guild_id, `Could not start scheduled playback in <#${schedule.channel_id}>: ${getErrorMsg(err)}`);
+  }
+}
+
+export function setPlayerSchedule(schedule: PlayerSchedules): void {
+  if (jobs[schedule.id]) jobs[schedule.id].stop();
+
+  function handleTick() {
+    playSchedule(schedule).catch(error);
+    if (schedule.interval) {
+      setPlayerSchedule(schedule);
+    } else {
+      removePlayerSchedule(schedule.id).catch(error);
+    }
+  }
+
+  const nextInvocationDate = getNextInvocationDate(schedule.time, schedule.interval);
+  if (nextInvocationDate == null) {
+    // The time passed while the bot was offline, and starting the music long after it was scheduled would be unexpected
+    if (Date.now() - schedule.time * 1000 > MISSED_PLAYER_SCHEDULE_GRACE_PERIOD) {
+      removePlayerSchedule(schedule.id).catch(error);
+      sendUpdate(
+        schedule.guild_id,
+        `Scheduled playback in <#${schedule.channel_id}> for <t:${schedule.time}:f> was skipped because the bot was offline.`,
+      ).catch(error);
+      return;
+    }
+    handleTick();
+  } else {
+    jobs[schedule.id] = new CronJob({
+      cronTime: nextInvocationDate,
+      start: true,
+      unrefTimeout: true,
+      onTick: handleTick,
+    });
+  }
+}
+
+async function loadPlayerSchedules(): Promise<void> {
+  const schedules = await PlayerSchedules.findAll();
+  schedules.forEach(schedule => setPlayerSchedule(schedule));
+}
+
+export default [loadPlayerSchedules];
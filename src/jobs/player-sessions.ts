@@ -0,0 +1,98 @@
+import { ButtonStyle } from 'discord.js';
+import { PlayerSessions } from 'src/models/player-sessions';
+import { PlayerSettings } from 'src/models/player-settings';
+import { log, error } from 'src/logging';
+import { checkVoiceErrors, getButtonsRow, getChannel, getErrorMsg, isText, listenForButtons } from 'src/discord-utils';
+import sessions from 'src/commands/player/sessions';
+
+async function restoreSession(snapshot: PlayerSessions): Promise<void> {
+  if (sessions.get(snapshot.guild_id)) {
+    log('Session already exists, so it will not be restored for guild', snapshot.guild_id);
+    return;
+  }
+  const channel = await getChannel(snapshot.channel_id);
+  if (!channel || !channel.isVoiceBased()) {
+    log(`Could not find voice channel ${snapshot.channel_id} in guild ${snapshot.guild_id} to restore player session`);
+    await snapshot.destroy();
+    return;
+  }
+  const session = await sessions.create(channel);
+  await session.restore(snapshot);
+  log('Restored player session for guild', snapshot.guild_id);
+}
+
+async function offerRestore(snapshot: PlayerSessions, updatesChannelId: string): Promise<void> {
+  const channel = await getChannel(updatesChannelId);
+  if (!channel || !isText(channel)) {
+    await snapshot.destroy();
+    return;
+  }
+  const numTracks = snapshot.queue.length + (snapshot.current_track ? 1 : 0);
+  const message = await channel.send({
+    content: `The player was interrupted with ${numTracks} track(s) remaining in <#${snapshot.channel_id}>. Do you want to resume where it left off?`,
+    components: [getButtonsRow([
+      {
+        id: 'resume',
+        label: 'Resume',
+        style: ButtonStyle.Success,
+      },
+      {
+        id: 'discard',
+        label: 'Discard',
+        style: ButtonStyle.Danger,
+      },
+    ])],
+  });
+  listenForButtons({
+    message,
+    handlers: {
+      resume: async i => {
+        try {
+          await checkVoiceErrors({ userId: i.user.id, guildId: snapshot.guild_id });
+          await restoreSession(snapshot);
+          await message.edit({
+            content: `Player session was resumed by <@${i.user.id}>.`,
+            components: [],
+          });
+        } catch (err) {
+          await i.followUp({
+            ephemeral: true,
+            content: getErrorMsg(err),
+          });
+        }
+      },
+      discard: async () => {
+        await snapshot.destroy();
+        await message.edit({
+          content: 'Player session was discarded.',
+          components: [],
+        });
+      },
+    },
+  });
+}
+
+/**
+ * Rejoins the last voice channel for any player sessions which were interrupted by the bot restarting or crashing,
+ * or offers to do so if the guild has not enabled auto-restore.
+ */
+async function loadPlayerSessions(): Promise<void> {
+  const snapshots = await PlayerSessions.findAll();
+  await Promise.all(snapshots.map(async snapshot => {
+    try {
+      const playerSettings = await PlayerSettings.findByPk(snapshot.guild_id);
+      if (playerSettings?.auto_restore) {
+        await restoreSession(snapshot);
+      } else if (playerSettings?.updates_channel_id) {
+        await offerRestore(snapshot, playerSettings.updates_channel_id);
+      } else {
+        // There is nowhere to offer restoring the session
+        await snapshot.destroy();
+      }
+    } catch (err) {
+      error(err);
+    }
+  }));
+}
+
+export default [loadPlayerSessions];
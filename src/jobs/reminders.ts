@@ -53,7 +53,7 @@ async function handleReminder(reminder: Reminder, destroy: boolean) {
  * Returns a Date if the invocation is at some point in the future,
  * or null if it should be executed immediately.
  */
-function getNextInvocationDate(time: number, interval: number | null): Date | null {
+export function getNextInvocationDate(time: number, interval: number | null): Date | null {
   // Add a 1 second buffer so we don't schedule something in the past for edge cases.
   // The CronJob has problems where create a job at precisely the same time it's scheduled for,
   // then the job will break and never fire.
@@ -0,0 +1,52 @@
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  ForeignKey,
+} from 'sequelize';
+import type { ModelDefinition } from 'src/types';
+import { MovieNightPolls } from './movie-night-polls';
+
+export class MovieNightBallots extends Model<
+  InferAttributes<MovieNightBallots>, InferCreationAttributes<MovieNightBallots>
+> {
+  declare poll_id: ForeignKey<MovieNightPolls['id']>;
+  declare user_id: string;
+  declare choices: string[];
+}
+
+const MovieNightBallotsDefinition: ModelDefinition = sequelize => {
+  const tableName = 'movie_night_ballots';
+  MovieNightBallots.init({
+    poll_id: {
+      type: Sequelize.UUID,
+      primaryKey: true,
+    },
+    user_id: {
+      type: Sequelize.STRING,
+      primaryKey: true,
+    },
+    choices: {
+      // IDs of the movies. For ranked-choice voting, these are in order of preference.
+      type: Sequelize.ARRAY(Sequelize.UUID),
+      allowNull: false,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+  });
+};
+
+export function associate(): void {
+  MovieNightBallots.belongsTo(MovieNightPolls, {
+    onDelete: 'CASCADE',
+    as: 'poll',
+    foreignKey: {
+      name: 'poll_id',
+      allowNull: false,
+    },
+  });
+}
+
+export default MovieNightBallotsDefinition;
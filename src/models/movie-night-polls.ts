@@ -0,0 +1,122 @@
+import type { ModelDefinition } from 'src/types';
+import type { PollResults } from 'src/commands/movies/voting';
+
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  HasManyGetAssociationsMixin,
+  NonAttribute,
+} from 'sequelize';
+import { MovieNightBallots } from './movie-night-ballots';
+
+export enum VotingMethod {
+  // Members rank the candidates, and the candidate with the fewest votes is eliminated until one has a majority
+  RANKED = 'RANKED',
+  // Members pick every candidate that they would be happy with, and the candidate with the most votes wins
+  APPROVAL = 'APPROVAL',
+}
+
+export class MovieNightPolls extends Model<
+  InferAttributes<MovieNightPolls>, InferCreationAttributes<MovieNightPolls>
+> {
+  // https://sequelize.org/docs/v6/other-topics/typescript/
+  declare getBallots: HasManyGetAssociationsMixin<MovieNightBallots>;
+  declare ballots?: NonAttribute<MovieNightBallots[]>;
+
+  declare id: CreationOptional<string>;
+  declare guild_id: string;
+  declare creator_id: string;
+  declare channel_id: CreationOptional<string | null>;
+  declare message_id: CreationOptional<string | null>;
+  declare method: VotingMethod;
+  declare candidate_ids: string[];
+  declare closes_at: number;
+  declare closed_at: CreationOptional<number | null>;
+  declare winner_id: CreationOptional<string | null>;
+  declare results: CreationOptional<PollResults | null>;
+}
+
+export type MovieNightPoll = MovieNightPolls;
+
+const MovieNightPollsDefinition: ModelDefinition = sequelize => {
+  const tableName = 'movie_night_polls';
+  MovieNightPolls.init({
+    id: {
+      type: Sequelize.UUID,
+      defaultValue: Sequelize.UUIDV4,
+      primaryKey: true,
+    },
+    guild_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    creator_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    channel_id: {
+      // Null if the poll was created on the website
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    message_id: {
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    method: {
+      // Sequelize has broken enums
+      // https://github.com/sequelize/sequelize/issues/7649
+      type: Sequelize.STRING,
+      allowNull: false,
+      validate: {
+        enumValidation(value: string) {
+          // @ts-expect-error This is useless TS
+          if (!Object.values(VotingMethod).includes(value)) {
+            throw new Error(`Method is invalid. Must be one of: ${Object.values(VotingMethod).toString()}`);
+          }
+        },
+      },
+    },
+    candidate_ids: {
+      // IDs of the movies, in the order that they are shown
+      type: Sequelize.ARRAY(Sequelize.UUID),
+      allowNull: false,
+    },
+    closes_at: {
+      // Epoch time in seconds
+      type: Sequelize.INTEGER,
+      allowNull: false,
+    },
+    closed_at: {
+      // Epoch time in seconds
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    },
+    winner_id: {
+      // Null if nobody voted, or if the poll is still open
+      type: Sequelize.UUID,
+      allowNull: true,
+    },
+    results: {
+      type: Sequelize.JSONB,
+      allowNull: true,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+  });
+};
+
+export function associate(): void {
+  MovieNightPolls.hasMany(MovieNightBallots, {
+    as: 'ballots',
+    foreignKey: {
+      name: 'poll_id',
+    },
+  });
+}
+
+export default MovieNightPollsDefinition;
@@ -0,0 +1,67 @@
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  ForeignKey,
+} from 'sequelize';
+import type { ModelDefinition } from 'src/types';
+import { MovieNights } from './movie-nights';
+
+export enum RsvpStatus {
+  GOING = 'GOING',
+  MAYBE = 'MAYBE',
+  NOT_GOING = 'NOT_GOING',
+}
+
+export class MovieNightRsvps extends Model<
+  InferAttributes<MovieNightRsvps>, InferCreationAttributes<MovieNightRsvps>
+> {
+  declare movie_night_id: ForeignKey<MovieNights['id']>;
+  declare user_id: string;
+  declare status: RsvpStatus;
+}
+
+const MovieNightRsvpsDefinition: ModelDefinition = sequelize => {
+  const tableName = 'movie_night_rsvps';
+  MovieNightRsvps.init({
+    movie_night_id: {
+      type: Sequelize.UUID,
+      primaryKey: true,
+    },
+    user_id: {
+      type: Sequelize.STRING,
+      primaryKey: true,
+    },
+    status: {
+      // Sequelize has broken enums
+      // https://github.com/sequelize/sequelize/issues/7649
+      type: Sequelize.STRING,
+      allowNull: false,
+      validate: {
+        enumValidation(value: string) {
+          // @ts-expect-error This is useless TS
+          if (!Object.values(RsvpStatus).includes(value)) {
+            throw new Error(`Status is invalid. Must be one of: ${Object.values(RsvpStatus).toString()}`);
+          }
+        },
+      },
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+  });
+};
+
+export function associate(): void {
+  MovieNightRsvps.belongsTo(MovieNights, {
+    onDelete: 'CASCADE',
+    as: 'movieNight',
+    foreignKey: {
+      name: 'movie_night_id',
+      allowNull: false,
+    },
+  });
+}
+
+export default MovieNightRsvpsDefinition;
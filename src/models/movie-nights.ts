@@ -0,0 +1,106 @@
+import type { ModelDefinition } from 'src/types';
+
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  HasManyGetAssociationsMixin,
+  NonAttribute,
+} from 'sequelize';
+import { MovieNightRsvps } from './movie-night-rsvps';
+
+export class MovieNights extends Model<
+  InferAttributes<MovieNights>, InferCreationAttributes<MovieNights>
+> {
+  // https://sequelize.org/docs/v6/other-topics/typescript/
+  declare getRsvps: HasManyGetAssociationsMixin<MovieNightRsvps>;
+  declare rsvps?: NonAttribute<MovieNightRsvps[]>;
+
+  declare id: CreationOptional<string>;
+  declare guild_id: string;
+  declare creator_id: string;
+  declare channel_id: string;
+  declare message_id: CreationOptional<string | null>;
+  declare event_id: CreationOptional<string | null>;
+  declare voice_channel_id: CreationOptional<string | null>;
+  declare time: number;
+  declare movie_id: CreationOptional<string | null>;
+  declare poll_id: CreationOptional<string | null>;
+  declare started_at: CreationOptional<number | null>;
+}
+
+export type MovieNight = MovieNights;
+
+const MovieNightsDefinition: ModelDefinition = sequelize => {
+  const tableName = 'movie_nights';
+  MovieNights.init({
+    id: {
+      type: Sequelize.UUID,
+      defaultValue: Sequelize.UUIDV4,
+      primaryKey: true,
+    },
+    guild_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    creator_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    channel_id: {
+      // The channel with the RSVP message, where reminders are sent
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    message_id: {
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    event_id: {
+      // The Discord guild scheduled event, if it could be created
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    voice_channel_id: {
+      // Where the movie is watched, which is used to find the attendees
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    time: {
+      // Epoch time in seconds
+      type: Sequelize.INTEGER,
+      allowNull: false,
+    },
+    movie_id: {
+      // Set once the vote ends if the movie is decided by a vote
+      type: Sequelize.UUID,
+      allowNull: true,
+    },
+    poll_id: {
+      // The vote which decides the movie, which ends when the movie night starts
+      type: Sequelize.UUID,
+      allowNull: true,
+    },
+    started_at: {
+      // Epoch time in seconds
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+  });
+};
+
+export function associate(): void {
+  MovieNights.hasMany(MovieNightRsvps, {
+    as: 'rsvps',
+    foreignKey: {
+      name: 'movie_night_id',
+    },
+  });
+}
+
+export default MovieNightsDefinition;
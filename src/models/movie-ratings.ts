@@ -0,0 +1,56 @@
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  ForeignKey,
+} from 'sequelize';
+import type { ModelDefinition } from 'src/types';
+import { MAX_MOVIE_RATING, MIN_MOVIE_RATING } from 'src/constants';
+import { Movies } from './movies';
+
+export class MovieRatings extends Model<
+  InferAttributes<MovieRatings>, InferCreationAttributes<MovieRatings>
+> {
+  declare movie_id: ForeignKey<Movies['id']>;
+  declare user_id: string;
+  declare rating: number;
+}
+
+const MovieRatingsDefinition: ModelDefinition = sequelize => {
+  const tableName = 'movie_ratings';
+  MovieRatings.init({
+    movie_id: {
+      type: Sequelize.UUID,
+      primaryKey: true,
+    },
+    user_id: {
+      type: Sequelize.STRING,
+      primaryKey: true,
+    },
+    rating: {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      validate: {
+        min: MIN_MOVIE_RATING,
+        max: MAX_MOVIE_RATING,
+      },
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+  });
+};
+
+export function associate(): void {
+  MovieRatings.belongsTo(Movies, {
+    onDelete: 'CASCADE',
+    as: 'movie',
+    foreignKey: {
+      name: 'movie_id',
+      allowNull: false,
+    },
+  });
+}
+
+export default MovieRatingsDefinition;
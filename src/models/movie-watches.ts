@@ -0,0 +1,81 @@
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  BelongsToGetAssociationMixin,
+  NonAttribute,
+} from 'sequelize';
+import type { ModelDefinition } from 'src/types';
+import { Movies } from './movies';
+
+export class MovieWatches extends Model<
+  InferAttributes<MovieWatches>, InferCreationAttributes<MovieWatches>
+> {
+  // https://sequelize.org/docs/v6/other-topics/typescript/
+  declare getMovie: BelongsToGetAssociationMixin<Movies>;
+  declare movie?: NonAttribute<Movies>;
+
+  declare id: CreationOptional<string>;
+  declare movie_id: ForeignKey<Movies['id']>;
+  declare guild_id: string;
+  declare watched_at: number | null;
+  declare attendee_ids: CreationOptional<string[]>;
+  declare thread_id: CreationOptional<string | null>;
+}
+
+export type MovieWatch = MovieWatches;
+
+const MovieWatchesDefinition: ModelDefinition = sequelize => {
+  const tableName = 'movie_watches';
+  MovieWatches.init({
+    id: {
+      type: Sequelize.UUID,
+      defaultValue: Sequelize.UUIDV4,
+      primaryKey: true,
+    },
+    guild_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    watched_at: {
+      // Epoch time in seconds. Null for movies that were marked as watched without a date.
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    },
+    attendee_ids: {
+      // The members in the voice channel when the movie was started
+      type: Sequelize.ARRAY(Sequelize.STRING),
+      allowNull: false,
+      defaultValue: [],
+    },
+    thread_id: {
+      // The discussion thread created when the movie was started
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+    indexes: [
+      {
+        fields: ['guild_id', 'watched_at'],
+      },
+    ],
+  });
+};
+
+export function associate(): void {
+  MovieWatches.belongsTo(Movies, {
+    onDelete: 'CASCADE',
+    as: 'movie',
+    foreignKey: {
+      name: 'movie_id',
+      allowNull: false,
+    },
+  });
+}
+
+export default MovieWatchesDefinition;
@@ -19,6 +19,8 @@ import Sequelize, {
 import { MovieNotes } from './movie-notes';
 import { MovieLists } from './movie-lists';
 import { MovieListsJunction } from './movie-lists-junction';
+import { MovieRatings } from './movie-ratings';
+import { MovieWatches } from './movie-watches';
 
 type MovieNotePrimaryKeyType = MovieNotes['id'];
 
@@ -35,7 +37,11 @@ export class Movies extends Model<
   declare getNotes: HasManyGetAssociationsMixin<MovieNotes>;
   declare createNote: HasManyCreateAssociationMixin<MovieNotes, 'movie_id'>;
   declare removeNote: HasManyRemoveAssociationsMixin<MovieNotes, MovieNotePrimaryKeyType>;
+  declare getRatings: HasManyGetAssociationsMixin<MovieRatings>;
+  declare getWatches: HasManyGetAssociationsMixin<MovieWatches>;
   declare notes?: NonAttribute<MovieNotes[]>;
+  declare ratings?: NonAttribute<MovieRatings[]>;
+  declare watches?: NonAttribute<MovieWatches[]>;
   declare lists?: NonAttribute<MovieLists[]>;
   declare junction?: NonAttribute<MovieListsJunction>;
 
@@ -43,7 +49,7 @@ export class Movies extends Model<
   declare guild_id: string;
   declare title: string;
   declare is_favorite: boolean;
-  declare was_watched: boolean;
+  declare was_watched: boolean; // whether the movie has any watches, which is kept in sync by the watch log
   declare length: number | null; // in minutes
   declare actors: string | null; // comma-separated
   declare director: string | null;
@@ -174,6 +180,18 @@ export function associate(): void {
       name: 'movie_id',
     },
   });
+  Movies.hasMany(MovieRatings, {
+    as: 'ratings',
+    foreignKey: {
+      name: 'movie_id',
+    },
+  });
+  Movies.hasMany(MovieWatches, {
+    as: 'watches',
+    foreignKey: {
+      name: 'movie_id',
+    },
+  });
 }
 
 export default MoviesDefinition;
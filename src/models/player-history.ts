@@ -0,0 +1,91 @@
+import type { ModelDefinition } from 'src/types';
+import type { TrackVariant } from 'src/commands/player/track';
+
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+} from 'sequelize';
+
+/**
+ * A record of a track which was played by the player in a guild.
+ */
+export class PlayerHistory extends Model<
+  InferAttributes<PlayerHistory>, InferCreationAttributes<PlayerHistory>
+> {
+  declare id: CreationOptional<string>;
+  declare guild_id: string;
+  declare user_id: string | null; // The user who requested the track, if known
+  declare value: string;
+  declare variant: TrackVariant;
+  declare source_link: string | null;
+  declare title: string | null;
+  declare duration: number | null; // in ms
+  declare started_at: Date;
+  declare ended_at: CreationOptional<Date | null>;
+  declare was_skipped: CreationOptional<boolean>;
+}
+
+const PlayerHistoryDefinition: ModelDefinition = sequelize => {
+  const tableName = 'player_history';
+  PlayerHistory.init({
+    id: {
+      type: Sequelize.UUID,
+      defaultValue: Sequelize.UUIDV4,
+      primaryKey: true,
+    },
+    guild_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    user_id: {
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    value: {
+      type: Sequelize.TEXT,
+      allowNull: false,
+    },
+    variant: {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+    },
+    source_link: {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    },
+    title: {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    },
+    duration: {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    },
+    started_at: {
+      type: Sequelize.DATE,
+      allowNull: false,
+    },
+    ended_at: {
+      type: Sequelize.DATE,
+      allowNull: true,
+    },
+    was_skipped: {
+      type: Sequelize.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+    indexes: [
+      {
+        fields: ['guild_id', 'started_at'],
+      },
+    ],
+  });
+};
+
+export default PlayerHistoryDefinition;
@@ -0,0 +1,86 @@
+import type { ModelDefinition } from 'src/types';
+import type { TrackVariant } from 'src/commands/player/track';
+
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+} from 'sequelize';
+import { PlayerPlaylists } from './player-playlists';
+
+export class PlayerPlaylistTracks extends Model<
+  InferAttributes<PlayerPlaylistTracks>, InferCreationAttributes<PlayerPlaylistTracks>
+> {
+  declare playlist?: NonAttribute<PlayerPlaylists>;
+
+  declare id: CreationOptional<string>;
+  declare playlist_id: ForeignKey<PlayerPlaylists['id']>;
+  // All tracks in the playlist will need to be updated when the order changes.
+  // The tradeoff is performance for simplicity.
+  declare order: number;
+  declare value: string;
+  declare variant: TrackVariant;
+  declare source_link: string | null;
+  declare title: string | null;
+  declare duration: number | null; // in ms
+  declare added_by: string;
+}
+
+const PlayerPlaylistTracksDefinition: ModelDefinition = sequelize => {
+  const tableName = 'player_playlist_tracks';
+  PlayerPlaylistTracks.init({
+    id: {
+      type: Sequelize.UUID,
+      defaultValue: Sequelize.UUIDV4,
+      primaryKey: true,
+    },
+    order: {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+    },
+    value: {
+      type: Sequelize.TEXT,
+      allowNull: false,
+    },
+    variant: {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+    },
+    source_link: {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    },
+    title: {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    },
+    duration: {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    },
+    added_by: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+  });
+};
+
+export function associate(): void {
+  PlayerPlaylistTracks.belongsTo(PlayerPlaylists, {
+    onDelete: 'CASCADE',
+    as: 'playlist',
+    foreignKey: {
+      name: 'playlist_id',
+      allowNull: false,
+    },
+  });
+}
+
+export default PlayerPlaylistTracksDefinition;
@@ -0,0 +1,94 @@
+import type { ModelDefinition } from 'src/types';
+
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  HasManyGetAssociationsMixin,
+  NonAttribute,
+} from 'sequelize';
+import { notUuidValidator } from 'src/utils';
+import { PlayerPlaylistTracks } from './player-playlist-tracks';
+
+export class PlayerPlaylists extends Model<
+  InferAttributes<PlayerPlaylists>, InferCreationAttributes<PlayerPlaylists>
+> {
+  // https://sequelize.org/docs/v6/other-topics/typescript/
+  declare getTracks: HasManyGetAssociationsMixin<PlayerPlaylistTracks>;
+  declare tracks?: NonAttribute<PlayerPlaylistTracks[]>;
+
+  declare id: CreationOptional<string>;
+  declare guild_id: string;
+  declare owner_id: string;
+  declare name: string;
+  declare custom_id: string | null;
+  // Users (other than the owner) who are allowed to edit the tracks in the playlist
+  declare collaborator_ids: CreationOptional<string[]>;
+}
+
+export type PlayerPlaylist = PlayerPlaylists;
+
+const PlayerPlaylistsDefinition: ModelDefinition = sequelize => {
+  const tableName = 'player_playlists';
+  PlayerPlaylists.init({
+    id: {
+      type: Sequelize.UUID,
+      defaultValue: Sequelize.UUIDV4,
+      primaryKey: true,
+    },
+    guild_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    owner_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    name: {
+      type: Sequelize.TEXT,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    custom_id: {
+      type: Sequelize.STRING,
+      allowNull: true,
+      validate: {
+        notEmpty: true,
+        notUuidValidator,
+      },
+    },
+    collaborator_ids: {
+      type: Sequelize.ARRAY(Sequelize.STRING),
+      defaultValue: [],
+      allowNull: false,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['guild_id', 'name'],
+      },
+      {
+        unique: true,
+        fields: ['guild_id', 'custom_id'],
+      },
+    ],
+  });
+};
+
+export function associate(): void {
+  PlayerPlaylists.hasMany(PlayerPlaylistTracks, {
+    as: 'tracks',
+    foreignKey: {
+      name: 'playlist_id',
+    },
+  });
+}
+
+export default PlayerPlaylistsDefinition;
@@ -0,0 +1,83 @@
+import type { ModelDefinition } from 'src/types';
+
+import Sequelize, {
+  CreationOptional,
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+import { MIN_PLAYER_SCHEDULE_INTERVAL } from 'src/constants';
+
+export class PlayerSchedules extends Model<
+  InferAttributes<PlayerSchedules>, InferCreationAttributes<PlayerSchedules>
+> {
+  declare id: CreationOptional<string>;
+  declare guild_id: string;
+  declare channel_id: string;
+  declare owner_id: string;
+  declare favorite_id: string | null;
+  declare playlist_id: string | null;
+  declare time: number;
+  declare interval: number | null;
+}
+
+const PlayerSchedulesDefinition: ModelDefinition = sequelize => {
+  const tableName = 'player_schedules';
+  PlayerSchedules.init({
+    id: {
+      type: Sequelize.UUID,
+      defaultValue: Sequelize.UUIDV4,
+      primaryKey: true,
+    },
+    guild_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    channel_id: {
+      // The voice channel to play in
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    owner_id: {
+      // Tracks are requested on behalf of the owner
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    favorite_id: {
+      // Either the custom ID or the ID of the favorite
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    playlist_id: {
+      // Either the custom ID or the ID of the playlist
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    time: {
+      // Epoch time in seconds
+      type: Sequelize.INTEGER,
+      allowNull: false,
+    },
+    interval: {
+      // In seconds
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      validate: {
+        min: MIN_PLAYER_SCHEDULE_INTERVAL,
+      },
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+    validate: {
+      hasOneSource() {
+        if (Boolean(this.favorite_id) === Boolean(this.playlist_id)) {
+          throw new Error('Either a favorite or a playlist must be scheduled');
+        }
+      },
+    },
+  });
+};
+
+export default PlayerSchedulesDefinition;
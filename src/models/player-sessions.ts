@@ -0,0 +1,82 @@
+import type { ModelDefinition } from 'src/types';
+import type { TrackSnapshot } from 'src/commands/player/track';
+import type { AudioFilters } from 'src/commands/player/audio-filters';
+
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+} from 'sequelize';
+
+/**
+ * Snapshot of a guild's player session, so that it can be restored after the bot restarts or crashes.
+ */
+export class PlayerSessions extends Model<
+  InferAttributes<PlayerSessions>, InferCreationAttributes<PlayerSessions>
+> {
+  declare guild_id: string;
+  declare channel_id: string;
+  declare current_track: CreationOptional<TrackSnapshot | null>;
+  declare current_time_ms: CreationOptional<number>;
+  declare queue: TrackSnapshot[];
+  declare queue_loop: CreationOptional<TrackSnapshot[]>;
+  declare is_shuffled: CreationOptional<boolean>;
+  declare playback_speed: CreationOptional<number>;
+  declare filters: CreationOptional<AudioFilters>;
+}
+
+const PlayerSessionsDefinition: ModelDefinition = sequelize => {
+  const tableName = 'player_sessions';
+  PlayerSessions.init({
+    guild_id: {
+      type: Sequelize.STRING,
+      primaryKey: true,
+      allowNull: false,
+    },
+    channel_id: {
+      type: Sequelize.STRING,
+      allowNull: false,
+    },
+    current_track: {
+      type: Sequelize.JSONB,
+      allowNull: true,
+    },
+    current_time_ms: {
+      type: Sequelize.INTEGER,
+      defaultValue: 0,
+      allowNull: false,
+    },
+    queue: {
+      type: Sequelize.JSONB,
+      defaultValue: [],
+      allowNull: false,
+    },
+    queue_loop: {
+      type: Sequelize.JSONB,
+      defaultValue: [],
+      allowNull: false,
+    },
+    is_shuffled: {
+      type: Sequelize.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+    playback_speed: {
+      type: Sequelize.FLOAT,
+      defaultValue: 1,
+      allowNull: false,
+    },
+    filters: {
+      type: Sequelize.JSONB,
+      defaultValue: {},
+      allowNull: false,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+  });
+};
+
+export default PlayerSessionsDefinition;
@@ -5,6 +5,12 @@ import Sequelize, {
   CreationOptional,
 } from 'sequelize';
 import type { ModelDefinition } from 'src/types';
+import {
+  DEFAULT_PLAYER_ALONE_TIMEOUT_MINUTES,
+  DEFAULT_PLAYER_IDLE_TIMEOUT_MINUTES,
+  DEFAULT_VOTE_SKIP_THRESHOLD,
+  MAX_CROSSFADE_SECONDS,
+} from 'src/constants';
 
 export class PlayerSettings extends Model<
   InferAttributes<PlayerSettings>, InferCreationAttributes<PlayerSettings>
@@ -12,6 +18,18 @@ export class PlayerSettings extends Model<
   declare guild_id: string;
   declare updates_channel_id: CreationOptional<string | null>;
   declare normalize: CreationOptional<boolean>;
+  declare auto_restore: CreationOptional<boolean>;
+  declare dj_role_id: CreationOptional<string | null>;
+  declare vote_skip_threshold: CreationOptional<number>;
+  declare fair_queue: CreationOptional<boolean>;
+  declare max_tracks_per_user: CreationOptional<number | null>;
+  declare max_minutes_per_user: CreationOptional<number | null>;
+  declare alone_timeout_minutes: CreationOptional<number>;
+  declare idle_timeout_minutes: CreationOptional<number>;
+  declare autoplay: CreationOptional<boolean>;
+  declare crossfade_seconds: CreationOptional<number>;
+  declare tts_role_id: CreationOptional<string | null>;
+  declare announce_tracks: CreationOptional<boolean>;
 }
 
 const PlayerSettingsDefinition: ModelDefinition = sequelize => {
@@ -31,6 +49,93 @@ const PlayerSettingsDefinition: ModelDefinition = sequelize => {
       defaultValue: false,
       allowNull: false,
     },
+    auto_restore: {
+      // Whether to automatically rejoin and resume the last session after a restart, instead of offering to
+      type: Sequelize.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+    dj_role_id: {
+      // If set, members without this role need to vote to skip and cannot perform destructive actions on the queue
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    vote_skip_threshold: {
+      // Percentage of listeners (excluding bots) who need to vote to skip a track
+      type: Sequelize.INTEGER,
+      defaultValue: DEFAULT_VOTE_SKIP_THRESHOLD,
+      allowNull: false,
+      validate: {
+        min: 1,
+        max: 100,
+      },
+    },
+    fair_queue: {
+      // Interleave queued tracks by the user who requested them, instead of queueing them in order
+      type: Sequelize.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+    max_tracks_per_user: {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1,
+      },
+    },
+    max_minutes_per_user: {
+      // Total duration of the tracks that a user can have queued at once
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1,
+      },
+    },
+    alone_timeout_minutes: {
+      // Leave the voice channel after nobody else has been in it for this long. 0 to never leave.
+      type: Sequelize.INTEGER,
+      defaultValue: DEFAULT_PLAYER_ALONE_TIMEOUT_MINUTES,
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    idle_timeout_minutes: {
+      // Leave the voice channel after nothing has been playing for this long. 0 to never leave.
+      type: Sequelize.INTEGER,
+      defaultValue: DEFAULT_PLAYER_IDLE_TIMEOUT_MINUTES,
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    autoplay: {
+      // Whether to keep playing related tracks after the queue runs out
+      type: Sequelize.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+    crossfade_seconds: {
+      // How long to fade between tracks. 0 to play tracks back to back without fading.
+      type: Sequelize.INTEGER,
+      defaultValue: 0,
+      allowNull: false,
+      validate: {
+        min: 0,
+        max: MAX_CROSSFADE_SECONDS,
+      },
+    },
+    tts_role_id: {
+      // If set, members with this role can use text-to-speech. Members who can manage the server always can.
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    announce_tracks: {
+      // Whether to announce the title of each track with text-to-speech before it plays
+      type: Sequelize.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
   }, {
     sequelize,
     tableName,
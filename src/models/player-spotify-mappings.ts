@@ -0,0 +1,54 @@
+import type { ModelDefinition } from 'src/types';
+
+import Sequelize, {
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+
+/**
+ * The YouTube video that a Spotify track (or episode) was matched with,
+ * so that YouTube does not need to be searched again every time it is played.
+ */
+export class PlayerSpotifyMappings extends Model<
+  InferAttributes<PlayerSpotifyMappings>, InferCreationAttributes<PlayerSpotifyMappings>
+> {
+  declare spotify_link: string;
+  declare youtube_link: string;
+  declare title: string | null;
+  declare duration: number | null; // in ms
+}
+
+const PlayerSpotifyMappingsDefinition: ModelDefinition = sequelize => {
+  const tableName = 'player_spotify_mappings';
+  PlayerSpotifyMappings.init({
+    spotify_link: {
+      type: Sequelize.TEXT,
+      primaryKey: true,
+      allowNull: false,
+    },
+    youtube_link: {
+      type: Sequelize.TEXT,
+      allowNull: false,
+    },
+    title: {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    },
+    duration: {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+    indexes: [
+      {
+        fields: ['youtube_link'],
+      },
+    ],
+  });
+};
+
+export default PlayerSpotifyMappingsDefinition;
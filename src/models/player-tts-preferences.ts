@@ -0,0 +1,75 @@
+import type { ModelDefinition } from 'src/types';
+
+import Sequelize, {
+  CreationOptional,
+  Model,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+import { MAX_TEXT_TO_SPEECH_SPEED, MIN_TEXT_TO_SPEECH_SPEED } from 'src/constants';
+
+export enum TextToSpeechProvider {
+  GOOGLE = 'GOOGLE',
+  OPENAI = 'OPENAI',
+}
+
+export class PlayerTtsPreferences extends Model<
+  InferAttributes<PlayerTtsPreferences>, InferCreationAttributes<PlayerTtsPreferences>
+> {
+  declare user_id: string;
+  declare provider: CreationOptional<TextToSpeechProvider>;
+  declare voice: CreationOptional<string | null>;
+  declare language: CreationOptional<string | null>;
+  declare speaking_rate: CreationOptional<number | null>;
+}
+
+const PlayerTtsPreferencesDefinition: ModelDefinition = sequelize => {
+  const tableName = 'player_tts_preferences';
+  PlayerTtsPreferences.init({
+    user_id: {
+      type: Sequelize.STRING,
+      primaryKey: true,
+      allowNull: false,
+    },
+    provider: {
+      // Sequelize has broken enums
+      // https://github.com/sequelize/sequelize/issues/7649
+      type: Sequelize.STRING,
+      defaultValue: TextToSpeechProvider.GOOGLE,
+      allowNull: false,
+      validate: {
+        enumValidation(value: string) {
+          // @ts-expect-error This is useless TS
+          if (!Object.values(TextToSpeechProvider).includes(value)) {
+            throw new Error(`Provider is invalid. Must be one of: ${Object.values(TextToSpeechProvider).toString()}`);
+          }
+        },
+      },
+    },
+    voice: {
+      // Name of the voice for the provider, e.g. "en-US-Wavenet-D" for Google or "nova" for OpenAI
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    language: {
+      // BCP-47 language code, e.g. "en-US". Only used by Google, since OpenAI detects the language from the text.
+      type: Sequelize.STRING,
+      allowNull: true,
+    },
+    speaking_rate: {
+      // Multiplier for how fast the voice speaks
+      type: Sequelize.FLOAT,
+      allowNull: true,
+      validate: {
+        min: MIN_TEXT_TO_SPEECH_SPEED,
+        max: MAX_TEXT_TO_SPEECH_SPEED,
+      },
+    },
+  }, {
+    sequelize,
+    tableName,
+    freezeTableName: true,
+  });
+};
+
+export default PlayerTtsPreferencesDefinition;
@@ -11,6 +11,7 @@ import type {
   CommandInteraction,
   ButtonInteraction,
   ModalSubmitInteraction,
+  AutocompleteInteraction,
   ContextMenuCommandInteraction,
   MessageComponentInteraction,
   CacheType,
@@ -70,6 +71,7 @@ export interface Command {
   runCommand?: (interaction: ChatInputCommandInteraction) => Promise<IntentionalAny>,
   runContextMenu?: (interaction: ContextMenuCommandInteraction) => Promise<IntentionalAny>,
   runModal?: (interaction: ModalSubmitInteraction) => Promise<IntentionalAny>,
+  runAutocomplete?: (interaction: AutocompleteInteraction) => Promise<IntentionalAny>,
   modalLabels?: StringMapping,
   modalPlaceholders?: StringMapping,
   modalHiddenArgs?: string[],
@@ -166,6 +168,8 @@ export type RateLimitAttemptFn = (details: { userId: string, guildId?: string |
 export type RateLimiter = {
   // Throws an error with a message description if there was a consumption error
   attempt: RateLimitAttemptFn,
+  // Waits until the points can be consumed instead of throwing, for queueing requests
+  wait: RateLimitAttemptFn,
 };
 
 export type InteractionCreateArg = Interaction<CacheType>;
@@ -1,4 +1,4 @@
-import { PlayerStatus } from 'src/commands/player/types';
+import { BroadcastData, PlayerStatus } from 'src/commands/player/types';
 import { ChessGames } from 'src/models/chess-games';
 import { ChessGameResponse, ReminderResponse } from 'src/types';
 
@@ -13,6 +13,7 @@ export enum SocketEventTypes {
   CHESS_GAME_RESIGNED = 'CHESS_GAME_RESIGNED',
   PLAYER_STATUS_CHANGED = 'PLAYER_STATUS_CHANGED',
   PLAYER_DISCONNECTED = 'PLAYER_DISCONNECTED',
+  BROADCAST_UPDATED = 'BROADCAST_UPDATED',
 }
 
 export type SocketEvent =
@@ -71,4 +72,12 @@ export type SocketEvent =
     guildId: string,
     channelId?: string,
   },
+}|
+{
+  type: SocketEventTypes.BROADCAST_UPDATED,
+  data: {
+    guildId: string,
+    // null if the guild is no longer in the broadcast
+    broadcast: BroadcastData | null,
+  },
 }
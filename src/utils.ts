@@ -1,5 +1,6 @@
 import { getTimeZones } from '@vvo/tzdb';
 import humanizeDurationUtil from 'humanize-duration';
+import { parseDate } from 'chrono-node';
 import type { Falsy, IntentionalAny } from 'src/types';
 
 export function array<T = unknown>(t: T | T[]): T[] {
@@ -42,7 +43,7 @@ export function shorten(msg: string, length: number): string {
 /**
  * For parsing command input of delays. Note that this function is NOT used for parsing input of dates.
  * Throws an error if it's not parsable.
- * TODO: support weeks, months and years as well
+ * Months are 30 days and years are 365 days.
  * @param {string} arg Some string representation of time, e.g. "600" or "10 minutes" or "July 10th".
  *   If the argument is purely numeric, then it will be treated as milliseconds.
  * @returns An integer representing the number of milliseconds for delay.
@@ -55,6 +56,9 @@ export function parseDelay(arg: string): number {
   const mins = /\d+\s?(m|mins?|minutes?)$/;
   const hours = /\d+\s?(hr?|hours?)$/;
   const days = /\d+\s?(d|days?)$/;
+  const weeks = /\d+\s?(w|wks?|weeks?)$/;
+  const months = /\d+\s?(mos?|months?)$/;
+  const years = /\d+\s?(y|yrs?|years?)$/;
   if (pureDigits.test(arg)) {
     return parseInt(arg, 10);
   }
@@ -76,6 +80,15 @@ export function parseDelay(arg: string): number {
   if (days.test(arg)) {
     unitMultiplier = 24 * 60 * 60 * 1000;
   }
+  if (weeks.test(arg)) {
+    unitMultiplier = 7 * 24 * 60 * 60 * 1000;
+  }
+  if (months.test(arg)) {
+    unitMultiplier = 30 * 24 * 60 * 60 * 1000;
+  }
+  if (years.test(arg)) {
+    unitMultiplier = 365 * 24 * 60 * 60 * 1000;
+  }
   if (!numericalPart || !unitMultiplier) {
     throw new Error(`Could not parse delay: ${arg}`);
   }
@@ -101,6 +114,26 @@ export function getTimezoneOffsetFromFilter(filter: string): number | null {
   return tzOffset - new Date().getTimezoneOffset();
 }
 
+/**
+ * For parsing command input of upcoming times, e.g. "Friday at 8pm" or "2 hours".
+ * Ambiguous dates are assumed to be in the future, e.g. "Friday" means the next Friday.
+ * Throws an error if it's not parsable.
+ * @param timeZone Time zone name or abbreviation. Defaults to America/Toronto.
+ * @returns Epoch time in seconds
+ */
+export function parseUpcomingTime(arg: string, timeZone?: string | null): number {
+  const tzOffset = getTimezoneOffsetFromFilter(timeZone || '') ?? getTimezoneOffsetFromFilter('America/Toronto');
+  let date = parseDate(arg, { timezone: tzOffset ?? undefined }, { forwardDate: true });
+  if (!date) {
+    try {
+      date = new Date(Date.now() + parseDelay(arg));
+    } catch (err) {
+      throw new Error('Could not parse the time!');
+    }
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
 /**
  * Accepts epochTime in seconds
  */
@@ -108,6 +141,12 @@ export function getDateString(epochTime: number): string {
   return new Date(epochTime * 1000).toISOString();
 }
 
+export function sleep(durationMs: number): Promise<void> {
+  return new Promise(resolve => {
+    setTimeout(resolve, durationMs);
+  });
+}
+
 export function humanizeDuration(durationMs: number): string {
   return humanizeDurationUtil(durationMs, {
     maxDecimalPoints: 0,
@@ -193,6 +232,40 @@ export function isYoutubeLink(str: string): boolean {
   });
 }
 
+const SOUNDCLOUD_ORIGIN_REGEX = /^https:\/\/(www\.|m\.)?soundcloud\.com$/;
+
+// Private tracks and sets have an extra secret token in the path
+export function isSoundCloudLink(str: string): boolean {
+  return testUrl(str, {
+    origin: SOUNDCLOUD_ORIGIN_REGEX,
+    path: /^\/[^/]+\/(?!(sets|likes|tracks|albums|reposts|popular-tracks)\/?$)[^/]+(\/s-[^/]+)?\/?$/,
+  });
+}
+
+export function isSoundCloudSetLink(str: string): boolean {
+  return testUrl(str, {
+    origin: SOUNDCLOUD_ORIGIN_REGEX,
+    path: /^\/[^/]+\/sets\/[^/]+(\/s-[^/]+)?\/?$/,
+  });
+}
+
+// Every artist has their own subdomain
+const BANDCAMP_ORIGIN_REGEX = /^https:\/\/[\da-z-]+\.bandcamp\.com$/;
+
+export function isBandcampLink(str: string): boolean {
+  return testUrl(str, {
+    origin: BANDCAMP_ORIGIN_REGEX,
+    path: /^\/track\/[^/]+\/?$/,
+  });
+}
+
+export function isBandcampAlbumLink(str: string): boolean {
+  return testUrl(str, {
+    origin: BANDCAMP_ORIGIN_REGEX,
+    path: /^\/album\/[^/]+\/?$/,
+  });
+}
+
 export function getRandomElement<T>(items: T[]): T {
   return items[Math.floor(Math.random() * items.length)];
 }
@@ -235,6 +308,62 @@ export function chunkString(str: string, size: number): string[] {
   return chunks;
 }
 
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * https://www.rfc-editor.org/rfc/rfc4180
+ * Values with commas, quotes or line breaks are quoted.
+ */
+export function getCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(value => {
+    const str = value == null ? '' : String(value);
+    return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  }).join(',')).join('\r\n');
+}
+
+/**
+ * Supports quoted values with escaped quotes and line breaks. Empty lines are left out.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let isQuoted = false;
+  const endRow = () => {
+    row.push(value);
+    if (row.length > 1 || row[0]) rows.push(row);
+    row = [];
+    value = '';
+  };
+  // Spreadsheet programs often add a byte order mark
+  const str = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < str.length; i++) {
+    const char = str[i];
+    if (isQuoted) {
+      if (char === '"' && str[i + 1] === '"') {
+        value += '"';
+        i += 1;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && str[i + 1] === '\n') i += 1;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
 export const getUniqueId = (() => {
   let id = 0;
   return () => {